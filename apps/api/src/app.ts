@@ -1,19 +1,177 @@
 import Fastify from 'fastify';
 import cors from '@fastify/cors';
 import { registerTxRoutes } from './routes/tx.js';
+import { registerAuditRoutes } from './routes/audit.js';
+import { registerUploadRoutes } from './routes/upload.js';
+import { registerListRoutes } from './routes/list.js';
+import { registerErasureRoutes } from './routes/erasure.js';
+import { registerSealedRoutes } from './routes/sealed.js';
+import { registerHealthRoutes } from './routes/health.js';
+import { registerSharedSchemas } from './routes/schemas.js';
+import { BatchOptions, loadBatchConfig, registerBatchRoutes } from './routes/batch.js';
+import { BundleOptions, loadBundleConfig, registerBundleRoutes } from './routes/bundle.js';
+import { IDEMPOTENT_REPLAYED_HEADER, loadIdempotencyTtl } from './routes/idempotency.js';
+import { CompressionConfig, loadCompressionConfig } from './routes/compression.js';
+import { AuditLog, AuditLogOptions, createAuditLog, loadAuditConfig } from './audit/index.js';
+import { AuthOptions, authPlugin, loadAuthConfig } from './plugins/auth.js';
+import { problemPlugin } from './plugins/problem.js';
+import { metricsPlugin } from './plugins/metrics.js';
+import { RateLimitOptions, loadRateLimitConfig, rateLimitPlugin } from './plugins/rate-limit.js';
+import { LimitsOptions, limitsPlugin, loadLimitsConfig } from './plugins/limits.js';
+import { openApiPlugin } from './plugins/openapi.js';
+import { RetentionOptions, loadRetentionConfig, retentionPlugin } from './plugins/retention.js';
+import {
+    BlobStore,
+    StoreConfig,
+    TxStore,
+    createStore,
+    loadBlobStore,
+    loadStoreConfig
+} from './store/index.js';
 
-export async function buildApp(){
+export interface AppOptions {
+    /** Record store, or the configuration to open one (defaults to `TX_STORE`) */
+    store?: TxStore | StoreConfig;
+
+    /** Storage for streamed upload content (defaults to `BLOB_STORE_DIR`) */
+    blobs?: BlobStore;
+
+    /** Authentication settings (defaults to `AUTH_*` env) */
+    auth?: AuthOptions;
+
+    /** Audit log, or the options to open one (defaults to `AUDIT_*` env) */
+    audit?: AuditLog | AuditLogOptions;
+
+    /** Record TTLs and expiry sweep settings (defaults to `TX_TTL_DEFAULTS` and `TX_SWEEP_INTERVAL_MS`) */
+    retention?: RetentionOptions;
+
+    /** Batch limits and worker pool size (defaults to `BATCH_*` env) */
+    batch?: BatchOptions;
+
+    /** Bundle signing key and import limit (defaults to `BUNDLE_*` env) */
+    bundle?: BundleOptions;
+
+    /** How long `Idempotency-Key`s are honoured, in seconds (defaults to `IDEMPOTENCY_TTL_SECONDS`) */
+    idempotencyTtlSeconds?: number;
+
+    /** Payload compression and decompression limit (defaults to `PAYLOAD_*` env) */
+    compression?: CompressionConfig;
+
+    /** Allowed CORS origins (defaults to `CORS_ORIGINS`, comma-separated) */
+    corsOrigins?: string[];
+
+    /** Decryption rate limits, lockouts and where they are kept (defaults to `RATE_LIMIT_*` and `LOCKOUT_*` env) */
+    rateLimits?: RateLimitOptions;
+
+    /** JSON body size and depth limits (defaults to `API_BODY_LIMIT` and `API_MAX_DEPTH`) */
+    limits?: LimitsOptions;
+
+    /** Serve the docs UI at `/docs` (defaults to on unless `NODE_ENV=production`) */
+    docs?: boolean;
+
+    /** Log requests and errors (defaults to on) */
+    logger?: boolean;
+}
+
+export async function buildApp(options: AppOptions = {}){
+    const limits = options.limits ?? loadLimitsConfig();
     const fastify = Fastify({
-        logger: true
+        logger: options.logger ?? true,
+        bodyLimit: limits.bodyLimit,
+        // Optional bodies are described by schemas without a type
+        ajv: { customOptions: { strictTypes: false } }
+    });
+
+    // Answer every error as problem+json
+    await fastify.register(problemPlugin);
+    await fastify.register(limitsPlugin, limits);
+
+    // Count requests, errors and latencies for /metrics
+    await fastify.register(metricsPlugin);
+
+    // Open record store
+    const store = await resolveStore(options.store ?? loadStoreConfig());
+    fastify.addHook('onClose', async () => {
+        await store.close();
+    });
+
+    // Open audit log
+    const audit = await resolveAuditLog(options.audit ?? loadAuditConfig());
+    fastify.decorate('audit', audit);
+    fastify.addHook('onClose', async () => {
+        await audit.close();
     });
 
+    const verification = await audit.verify();
+    if (!verification.valid) {
+        fastify.log.error(verification, 'Audit chain is broken');
+    }
+
     // Register CORS
     await fastify.register(cors, {
-        origin: true // Allow all origins in development
+        origin: options.corsOrigins ?? loadCorsOrigins(),
+        allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'Idempotency-Key'],
+        exposedHeaders: [IDEMPOTENT_REPLAYED_HEADER, 'Retry-After']
+    });
+
+    // Register authentication
+    await fastify.register(authPlugin, options.auth ?? loadAuthConfig());
+
+    // Throttle decryption and lock out repeated authentication failures
+    await fastify.register(rateLimitPlugin, options.rateLimits ?? loadRateLimitConfig());
+
+    // Describe the routes registered below at /openapi.json
+    await fastify.register(openApiPlugin, {
+        docs: options.docs ?? process.env.NODE_ENV !== 'production'
     });
+    registerSharedSchemas(fastify);
 
     // Register routes
-    await registerTxRoutes(fastify);
+    await registerHealthRoutes(fastify, { store });
+    const blobs = options.blobs ?? loadBlobStore();
+    const retention = options.retention ?? loadRetentionConfig();
+    const compression = options.compression ?? loadCompressionConfig();
+    await registerTxRoutes(fastify, {
+        store,
+        retention,
+        compression,
+        idempotencyTtlSeconds: options.idempotencyTtlSeconds ?? loadIdempotencyTtl()
+    });
+    await registerBatchRoutes(fastify, {
+        store,
+        retention,
+        compression,
+        batch: options.batch ?? loadBatchConfig()
+    });
+    await registerListRoutes(fastify, { store });
+    await registerBundleRoutes(fastify, {
+        store,
+        bundle: options.bundle ?? loadBundleConfig(),
+        retention
+    });
+    await registerUploadRoutes(fastify, { store, blobs, retention });
+    await registerSealedRoutes(fastify, { store, retention });
+    await registerErasureRoutes(fastify, { store, blobs });
+    await registerAuditRoutes(fastify);
+
+    // Shred records as they expire
+    await fastify.register(retentionPlugin, { ...retention, store, blobs });
 
     return fastify;
-}
\ No newline at end of file
+}
+
+async function resolveStore(store: TxStore | StoreConfig): Promise<TxStore> {
+    return 'type' in store ? createStore(store) : store;
+}
+
+async function resolveAuditLog(audit: AuditLog | AuditLogOptions): Promise<AuditLog> {
+    return 'key' in audit ? createAuditLog(audit) : audit;
+}
+
+/**
+ * Reads allowed origins from `CORS_ORIGINS`, defaulting to the local web app
+ */
+function loadCorsOrigins(env: NodeJS.ProcessEnv = process.env): string[] {
+    const origins = env.CORS_ORIGINS ?? 'http://localhost:3000';
+    return origins.split(',').map((origin) => origin.trim()).filter(Boolean);
+}
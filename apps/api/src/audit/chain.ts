@@ -0,0 +1,104 @@
+import crypto from 'node:crypto';
+import { AuditEntry, AuditEvent, AuditVerification } from './types.js';
+
+/** `prevHash` of the first entry in a chain */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Builds the next entry of the chain for an event
+ */
+export function createEntry(
+  event: AuditEvent,
+  previous: AuditEntry | undefined,
+  key: Buffer
+): AuditEntry {
+  const unsigned = {
+    seq: (previous?.seq ?? 0) + 1,
+    timestamp: new Date().toISOString(),
+    ...event,
+    prevHash: previous?.hash ?? GENESIS_HASH
+  };
+
+  const hash = hashEntry(unsigned);
+
+  return { ...unsigned, hash, signature: sign(hash, key) };
+}
+
+/**
+ * Verifies sequence numbers, hash links and signatures of a chain
+ *
+ * Stops at the first broken entry and reports its sequence number.
+ */
+export async function verifyChain(
+  entries: Iterable<AuditEntry> | AsyncIterable<AuditEntry>,
+  key: Buffer
+): Promise<AuditVerification> {
+  let previous: AuditEntry | undefined;
+  let count = 0;
+
+  for await (const entry of entries) {
+    count++;
+
+    const reason = checkEntry(entry, previous, key);
+    if (reason) {
+      return { valid: false, entries: count, brokenAt: entry.seq, reason };
+    }
+
+    previous = entry;
+  }
+
+  return { valid: true, entries: count };
+}
+
+function checkEntry(
+  entry: AuditEntry,
+  previous: AuditEntry | undefined,
+  key: Buffer
+): string | undefined {
+  if (entry.seq !== (previous?.seq ?? 0) + 1) {
+    return 'sequence gap';
+  }
+
+  if (entry.prevHash !== (previous?.hash ?? GENESIS_HASH)) {
+    return 'previous hash mismatch';
+  }
+
+  const { hash, signature, ...unsigned } = entry;
+
+  if (hashEntry(unsigned) !== hash) {
+    return 'entry hash mismatch';
+  }
+
+  const expected = Buffer.from(sign(hash, key), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return 'invalid signature';
+  }
+
+  return undefined;
+}
+
+/**
+ * Hashes an entry's fields in a fixed order, independent of property order
+ */
+function hashEntry(entry: Omit<AuditEntry, 'hash' | 'signature'>): string {
+  const fields = [
+    entry.seq,
+    entry.timestamp,
+    entry.action,
+    entry.outcome,
+    entry.actor ?? null,
+    entry.partyId ?? null,
+    entry.recordId ?? null,
+    entry.requestId ?? null,
+    entry.reason ?? null,
+    entry.prevHash
+  ];
+
+  return crypto.createHash('sha256').update(JSON.stringify(fields)).digest('hex');
+}
+
+function sign(hash: string, key: Buffer): string {
+  return crypto.createHmac('sha256', key).update(hash).digest('hex');
+}
@@ -0,0 +1,34 @@
+import { FastifyRequest } from 'fastify';
+import { AuditLog } from './log.js';
+import { AuditEvent } from './types.js';
+
+export type {
+  AuditAction,
+  AuditEntry,
+  AuditEvent,
+  AuditOutcome,
+  AuditQuery,
+  AuditVerification
+} from './types.js';
+export { type AuditLog, type AuditLogOptions, createAuditLog, loadAuditConfig, streamEntries } from './log.js';
+export { verifyChain } from './chain.js';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    audit: AuditLog;
+  }
+}
+
+/**
+ * Records an audit event for a request, filling in the caller and request id
+ */
+export async function auditRequest(
+  request: FastifyRequest,
+  event: Omit<AuditEvent, 'actor' | 'requestId'>
+): Promise<void> {
+  await request.server.audit.record({
+    ...event,
+    actor: request.principal?.id,
+    requestId: request.id
+  });
+}
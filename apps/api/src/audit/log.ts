@@ -0,0 +1,173 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import readline from 'node:readline';
+import { createEntry, verifyChain } from './chain.js';
+import { AuditEntry, AuditEvent, AuditQuery, AuditVerification } from './types.js';
+
+export interface AuditLog {
+  /** Appends an event to the chain */
+  record(event: AuditEvent): Promise<AuditEntry>;
+
+  /** Returns entries matching a query, oldest first */
+  query(query?: AuditQuery): Promise<AuditEntry[]>;
+
+  /** Verifies the whole chain */
+  verify(): Promise<AuditVerification>;
+
+  /** Flushes pending writes and releases the log file */
+  close(): Promise<void>;
+}
+
+export interface AuditLogOptions {
+  /** HMAC key used to sign entries */
+  key: Buffer;
+
+  /** JSON-lines file to persist entries to; in-memory only if omitted */
+  path?: string;
+}
+
+/**
+ * Opens the audit log, finding the head of any existing chain on disk
+ *
+ * Writes are serialized so every entry links to the one written before it.
+ * With a file, only the last entry is kept in memory; queries and
+ * verification stream the file. Without one, entries are kept in memory
+ * for the life of the process, which suits development only.
+ */
+export async function createAuditLog(options: AuditLogOptions): Promise<AuditLog> {
+  const filePath = options.path;
+  const memory: AuditEntry[] = [];
+  const handle = filePath ? await openForAppend(filePath) : undefined;
+
+  let head: AuditEntry | undefined;
+  if (filePath) {
+    for await (const entry of streamEntries(filePath)) {
+      head = entry;
+    }
+  }
+
+  let pending: Promise<unknown> = Promise.resolve();
+
+  // Reads start once earlier writes have landed, so they see whole lines
+  const entries = async function* (): AsyncGenerator<AuditEntry> {
+    await pending;
+    yield* filePath ? streamEntries(filePath) : memory;
+  };
+
+  return {
+    record(event) {
+      const next = pending.then(async () => {
+        const entry = createEntry(event, head, options.key);
+        if (handle) {
+          await handle.appendFile(`${JSON.stringify(entry)}\n`, 'utf8');
+        } else {
+          memory.push(entry);
+        }
+        head = entry;
+        return entry;
+      });
+
+      // Keep the queue alive after a failed write
+      pending = next.catch(() => undefined);
+      return next;
+    },
+
+    async query(query = {}) {
+      const matches: AuditEntry[] = [];
+
+      for await (const entry of entries()) {
+        if (
+          (query.partyId === undefined || entry.partyId === query.partyId) &&
+          (query.recordId === undefined || entry.recordId === query.recordId)
+        ) {
+          matches.push(entry);
+
+          // Keep only the most recent `limit` matches
+          if (query.limit !== undefined && matches.length > query.limit) {
+            matches.shift();
+          }
+        }
+      }
+
+      return matches;
+    },
+
+    verify() {
+      return verifyChain(entries(), options.key);
+    },
+
+    async close() {
+      await pending;
+      await handle?.close();
+    }
+  };
+}
+
+/**
+ * Reads the audit settings from the environment
+ *
+ * - `AUDIT_LOG_PATH`: JSON-lines file to persist entries to
+ * - `AUDIT_HMAC_KEY`: signing key (hex, at least 32 bytes)
+ *
+ * Without `AUDIT_LOG_PATH` the log is kept in memory, and a random signing
+ * key is generated when none is configured.
+ *
+ * @throws Error if a log file is configured without a key, or the key is invalid
+ */
+export function loadAuditConfig(env: NodeJS.ProcessEnv = process.env): AuditLogOptions {
+  const keyHex = env.AUDIT_HMAC_KEY;
+  const logPath = env.AUDIT_LOG_PATH || undefined;
+
+  if (!keyHex) {
+    if (logPath) {
+      throw new Error('AUDIT_HMAC_KEY is required when AUDIT_LOG_PATH is set');
+    }
+    return { key: crypto.randomBytes(32) };
+  }
+
+  if (!/^[0-9a-fA-F]+$/.test(keyHex) || keyHex.length % 2 !== 0 || keyHex.length < 64) {
+    throw new Error('AUDIT_HMAC_KEY must be a hex string of at least 32 bytes');
+  }
+
+  return { key: Buffer.from(keyHex, 'hex'), path: logPath };
+}
+
+/**
+ * Reads the entries of an audit log file one line at a time; a missing file
+ * has none
+ * @throws Error if a line is malformed
+ */
+export async function* streamEntries(filePath: string): AsyncGenerator<AuditEntry> {
+  const stream = fs.createReadStream(filePath, { encoding: 'utf8' });
+  const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+  let lineNumber = 0;
+
+  try {
+    for await (const line of lines) {
+      lineNumber++;
+      if (line.trim() === '') {
+        continue;
+      }
+
+      try {
+        yield JSON.parse(line) as AuditEntry;
+      } catch {
+        throw new Error(`Malformed audit entry in '${filePath}' at line ${lineNumber}`);
+      }
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return;
+    }
+    throw error;
+  } finally {
+    lines.close();
+    stream.destroy();
+  }
+}
+
+async function openForAppend(filePath: string): Promise<fs.promises.FileHandle> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  return fs.promises.open(filePath, 'a');
+}
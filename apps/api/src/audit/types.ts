@@ -0,0 +1,78 @@
+/**
+ * Audited operations
+ */
+export type AuditAction =
+  | 'encrypt'
+  | 'fetch'
+  | 'decrypt'
+  | 'rewrap'
+  | 'delete'
+  | 'auth'
+  | 'audit';
+
+/**
+ * Outcome of an audited operation
+ * `denied` covers both failed authentication and cross-party access.
+ */
+export type AuditOutcome = 'success' | 'failure' | 'denied';
+
+/**
+ * An event to be written to the audit log
+ */
+export interface AuditEvent {
+  action: AuditAction;
+  outcome: AuditOutcome;
+
+  /** Authenticated caller, if any */
+  actor?: string;
+
+  /** Party the operation concerned */
+  partyId?: string;
+
+  /** Record the operation concerned */
+  recordId?: string;
+
+  /** Fastify request id */
+  requestId?: string;
+
+  /** Short machine-readable reason for failures and denials */
+  reason?: string;
+}
+
+/**
+ * A hash-chained, HMAC-signed audit log entry
+ */
+export interface AuditEntry extends AuditEvent {
+  /** Position in the chain, starting at 1 */
+  seq: number;
+
+  /** Time the entry was written (ISO 8601) */
+  timestamp: string;
+
+  /** Hash of the previous entry, or 64 zeros for the first entry */
+  prevHash: string;
+
+  /** SHA-256 over this entry's fields including `prevHash` (hex) */
+  hash: string;
+
+  /** HMAC-SHA256 of `hash` under the audit key (hex) */
+  signature: string;
+}
+
+/**
+ * Filters for querying the audit log
+ */
+export interface AuditQuery {
+  partyId?: string;
+  recordId?: string;
+
+  /** Maximum number of entries to return, most recent last */
+  limit?: number;
+}
+
+/**
+ * Result of verifying the audit chain
+ */
+export type AuditVerification =
+  | { valid: true; entries: number }
+  | { valid: false; entries: number; brokenAt: number; reason: string };
@@ -0,0 +1,8 @@
+/**
+ * Library entry point, for tools that work on the API's record store
+ * directly, such as the `mirfa` CLI
+ */
+export { buildApp, type AppOptions } from './app.js';
+export * from './store/index.js';
+export { runRewrapJob } from './routes/tx.js';
+export type { RateLimit, RateLimitOptions, RateLimitStore, TakeResult } from './plugins/rate-limit.js';
@@ -0,0 +1,307 @@
+import crypto from 'node:crypto';
+import fp from 'fastify-plugin';
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { AuditAction, auditRequest } from '../audit/index.js';
+import { sendProblem } from './problem.js';
+
+/** Party wildcard granting access to every party */
+export const ALL_PARTIES = '*';
+
+/**
+ * Authenticated caller
+ */
+export interface Principal {
+  /** Caller identifier (JWT `sub` or API key label) */
+  id: string;
+
+  /** Parties the caller may act for; `*` means all parties */
+  parties: string[];
+
+  /** How the caller authenticated */
+  method: 'api-key' | 'jwt' | 'disabled';
+}
+
+/**
+ * An operation on a party's data, checked for access and audited on denial
+ */
+export interface PartyAccess {
+  action: AuditAction;
+  partyId: string;
+  recordId?: string;
+}
+
+export interface AuthOptions {
+  /** API keys mapped to the caller they identify */
+  apiKeys?: Record<string, { id: string; parties: string[] }>;
+
+  /** Shared secret for HS256 JWTs */
+  jwtSecret?: string;
+
+  /** Skip authentication and grant every request access to all parties */
+  disabled?: boolean;
+}
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    principal: Principal | null;
+  }
+
+  interface FastifyContextConfig {
+    /** Set to false to allow unauthenticated access to a route */
+    auth?: boolean;
+  }
+}
+
+/**
+ * Reads authentication settings from the environment
+ *
+ * - `AUTH_API_KEYS`: JSON object `{ "<key>": { "id": "...", "parties": ["..."] } }`
+ * - `AUTH_JWT_SECRET`: HS256 secret; tokens carry `sub` and a `parties` array
+ * - `AUTH_DISABLED=true`: no authentication (local development only)
+ *
+ * @throws Error if `AUTH_API_KEYS` is not valid JSON or an entry lacks a
+ *   string `id` or a string array `parties`
+ */
+export function loadAuthConfig(env: NodeJS.ProcessEnv = process.env): AuthOptions {
+  let apiKeys: AuthOptions['apiKeys'];
+
+  if (env.AUTH_API_KEYS) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(env.AUTH_API_KEYS);
+    } catch {
+      throw new Error('AUTH_API_KEYS must be a JSON object');
+    }
+
+    if (!isJsonObject(parsed)) {
+      throw new Error('AUTH_API_KEYS must be a JSON object');
+    }
+
+    for (const [index, entry] of Object.values(parsed).entries()) {
+      if (
+        !isJsonObject(entry) ||
+        typeof entry.id !== 'string' ||
+        !Array.isArray(entry.parties) ||
+        !entry.parties.every((party) => typeof party === 'string')
+      ) {
+        throw new Error(
+          `AUTH_API_KEYS entry ${index + 1} must have a string 'id' and a string array 'parties'`
+        );
+      }
+    }
+
+    apiKeys = parsed as AuthOptions['apiKeys'];
+  }
+
+  return {
+    apiKeys,
+    jwtSecret: env.AUTH_JWT_SECRET || undefined,
+    disabled: env.AUTH_DISABLED === 'true'
+  };
+}
+
+/**
+ * Authentication plugin
+ *
+ * Accepts `X-API-Key: <key>` or `Authorization: Bearer <jwt>` and attaches
+ * the resulting `Principal` to the request. Requests without valid
+ * credentials get 401 unless the route sets `config: { auth: false }`.
+ */
+export const authPlugin = fp<AuthOptions>(
+  async (fastify, options) => {
+    const apiKeys = hashApiKeys(options.apiKeys ?? {});
+
+    if (!options.disabled && apiKeys.size === 0 && !options.jwtSecret) {
+      throw new Error(
+        'No authentication configured: set AUTH_API_KEYS or AUTH_JWT_SECRET (or AUTH_DISABLED=true)'
+      );
+    }
+
+    fastify.decorateRequest('principal', null);
+
+    fastify.addHook('onRequest', async (request, reply) => {
+      if (options.disabled) {
+        request.principal = { id: 'anonymous', parties: [ALL_PARTIES], method: 'disabled' };
+        return;
+      }
+
+      const principal = authenticate(request, apiKeys, options.jwtSecret);
+
+      if (principal) {
+        request.principal = principal;
+        return;
+      }
+
+      if (request.routeOptions.config.auth === false) {
+        return;
+      }
+
+      const hasCredentials = Boolean(request.headers['x-api-key'] || request.headers.authorization);
+
+      request.log.warn({ url: request.url }, 'Authentication failed');
+      await auditRequest(request, {
+        action: 'auth',
+        outcome: 'denied',
+        reason: hasCredentials ? 'invalid_credentials' : 'missing_credentials'
+      });
+      return sendProblem(reply, 401, 'Missing or invalid credentials');
+    });
+  },
+  { name: 'mirfa-auth' }
+);
+
+/**
+ * Checks that the caller may act for a party, replying 403 if not
+ * Denials are logged and audited.
+ *
+ * @returns true if access is allowed; otherwise the reply has been sent
+ */
+export async function ensurePartyAccess(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  access: PartyAccess
+): Promise<boolean> {
+  if (await checkPartyAccess(request, access)) {
+    return true;
+  }
+
+  sendProblem(reply, 403, 'Not permitted to access records of this party');
+  return false;
+}
+
+/**
+ * Checks that the caller may act for a party without replying, e.g. for one
+ * item of a batch. Denials are logged and audited.
+ */
+export async function checkPartyAccess(
+  request: FastifyRequest,
+  access: PartyAccess
+): Promise<boolean> {
+  if (canAccessParty(request.principal, access.partyId)) {
+    return true;
+  }
+
+  request.log.warn(
+    { principal: request.principal?.id, ...access, url: request.url },
+    'Cross-party access denied'
+  );
+  await auditRequest(request, { ...access, outcome: 'denied', reason: 'cross_party' });
+  return false;
+}
+
+/**
+ * Checks that the caller may act for every party, replying 403 if not
+ *
+ * @returns true if access is allowed; otherwise the reply has been sent
+ */
+export async function ensureAllPartiesAccess(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  access: Omit<PartyAccess, 'partyId'>
+): Promise<boolean> {
+  return ensurePartyAccess(request, reply, { ...access, partyId: ALL_PARTIES });
+}
+
+function canAccessParty(principal: Principal | null, partyId: string): boolean {
+  if (!principal) {
+    return false;
+  }
+
+  return principal.parties.includes(ALL_PARTIES) || principal.parties.includes(partyId);
+}
+
+function authenticate(
+  request: FastifyRequest,
+  apiKeys: Map<string, { id: string; parties: string[] }>,
+  jwtSecret: string | undefined
+): Principal | null {
+  const apiKey = request.headers['x-api-key'];
+
+  if (typeof apiKey === 'string' && apiKey.length > 0) {
+    const entry = apiKeys.get(sha256(apiKey));
+    return entry ? { id: entry.id, parties: entry.parties, method: 'api-key' } : null;
+  }
+
+  const authorization = request.headers.authorization;
+
+  if (jwtSecret && authorization?.startsWith('Bearer ')) {
+    const claims = verifyJwt(authorization.slice('Bearer '.length), jwtSecret);
+
+    if (
+      claims &&
+      typeof claims.sub === 'string' &&
+      Array.isArray(claims.parties) &&
+      claims.parties.every((party) => typeof party === 'string')
+    ) {
+      return { id: claims.sub, parties: claims.parties as string[], method: 'jwt' };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Verifies an HS256 JWT and returns its claims
+ * @returns Claims, or null if the token is malformed, forged or expired
+ */
+function verifyJwt(token: string, secret: string): Record<string, unknown> | null {
+  const parts = token.split('.');
+
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  const [headerPart, claimsPart, signaturePart] = parts as [string, string, string];
+
+  let header: unknown;
+  let claims: unknown;
+  try {
+    header = JSON.parse(Buffer.from(headerPart, 'base64url').toString('utf8'));
+    claims = JSON.parse(Buffer.from(claimsPart, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  if (!isJsonObject(header) || !isJsonObject(claims) || header.alg !== 'HS256') {
+    return null;
+  }
+
+  const expected = crypto
+    .createHmac('sha256', secret)
+    .update(`${headerPart}.${claimsPart}`)
+    .digest();
+  const actual = Buffer.from(signaturePart, 'base64url');
+
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+
+  if (typeof claims.exp === 'number' && now >= claims.exp) {
+    return null;
+  }
+
+  if (typeof claims.nbf === 'number' && now < claims.nbf) {
+    return null;
+  }
+
+  return claims;
+}
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Indexes API keys by their SHA-256 digest so lookups don't compare raw keys
+ */
+function hashApiKeys(
+  apiKeys: Record<string, { id: string; parties: string[] }>
+): Map<string, { id: string; parties: string[] }> {
+  return new Map(Object.entries(apiKeys).map(([key, entry]) => [sha256(key), entry]));
+}
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
@@ -0,0 +1,87 @@
+import fp from 'fastify-plugin';
+import { sendProblem } from './problem.js';
+
+const DEFAULT_BODY_LIMIT = 1024 * 1024;
+const DEFAULT_MAX_DEPTH = 32;
+
+export interface LimitsOptions {
+  /** Maximum JSON request body size in bytes */
+  bodyLimit?: number;
+
+  /** Maximum nesting of objects and arrays in JSON request bodies */
+  maxDepth?: number;
+}
+
+/**
+ * Reads request body limits from the environment
+ *
+ * - `API_BODY_LIMIT`: body size in bytes (default 1 MiB)
+ * - `API_MAX_DEPTH`: nesting depth (default 32)
+ *
+ * @throws Error if a setting is not a positive integer
+ */
+export function loadLimitsConfig(env: NodeJS.ProcessEnv = process.env): LimitsOptions {
+  const bodyLimit = Number(env.API_BODY_LIMIT ?? DEFAULT_BODY_LIMIT);
+  const maxDepth = Number(env.API_MAX_DEPTH ?? DEFAULT_MAX_DEPTH);
+
+  if (!Number.isInteger(bodyLimit) || bodyLimit < 1) {
+    throw new Error('API_BODY_LIMIT must be a positive integer');
+  }
+
+  if (!Number.isInteger(maxDepth) || maxDepth < 1) {
+    throw new Error('API_MAX_DEPTH must be a positive integer');
+  }
+
+  return { bodyLimit, maxDepth };
+}
+
+/**
+ * Rejects JSON bodies nested deeper than `maxDepth` with 400, before they
+ * reach validation or the recursive payload handling in `@mirfa/crypto`
+ *
+ * The size limit is applied by Fastify itself; see `buildApp`.
+ */
+export const limitsPlugin = fp<LimitsOptions>(
+  async (fastify, { maxDepth = DEFAULT_MAX_DEPTH }) => {
+    fastify.addHook('preValidation', async (request, reply) => {
+      if (exceedsDepth(request.body, maxDepth)) {
+        return sendProblem(reply, 400, `Request body is nested deeper than ${maxDepth} levels`, {
+          code: 'body_too_deep'
+        });
+      }
+    });
+  },
+  { name: 'mirfa-limits' }
+);
+
+/**
+ * Measures nesting breadth-first, so hostile input can't exhaust the stack
+ */
+function exceedsDepth(body: unknown, maxDepth: number): boolean {
+  let level = isContainer(body) ? [body] : [];
+
+  for (let depth = 1; level.length > 0; depth++) {
+    if (depth > maxDepth) {
+      return true;
+    }
+    level = level.flatMap((container) => Object.values(container).filter(isContainer));
+  }
+
+  return false;
+}
+
+/**
+ * Parsed JSON objects and arrays; streamed bodies, e.g. uploads, are skipped
+ */
+function isContainer(value: unknown): value is object {
+  if (Array.isArray(value)) {
+    return true;
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
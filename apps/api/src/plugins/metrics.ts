@@ -0,0 +1,116 @@
+import fp from 'fastify-plugin';
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { KeyProviderRegistry, loadKeyProviders } from '@mirfa/crypto';
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    /** Crypto operation the route performs, counted in `/metrics` */
+    operation?: 'encrypt' | 'decrypt';
+  }
+}
+
+/** Latency buckets in seconds, from a cached DEK to a slow KMS round trip */
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Serves Prometheus metrics at `/metrics`
+ *
+ * - `mirfa_crypto_requests_total{operation,outcome}`: requests to routes
+ *   that encrypt or decrypt, by whether they succeeded
+ * - `mirfa_errors_total{code}`: error responses by problem `code`
+ * - `mirfa_http_request_duration_seconds{method,route,status_code}`: latency
+ * - `mirfa_key_version{provider,key_id}`: active key version of each
+ *   configured provider, except per-party keys, which have no single version
+ * - Node.js process metrics, prefixed `mirfa_`
+ *
+ * Public, like `/healthz`: expose it only to the scraper's network.
+ */
+export const metricsPlugin = fp(
+  async (fastify) => {
+    const registry = new Registry();
+    collectDefaultMetrics({ register: registry, prefix: 'mirfa_' });
+
+    const cryptoRequests = new Counter({
+      name: 'mirfa_crypto_requests_total',
+      help: 'Requests to routes that encrypt or decrypt',
+      labelNames: ['operation', 'outcome'] as const,
+      registers: [registry]
+    });
+
+    const errors = new Counter({
+      name: 'mirfa_errors_total',
+      help: 'Error responses by problem code',
+      labelNames: ['code'] as const,
+      registers: [registry]
+    });
+
+    const duration = new Histogram({
+      name: 'mirfa_http_request_duration_seconds',
+      help: 'Time to respond to a request',
+      labelNames: ['method', 'route', 'status_code'] as const,
+      buckets: DURATION_BUCKETS,
+      registers: [registry]
+    });
+
+    new Gauge({
+      name: 'mirfa_key_version',
+      help: 'Active key version of each key provider',
+      labelNames: ['provider', 'key_id'] as const,
+      registers: [registry],
+      async collect() {
+        this.reset();
+
+        let providers: KeyProviderRegistry;
+        try {
+          providers = loadKeyProviders();
+        } catch (error) {
+          fastify.log.warn(error, 'Key providers unavailable');
+          return;
+        }
+
+        for (const provider of providers.values()) {
+          if (provider.forParty) {
+            continue;
+          }
+
+          try {
+            const { keyId, version } = await provider.activeKey();
+            this.set({ provider: provider.name, key_id: keyId }, version);
+          } catch (error) {
+            fastify.log.warn(error, `Active key of provider '${provider.name}' unavailable`);
+          }
+        }
+      }
+    });
+
+    fastify.addHook('onResponse', async (request, reply) => {
+      const operation = request.routeOptions.config.operation;
+
+      if (operation) {
+        cryptoRequests.inc({ operation, outcome: reply.statusCode < 400 ? 'success' : 'failure' });
+      }
+
+      if (reply.problemCode) {
+        errors.inc({ code: reply.problemCode });
+      }
+
+      duration.observe(
+        {
+          method: request.method,
+          route: request.routeOptions.url ?? 'unmatched',
+          status_code: String(reply.statusCode)
+        },
+        reply.elapsedTime / 1000
+      );
+    });
+
+    fastify.get(
+      '/metrics',
+      { schema: { hide: true }, config: { auth: false } },
+      async (_request, reply) => {
+        return reply.type(registry.contentType).send(await registry.metrics());
+      }
+    );
+  },
+  { name: 'mirfa-metrics' }
+);
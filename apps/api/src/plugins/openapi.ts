@@ -0,0 +1,58 @@
+import fp from 'fastify-plugin';
+import swagger from '@fastify/swagger';
+import swaggerUi from '@fastify/swagger-ui';
+
+const DOCS_PREFIX = '/docs';
+
+export interface OpenApiOptions {
+  /** Serve the interactive docs UI at `/docs` */
+  docs?: boolean;
+}
+
+/**
+ * Generates an OpenAPI 3 document from the route schemas and serves it at
+ * `/openapi.json`, along with a docs UI if enabled
+ *
+ * Register before the routes so that they are picked up. Both are public:
+ * the document holds no data, and the UI prompts for credentials itself.
+ */
+export const openApiPlugin = fp<OpenApiOptions>(
+  async (fastify, { docs = false }) => {
+    await fastify.register(swagger, {
+      openapi: {
+        info: {
+          title: 'Mirfa API',
+          description: 'Envelope encryption of transaction payloads',
+          version: '1.0.0'
+        },
+        components: {
+          securitySchemes: {
+            apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+            bearer: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }
+          }
+        },
+        security: [{ apiKey: [] }, { bearer: [] }]
+      },
+      // Name components after the shared schemas' `$id`s
+      refResolver: {
+        buildLocalReference: (json, _baseUri, _fragment, i) => String(json.$id ?? `def-${i}`)
+      }
+    });
+
+    if (docs) {
+      fastify.addHook('onRoute', (route) => {
+        if (route.url.startsWith(DOCS_PREFIX)) {
+          route.config = { ...route.config, auth: false };
+        }
+      });
+      await fastify.register(swaggerUi, { routePrefix: DOCS_PREFIX });
+    }
+
+    fastify.get(
+      '/openapi.json',
+      { schema: { hide: true }, config: { auth: false } },
+      async () => fastify.swagger()
+    );
+  },
+  { name: 'mirfa-openapi' }
+);
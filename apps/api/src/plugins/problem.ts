@@ -0,0 +1,127 @@
+import { STATUS_CODES } from 'node:http';
+import fp from 'fastify-plugin';
+import { FastifyError, FastifyReply } from 'fastify';
+import { CryptoError, CryptoErrorCode, InvalidRecordError } from '@mirfa/crypto';
+
+/** Media type of error responses (RFC 9457) */
+export const PROBLEM_JSON_TYPE = 'application/problem+json';
+
+/**
+ * Body of every error response
+ *
+ * `code` is stable and meant for programs; `detail` is for humans and may
+ * change. Some problems carry extra members, e.g. `expiresAt`.
+ */
+export interface Problem {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  code: string;
+  [extension: string]: unknown;
+}
+
+declare module 'fastify' {
+  interface FastifyReply {
+    /** `code` of the problem the reply was sent with, if any */
+    problemCode: string | null;
+  }
+}
+
+/** HTTP status for each crypto error */
+const CRYPTO_ERROR_STATUS: Record<CryptoErrorCode, number> = {
+  // The stored record itself is unusable
+  invalid_record: 422,
+  unsupported_algorithm: 422,
+  authentication_failed: 422,
+  payload_too_large: 422,
+
+  // The record is fine but the key to open it is missing; restoring it helps
+  unknown_key_version: 503,
+  key_unavailable: 503,
+
+  // The caller must send the record's passphrase
+  passphrase_required: 400,
+
+  // The fields to encrypt don't fit the payload
+  invalid_field_selection: 400,
+
+  record_expired: 410
+};
+
+/**
+ * Replies with a problem+json body
+ *
+ * @param detail - Human-readable explanation of this occurrence
+ * @param extensions - Extra members; `code` defaults to one derived from the
+ *   status, e.g. `not_found`
+ */
+export function sendProblem(
+  reply: FastifyReply,
+  status: number,
+  detail: string,
+  extensions: { code?: string } & Record<string, unknown> = {}
+) {
+  const title = STATUS_CODES[status] ?? 'Error';
+  const problem: Problem = {
+    type: 'about:blank',
+    title,
+    status,
+    detail,
+    ...extensions,
+    code: extensions.code ?? title.toLowerCase().replace(/[^a-z]+/g, '_')
+  };
+
+  reply.problemCode = problem.code;
+  return reply.code(status).type(PROBLEM_JSON_TYPE).send(problem);
+}
+
+/**
+ * Replies for an error thrown by `@mirfa/crypto`, by its code
+ *
+ * Anything else is a 500 with `fallbackDetail`, so internal messages don't
+ * reach the client.
+ */
+export function sendCryptoError(reply: FastifyReply, error: unknown, fallbackDetail: string) {
+  if (!(error instanceof CryptoError)) {
+    return sendProblem(reply, 500, fallbackDetail);
+  }
+
+  return sendProblem(reply, CRYPTO_ERROR_STATUS[error.code], error.message, {
+    code: error.code,
+    ...(error instanceof InvalidRecordError && { field: error.field })
+  });
+}
+
+/**
+ * Turns unhandled errors and unknown routes into problem+json replies
+ *
+ * Register before any other plugin so that replies from hooks, e.g. 401s,
+ * are covered too.
+ */
+export const problemPlugin = fp(
+  async (fastify) => {
+    fastify.decorateReply('problemCode', null);
+
+    fastify.setErrorHandler((error: FastifyError, request, reply) => {
+      if (error instanceof CryptoError) {
+        request.log.error(error, 'Unhandled crypto error');
+        return sendCryptoError(reply, error, 'Internal Server Error');
+      }
+
+      // Client errors raised by Fastify itself, e.g. malformed JSON
+      const status = error.statusCode ?? 500;
+      if (status < 500) {
+        return sendProblem(reply, status, error.message);
+      }
+
+      request.log.error(error, 'Request failed');
+      return sendProblem(reply, status, 'Internal Server Error');
+    });
+
+    fastify.setNotFoundHandler((request, reply) =>
+      sendProblem(reply, 404, `Route ${request.method} ${request.url} not found`)
+    );
+  },
+  { name: 'mirfa-problem' }
+);
@@ -0,0 +1,354 @@
+import fp from 'fastify-plugin';
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { TxSecureRecord } from '@mirfa/crypto';
+import { sendProblem } from './problem.js';
+import { auditRequest } from '../audit/index.js';
+
+/**
+ * A token bucket: `limit` tokens, refilled continuously at `limit` per
+ * `intervalMs`, so bursts of up to `limit` are allowed
+ */
+export interface RateLimit {
+  limit: number;
+  intervalMs: number;
+}
+
+/**
+ * Locks out a caller or record after `maxFailures` authentication failures
+ * within `windowMs`, for `durationMs`
+ */
+export interface LockoutPolicy {
+  maxFailures: number;
+  windowMs: number;
+  durationMs: number;
+}
+
+export interface TakeResult {
+  /** Whether the tokens were taken */
+  allowed: boolean;
+
+  /** Tokens left in the bucket */
+  remaining: number;
+
+  /** If not allowed, milliseconds until enough tokens have refilled */
+  retryAfterMs: number;
+}
+
+/**
+ * Keeps token buckets and lockouts, e.g. in process memory or in a store
+ * shared by every API instance
+ */
+export interface RateLimitStore {
+  /** Takes `cost` tokens from a bucket, which starts full */
+  take(key: string, bucket: RateLimit, cost: number, now: number): Promise<TakeResult>;
+
+  /** Locks a key until a time (ms since the epoch) */
+  lock(key: string, until: number): Promise<void>;
+
+  /** Returns when a key's lock ends, or undefined if it isn't locked */
+  lockedUntil(key: string, now: number): Promise<number | undefined>;
+}
+
+export interface RateLimitOptions {
+  /** Decryptions per caller; unlimited if omitted */
+  caller?: RateLimit;
+
+  /** Decryptions per party; unlimited if omitted */
+  party?: RateLimit;
+
+  /** Lockout after repeated authentication failures; none if omitted */
+  lockout?: LockoutPolicy;
+
+  /** Where buckets and lockouts are kept (defaults to process memory) */
+  store?: RateLimitStore;
+}
+
+/**
+ * Why a decryption was refused
+ */
+export interface RateLimitDenial {
+  code: 'rate_limited' | 'locked_out';
+  detail: string;
+  retryAfterMs: number;
+}
+
+type RateLimiter = RateLimitOptions & { store: RateLimitStore };
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    rateLimits: RateLimiter;
+  }
+}
+
+const DEFAULT_CALLER_LIMIT = '600/60';
+const DEFAULT_PARTY_LIMIT = '1200/60';
+const DEFAULT_LOCKOUT_MAX_FAILURES = 5;
+const DEFAULT_LOCKOUT_WINDOW_SECONDS = 300;
+const DEFAULT_LOCKOUT_SECONDS = 900;
+
+/** Buckets and locks the memory store holds before dropping settled ones */
+const MAX_MEMORY_ENTRIES = 10_000;
+
+/**
+ * Reads rate limits from the environment
+ *
+ * - `RATE_LIMIT_CALLER`: decryptions per caller as `<count>/<seconds>`
+ *   (default 600/60), or `off`
+ * - `RATE_LIMIT_PARTY`: decryptions per party (default 1200/60), or `off`
+ * - `LOCKOUT_MAX_FAILURES`: authentication failures that lock out a caller
+ *   or record (default 5; 0 disables lockouts)
+ * - `LOCKOUT_WINDOW_SECONDS`: period the failures are counted over (default 300)
+ * - `LOCKOUT_SECONDS`: how long a lockout lasts (default 900)
+ *
+ * @throws Error if a setting is malformed
+ */
+export function loadRateLimitConfig(env: NodeJS.ProcessEnv = process.env): RateLimitOptions {
+  const maxFailures = Number(env.LOCKOUT_MAX_FAILURES ?? DEFAULT_LOCKOUT_MAX_FAILURES);
+  const windowSeconds = Number(env.LOCKOUT_WINDOW_SECONDS ?? DEFAULT_LOCKOUT_WINDOW_SECONDS);
+  const lockoutSeconds = Number(env.LOCKOUT_SECONDS ?? DEFAULT_LOCKOUT_SECONDS);
+
+  if (!Number.isInteger(maxFailures) || maxFailures < 0) {
+    throw new Error('LOCKOUT_MAX_FAILURES must be a non-negative integer');
+  }
+
+  if (!Number.isInteger(windowSeconds) || windowSeconds < 1) {
+    throw new Error('LOCKOUT_WINDOW_SECONDS must be a positive integer');
+  }
+
+  if (!Number.isInteger(lockoutSeconds) || lockoutSeconds < 1) {
+    throw new Error('LOCKOUT_SECONDS must be a positive integer');
+  }
+
+  return {
+    caller: parseRateLimit(env.RATE_LIMIT_CALLER ?? DEFAULT_CALLER_LIMIT, 'RATE_LIMIT_CALLER'),
+    party: parseRateLimit(env.RATE_LIMIT_PARTY ?? DEFAULT_PARTY_LIMIT, 'RATE_LIMIT_PARTY'),
+    lockout:
+      maxFailures > 0
+        ? { maxFailures, windowMs: windowSeconds * 1000, durationMs: lockoutSeconds * 1000 }
+        : undefined
+  };
+}
+
+/**
+ * Keeps buckets and lockouts in process memory, so each API instance
+ * limits on its own
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  // `fullAt`: when the bucket will have refilled, after which it can be dropped
+  const buckets = new Map<string, { tokens: number; updatedAt: number; fullAt: number }>();
+  const locks = new Map<string, number>();
+
+  const prune = (now: number) => {
+    for (const [key, bucket] of buckets) {
+      if (bucket.fullAt <= now) {
+        buckets.delete(key);
+      }
+    }
+    for (const [key, until] of locks) {
+      if (until <= now) {
+        locks.delete(key);
+      }
+    }
+  };
+
+  return {
+    async take(key, { limit, intervalMs }, cost, now) {
+      const rate = limit / intervalMs;
+      const bucket = buckets.get(key);
+      let tokens = bucket
+        ? Math.min(limit, bucket.tokens + Math.max(0, now - bucket.updatedAt) * rate)
+        : limit;
+
+      const allowed = tokens >= cost;
+      if (allowed) {
+        tokens -= cost;
+      }
+
+      if (!bucket && buckets.size >= MAX_MEMORY_ENTRIES) {
+        prune(now);
+      }
+      buckets.set(key, { tokens, updatedAt: now, fullAt: now + (limit - tokens) / rate });
+
+      return {
+        allowed,
+        remaining: Math.floor(tokens),
+        retryAfterMs: allowed ? 0 : Math.ceil((cost - tokens) / rate)
+      };
+    },
+
+    async lock(key, until) {
+      if (!locks.has(key) && locks.size >= MAX_MEMORY_ENTRIES) {
+        prune(Date.now());
+      }
+      locks.set(key, Math.max(until, locks.get(key) ?? 0));
+    },
+
+    async lockedUntil(key, now) {
+      const until = locks.get(key);
+      return until !== undefined && until > now ? until : undefined;
+    }
+  };
+}
+
+/**
+ * Rate limits and lockouts for decryption
+ *
+ * Routes that decrypt call `ensureDecryptAllowed` (or `checkDecryptAllowed`
+ * for one item of a batch) once they know the record, and report failures
+ * with `recordDecryptFailure`.
+ */
+export const rateLimitPlugin = fp<RateLimitOptions>(
+  async (fastify, options) => {
+    fastify.decorate('rateLimits', {
+      ...options,
+      store: options.store ?? createMemoryRateLimitStore()
+    });
+  },
+  { name: 'mirfa-rate-limit' }
+);
+
+/**
+ * Checks that the caller may decrypt a record now, replying 429 with
+ * `Retry-After` if not. Denials are logged and audited.
+ *
+ * @returns true if decryption is allowed; otherwise the reply has been sent
+ */
+export async function ensureDecryptAllowed(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  record: Pick<TxSecureRecord, 'id' | 'partyId'>
+): Promise<boolean> {
+  const denial = await checkDecryptAllowed(request, record);
+
+  if (!denial) {
+    return true;
+  }
+
+  reply.header('retry-after', Math.ceil(denial.retryAfterMs / 1000));
+  sendProblem(reply, 429, denial.detail, { code: denial.code });
+  return false;
+}
+
+/**
+ * Checks that the caller may decrypt a record now, without replying, e.g.
+ * for one item of a batch. Denials are logged and audited.
+ *
+ * A lockout of the caller or the record is checked first, then the
+ * caller's and the party's rate limits, each taking a token.
+ *
+ * @returns Why decryption is refused, or undefined if it is allowed
+ */
+export async function checkDecryptAllowed(
+  request: FastifyRequest,
+  record: Pick<TxSecureRecord, 'id' | 'partyId'>
+): Promise<RateLimitDenial | undefined> {
+  const denial = await findDenial(request, record);
+
+  if (denial) {
+    request.log.warn(
+      { principal: request.principal?.id, recordId: record.id, ...denial },
+      'Decryption refused'
+    );
+    await auditRequest(request, {
+      action: 'decrypt',
+      partyId: record.partyId,
+      recordId: record.id,
+      outcome: 'denied',
+      reason: denial.code
+    });
+  }
+
+  return denial;
+}
+
+/**
+ * Counts a failed decryption against the caller and the record; after
+ * too many authentication failures, both are locked out
+ *
+ * @param code - Crypto error code of the failure; only `authentication_failed` counts
+ */
+export async function recordDecryptFailure(
+  request: FastifyRequest,
+  record: Pick<TxSecureRecord, 'id'>,
+  code: string | undefined
+): Promise<void> {
+  const { lockout, store } = request.server.rateLimits;
+
+  if (!lockout || code !== 'authentication_failed') {
+    return;
+  }
+
+  const now = Date.now();
+  const failures = { limit: lockout.maxFailures, intervalMs: lockout.windowMs };
+
+  for (const key of [callerKey(request), `record:${record.id}`]) {
+    const result = await store.take(`failures:${key}`, failures, 1, now);
+
+    if (!result.allowed || result.remaining < 1) {
+      const until = now + lockout.durationMs;
+      await store.lock(key, until);
+      request.log.warn(
+        { key, until: new Date(until).toISOString() },
+        'Locked out after repeated authentication failures'
+      );
+    }
+  }
+}
+
+async function findDenial(
+  request: FastifyRequest,
+  record: Pick<TxSecureRecord, 'id' | 'partyId'>
+): Promise<RateLimitDenial | undefined> {
+  const { caller, party, store } = request.server.rateLimits;
+  const now = Date.now();
+
+  for (const [key, detail] of [
+    [callerKey(request), 'Caller is locked out after repeated authentication failures'],
+    [`record:${record.id}`, 'Record is locked out after repeated authentication failures']
+  ] as const) {
+    const until = await store.lockedUntil(key, now);
+    if (until !== undefined) {
+      return { code: 'locked_out', detail, retryAfterMs: until - now };
+    }
+  }
+
+  for (const [key, limit, detail] of [
+    [`decrypts:${callerKey(request)}`, caller, 'Caller decryption rate limit exceeded'],
+    [`decrypts:party:${record.partyId}`, party, 'Party decryption rate limit exceeded']
+  ] as const) {
+    if (!limit) {
+      continue;
+    }
+
+    const result = await store.take(key, limit, 1, now);
+    if (!result.allowed) {
+      return { code: 'rate_limited', detail, retryAfterMs: result.retryAfterMs };
+    }
+  }
+
+  return undefined;
+}
+
+function callerKey(request: FastifyRequest): string {
+  return `caller:${request.principal?.id ?? 'anonymous'}`;
+}
+
+/**
+ * Parses `<count>/<seconds>`, or `off` for no limit
+ * @throws Error naming the setting if the value is malformed
+ */
+function parseRateLimit(value: string, name: string): RateLimit | undefined {
+  if (value === 'off') {
+    return undefined;
+  }
+
+  const match = /^(\d+)\/(\d+)$/.exec(value);
+  const limit = Number(match?.[1]);
+  const seconds = Number(match?.[2]);
+
+  if (!match || limit < 1 || seconds < 1) {
+    throw new Error(`${name} must be <count>/<seconds> with both positive, or 'off'`);
+  }
+
+  return { limit, intervalMs: seconds * 1000 };
+}
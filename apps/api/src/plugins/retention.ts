@@ -0,0 +1,169 @@
+import fp from 'fastify-plugin';
+import { BlobStore, TxStore } from '../store/index.js';
+import { EXPIRED_REASON, runExpirySweep } from '../routes/erasure.js';
+
+/** Party key for the TTL applied to parties without their own default */
+export const ANY_PARTY = '*';
+
+const DEFAULT_SWEEP_INTERVAL_MS = 60_000;
+
+export interface RetentionOptions {
+  /**
+   * Default TTL in seconds per party id, with `*` as the fallback
+   * Parties without an entry (and no `*`) keep records until deleted.
+   */
+  defaultTtls?: Record<string, number>;
+
+  /** How often to shred expired records; 0 disables the sweep */
+  sweepIntervalMs?: number;
+}
+
+/**
+ * Reads retention settings from the environment
+ *
+ * - `TX_TTL_DEFAULTS`: JSON object `{ "<partyId>": <seconds>, "*": <seconds> }`
+ * - `TX_SWEEP_INTERVAL_MS`: sweep interval (default 60000; 0 disables it)
+ *
+ * @throws Error if either setting is malformed
+ */
+export function loadRetentionConfig(env: NodeJS.ProcessEnv = process.env): RetentionOptions {
+  let defaultTtls: Record<string, number> | undefined;
+
+  if (env.TX_TTL_DEFAULTS) {
+    try {
+      defaultTtls = JSON.parse(env.TX_TTL_DEFAULTS);
+    } catch {
+      throw new Error('TX_TTL_DEFAULTS must be a JSON object');
+    }
+
+    if (typeof defaultTtls !== 'object' || defaultTtls === null || Array.isArray(defaultTtls)) {
+      throw new Error('TX_TTL_DEFAULTS must be a JSON object');
+    }
+
+    for (const [partyId, ttl] of Object.entries(defaultTtls)) {
+      if (!isValidTtl(ttl)) {
+        throw new Error(`TX_TTL_DEFAULTS['${partyId}'] must be a positive integer`);
+      }
+    }
+  }
+
+  const sweepIntervalMs = Number(env.TX_SWEEP_INTERVAL_MS ?? DEFAULT_SWEEP_INTERVAL_MS);
+
+  if (!Number.isInteger(sweepIntervalMs) || sweepIntervalMs < 0) {
+    throw new Error('TX_SWEEP_INTERVAL_MS must be a non-negative integer');
+  }
+
+  return { defaultTtls, sweepIntervalMs };
+}
+
+/**
+ * Checks that a TTL is a positive whole number of seconds
+ */
+export function isValidTtl(ttlSeconds: unknown): ttlSeconds is number {
+  return Number.isInteger(ttlSeconds) && (ttlSeconds as number) > 0;
+}
+
+/**
+ * Works out when a new record expires: the requested TTL if given, else the
+ * party's default, else never
+ */
+export function resolveExpiresAt(
+  options: RetentionOptions,
+  partyId: string,
+  ttlSeconds?: number,
+  now: Date = new Date()
+): Date | undefined {
+  const ttl = ttlSeconds ?? options.defaultTtls?.[partyId] ?? options.defaultTtls?.[ANY_PARTY];
+
+  return ttl === undefined ? undefined : new Date(now.getTime() + ttl * 1000);
+}
+
+/**
+ * Checks the expiry of a record that arrives already encrypted against the
+ * party's retention: one is required if the party has a default TTL, and it
+ * may be no later than that TTL from now
+ *
+ * @param leewayMs - How far past the limit `expiresAt` may be, for clock skew
+ * @returns Why the record is not acceptable, or undefined if it is
+ */
+export function checkRetention(
+  options: RetentionOptions,
+  record: { partyId: string; expiresAt?: string },
+  now: Date = new Date(),
+  leewayMs = 0
+): string | undefined {
+  const latestExpiry = resolveExpiresAt(options, record.partyId, undefined, now);
+
+  if (!latestExpiry) {
+    return undefined;
+  }
+
+  if (record.expiresAt === undefined) {
+    return "expiresAt is required by the party's retention policy";
+  }
+
+  if (Date.parse(record.expiresAt) > latestExpiry.getTime() + leewayMs) {
+    return `expiresAt must be no later than ${latestExpiry.toISOString()} under the party's retention policy`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Background sweep that shreds records once they expire
+ *
+ * Runs every `sweepIntervalMs` while the server is up, auditing each purged
+ * record as a deletion by `retention`. Expired idempotency keys are dropped
+ * on the same schedule.
+ */
+export const retentionPlugin = fp<RetentionOptions & { store: TxStore; blobs: BlobStore }>(
+  async (fastify, { store, blobs, sweepIntervalMs = DEFAULT_SWEEP_INTERVAL_MS }) => {
+    if (sweepIntervalMs === 0) {
+      return;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    let sweeping = false;
+
+    const sweep = async () => {
+      // Skip a tick rather than overlap a slow sweep
+      if (sweeping) {
+        return;
+      }
+      sweeping = true;
+
+      try {
+        const purged = await runExpirySweep(store, blobs, new Date(), async (record) => {
+          await fastify.audit.record({
+            action: 'delete',
+            outcome: 'success',
+            actor: 'retention',
+            partyId: record.partyId,
+            recordId: record.id,
+            reason: EXPIRED_REASON
+          });
+        });
+
+        if (purged > 0) {
+          fastify.log.info({ purged }, 'Expired records purged');
+        }
+
+        await store.purgeIdempotencyEntries(new Date().toISOString());
+      } catch (error) {
+        fastify.log.error(error, 'Expiry sweep failed');
+      } finally {
+        sweeping = false;
+      }
+    };
+
+    fastify.addHook('onReady', async () => {
+      timer = setInterval(sweep, sweepIntervalMs);
+      timer.unref();
+    });
+
+    fastify.addHook('onClose', async () => {
+      clearInterval(timer);
+    });
+  },
+  { name: 'mirfa-retention' }
+);
@@ -0,0 +1,100 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { ensureAllPartiesAccess, ensurePartyAccess } from '../plugins/auth.js';
+import { sendProblem } from '../plugins/problem.js';
+import { problemResponses } from './schemas.js';
+
+interface AuditQuerystring {
+  partyId?: string;
+  recordId?: string;
+  limit?: string;
+}
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+export async function registerAuditRoutes(fastify: FastifyInstance) {
+  // GET /audit
+  fastify.get<{ Querystring: AuditQuerystring }>(
+    '/audit',
+    {
+      schema: {
+        tags: ['audit'],
+        summary: 'Query audit entries',
+        querystring: {
+          type: 'object',
+          properties: {
+            partyId: { type: 'string' },
+            recordId: { type: 'string' },
+            limit: { type: 'string', description: `1 to ${MAX_LIMIT}, default ${DEFAULT_LIMIT}` }
+          }
+        },
+        response: {
+          200: {
+            description: 'Matching entries, most recent last',
+            type: 'object',
+            required: ['entries'],
+            properties: { entries: { type: 'array', items: { $ref: 'AuditEntry#' } } }
+          },
+          ...problemResponses
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: AuditQuerystring }>, reply: FastifyReply) => {
+      const { partyId, recordId } = request.query;
+      const limit = Number(request.query.limit ?? DEFAULT_LIMIT);
+
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+        return sendProblem(reply, 400, `limit must be an integer between 1 and ${MAX_LIMIT}`);
+      }
+
+      // Without a party filter the caller could read every party's trail
+      const allowed = partyId
+        ? await ensurePartyAccess(request, reply, { action: 'audit', partyId, recordId })
+        : await ensureAllPartiesAccess(request, reply, { action: 'audit', recordId });
+
+      if (!allowed) {
+        return reply;
+      }
+
+      return reply.send({ entries: await fastify.audit.query({ partyId, recordId, limit }) });
+    }
+  );
+
+  // GET /audit/verify
+  fastify.get(
+    '/audit/verify',
+    {
+      schema: {
+        tags: ['audit'],
+        summary: 'Verify the audit chain',
+        response: {
+          200: {
+            description: 'Whether the chain is intact, and where it breaks if not',
+            type: 'object',
+            required: ['valid', 'entries'],
+            properties: {
+              valid: { type: 'boolean' },
+              entries: { type: 'integer' },
+              brokenAt: { type: 'integer' },
+              reason: { type: 'string' }
+            }
+          },
+          ...problemResponses
+        }
+      }
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!(await ensureAllPartiesAccess(request, reply, { action: 'audit' }))) {
+        return reply;
+      }
+
+      const result = await fastify.audit.verify();
+
+      if (!result.valid) {
+        request.log.error(result, 'Audit chain verification failed');
+      }
+
+      return reply.send(result);
+    }
+  );
+}
@@ -0,0 +1,435 @@
+import {
+  createCryptoWorkerPool,
+  decryptMany,
+  encryptMany,
+  isExpired,
+  CryptoErrorCode,
+  CryptoWorkerPool,
+  DecryptManyItem,
+  EncryptManyItem,
+  TxSecureRecord
+} from '@mirfa/crypto';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { TxStore } from '../store/index.js';
+import { checkPartyAccess } from '../plugins/auth.js';
+import { checkDecryptAllowed, recordDecryptFailure } from '../plugins/rate-limit.js';
+import { sendProblem } from '../plugins/problem.js';
+import { RetentionOptions } from '../plugins/retention.js';
+import { auditRequest } from '../audit/index.js';
+import { EncryptRequestBody, parseEncryptRequest, parsePaths } from './tx.js';
+import { problemResponses } from './schemas.js';
+import { CompressionConfig } from './compression.js';
+
+interface BatchEncryptRequestBody {
+  items: EncryptRequestBody[];
+}
+
+interface BatchDecryptRequestBody {
+  items: { id: string; paths?: string[] }[];
+}
+
+/**
+ * Why one item of a batch failed; crypto failures carry the crypto error's
+ * code
+ */
+export type BatchErrorCode =
+  | CryptoErrorCode
+  | 'invalid_request'
+  | 'forbidden'
+  | 'not_found'
+  | 'deleted'
+  | 'expired'
+  | 'rate_limited'
+  | 'locked_out'
+  | 'encryption_failed'
+  | 'decryption_failed';
+
+type BatchItemError = { ok: false; code: BatchErrorCode; error: string };
+
+type BatchEncryptResult = { ok: true; record: TxSecureRecord } | BatchItemError;
+
+type BatchDecryptResult = { id: string } & ({ ok: true; payload: unknown } | BatchItemError);
+
+export interface BatchOptions {
+  /** Maximum items per batch */
+  maxItems?: number;
+
+  /** Maximum request body size in bytes */
+  maxBytes?: number;
+
+  /** Worker threads to run batch crypto on; 0 runs it on the event loop */
+  workers?: number;
+}
+
+interface BatchRoutesOptions {
+  store: TxStore;
+
+  /** Default TTLs for new records */
+  retention?: RetentionOptions;
+
+  /** Payload compression and decompression limit */
+  compression?: CompressionConfig;
+
+  /** Batch limits and worker pool size */
+  batch?: BatchOptions;
+}
+
+const DEFAULT_MAX_ITEMS = 1000;
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Reads batch settings from the environment
+ *
+ * - `BATCH_MAX_ITEMS`: items per batch (default 1000)
+ * - `BATCH_MAX_BYTES`: request body size (default 10 MiB)
+ * - `BATCH_WORKERS`: crypto worker threads (default 0, i.e. none)
+ *
+ * @throws Error if a setting is not a valid integer
+ */
+export function loadBatchConfig(env: NodeJS.ProcessEnv = process.env): BatchOptions {
+  const maxItems = Number(env.BATCH_MAX_ITEMS ?? DEFAULT_MAX_ITEMS);
+  const maxBytes = Number(env.BATCH_MAX_BYTES ?? DEFAULT_MAX_BYTES);
+  const workers = Number(env.BATCH_WORKERS ?? 0);
+
+  if (!Number.isInteger(maxItems) || maxItems < 1) {
+    throw new Error('BATCH_MAX_ITEMS must be a positive integer');
+  }
+
+  if (!Number.isInteger(maxBytes) || maxBytes < 1) {
+    throw new Error('BATCH_MAX_BYTES must be a positive integer');
+  }
+
+  if (!Number.isInteger(workers) || workers < 0) {
+    throw new Error('BATCH_WORKERS must be a non-negative integer');
+  }
+
+  return { maxItems, maxBytes, workers };
+}
+
+/**
+ * Routes that encrypt or decrypt many records per request
+ *
+ * Each item succeeds or fails on its own and is audited like the
+ * single-record route; only a malformed or oversized batch fails as a whole.
+ */
+export async function registerBatchRoutes(
+  fastify: FastifyInstance,
+  { store, retention = {}, compression = {}, batch = loadBatchConfig() }: BatchRoutesOptions
+) {
+  const { maxItems = DEFAULT_MAX_ITEMS, maxBytes = DEFAULT_MAX_BYTES, workers = 0 } = batch;
+
+  let pool: CryptoWorkerPool | undefined;
+  if (workers > 0) {
+    pool = createCryptoWorkerPool({ size: workers });
+    fastify.addHook('onClose', async () => {
+      await pool?.close();
+    });
+  }
+
+  // POST /tx/batch/encrypt
+  fastify.post<{ Body: BatchEncryptRequestBody }>(
+    '/tx/batch/encrypt',
+    {
+      bodyLimit: maxBytes,
+      config: { operation: 'encrypt' },
+      schema: {
+        tags: ['batch'],
+        summary: 'Encrypt and store many payloads',
+        body: {
+          type: 'object',
+          required: ['items'],
+          properties: {
+            items: {
+              type: 'array',
+              // Items are validated one by one so that each fails on its own
+              items: { description: 'Same fields as EncryptRequest' }
+            }
+          }
+        },
+        response: {
+          200: {
+            description: 'One result per item, in order',
+            type: 'object',
+            required: ['results'],
+            properties: {
+              results: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['ok'],
+                  properties: {
+                    ok: { type: 'boolean' },
+                    record: { $ref: 'TxSecureRecord#' },
+                    code: { type: 'string' },
+                    error: { type: 'string' }
+                  }
+                }
+              }
+            }
+          },
+          ...problemResponses
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Body: BatchEncryptRequestBody }>, reply: FastifyReply) => {
+      const items = request.body?.items;
+
+      if (!Array.isArray(items) || items.length === 0) {
+        return sendProblem(reply, 400, 'items must be a non-empty array');
+      }
+
+      if (items.length > maxItems) {
+        return sendProblem(reply, 413, `Batch exceeds ${maxItems} items`);
+      }
+
+      const results: BatchEncryptResult[] = new Array(items.length);
+      const accepted: { index: number; item: EncryptManyItem }[] = [];
+
+      for (const [index, body] of items.entries()) {
+        let item: EncryptManyItem;
+        try {
+          const { passphrase, ...rest } = parseEncryptRequest(body, retention, compression);
+          if (passphrase) {
+            // Workers can't be handed passphrases, and deriving keys would stall the batch
+            throw new Error('passphrase is not supported in batches');
+          }
+          item = rest;
+        } catch (error) {
+          results[index] = itemError('invalid_request', (error as Error).message);
+          continue;
+        }
+
+        if (!(await checkPartyAccess(request, { action: 'encrypt', partyId: item.partyId }))) {
+          results[index] = itemError('forbidden', 'Forbidden');
+          continue;
+        }
+
+        accepted.push({ index, item });
+      }
+
+      let encrypted: Awaited<ReturnType<typeof encryptMany>>;
+      try {
+        encrypted = await encryptMany(accepted.map(({ item }) => item), { pool });
+      } catch (error) {
+        request.log.error(error, 'Batch encryption failed');
+        return sendProblem(reply, 500, 'Encryption failed');
+      }
+
+      for (const [position, { index, item }] of accepted.entries()) {
+        const result = encrypted[position]!;
+        const { partyId } = item;
+
+        if (!result.ok) {
+          request.log.error({ err: result.error, index }, 'Encryption failed');
+          await auditRequest(request, {
+            action: 'encrypt',
+            outcome: 'failure',
+            partyId,
+            reason: result.code
+          });
+          results[index] = cryptoItemError(result, 'encryption_failed', 'Encryption failed');
+          continue;
+        }
+
+        try {
+          await store.put(result.value);
+        } catch (error) {
+          request.log.error({ err: error, index }, 'Encryption failed');
+          await auditRequest(request, { action: 'encrypt', outcome: 'failure', partyId });
+          results[index] = itemError('encryption_failed', 'Encryption failed');
+          continue;
+        }
+
+        await auditRequest(request, {
+          action: 'encrypt',
+          outcome: 'success',
+          partyId,
+          recordId: result.value.id
+        });
+        results[index] = { ok: true, record: result.value };
+      }
+
+      return reply.send({ results });
+    }
+  );
+
+  // POST /tx/batch/decrypt
+  fastify.post<{ Body: BatchDecryptRequestBody }>(
+    '/tx/batch/decrypt',
+    {
+      bodyLimit: maxBytes,
+      config: { operation: 'decrypt' },
+      schema: {
+        tags: ['batch'],
+        summary: 'Decrypt many records',
+        body: {
+          type: 'object',
+          required: ['items'],
+          properties: {
+            items: {
+              type: 'array',
+              // Items are validated one by one so that each fails on its own
+              items: { description: '{ "id": "...", "paths": [...] }, paths optional' }
+            }
+          }
+        },
+        response: {
+          200: {
+            description: 'One result per item, in order',
+            type: 'object',
+            required: ['results'],
+            properties: {
+              results: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['id', 'ok'],
+                  properties: {
+                    id: { type: 'string' },
+                    ok: { type: 'boolean' },
+                    payload: {},
+                    code: { type: 'string' },
+                    error: { type: 'string' }
+                  }
+                }
+              }
+            }
+          },
+          ...problemResponses
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Body: BatchDecryptRequestBody }>, reply: FastifyReply) => {
+      const items = request.body?.items;
+
+      if (!Array.isArray(items) || items.length === 0) {
+        return sendProblem(reply, 400, 'items must be a non-empty array');
+      }
+
+      if (items.length > maxItems) {
+        return sendProblem(reply, 413, `Batch exceeds ${maxItems} items`);
+      }
+
+      const results: BatchDecryptResult[] = new Array(items.length);
+      const accepted: { index: number; item: DecryptManyItem }[] = [];
+
+      for (const [index, item] of items.entries()) {
+        const id = typeof item?.id === 'string' ? item.id : '';
+
+        if (!id) {
+          results[index] = { id, ...itemError('invalid_request', 'id must be a string') };
+          continue;
+        }
+
+        if (item.paths !== undefined) {
+          try {
+            parsePaths(item.paths, 'paths');
+          } catch (error) {
+            results[index] = { id, ...itemError('invalid_request', (error as Error).message) };
+            continue;
+          }
+        }
+
+        const record = await store.get(id);
+
+        if (!record) {
+          results[index] = { id, ...(await missingRecordError(store, request, id)) };
+          continue;
+        }
+
+        const access = { action: 'decrypt' as const, partyId: record.partyId, recordId: id };
+
+        if (!(await checkPartyAccess(request, access))) {
+          results[index] = { id, ...itemError('forbidden', 'Forbidden') };
+          continue;
+        }
+
+        if (isExpired(record)) {
+          results[index] = { id, ...itemError('expired', 'Record has expired') };
+          continue;
+        }
+
+        const denial = await checkDecryptAllowed(request, record);
+
+        if (denial) {
+          results[index] = { id, ...itemError(denial.code, denial.detail) };
+          continue;
+        }
+
+        accepted.push({ index, item: { record, paths: item.paths } });
+      }
+
+      let decrypted: Awaited<ReturnType<typeof decryptMany>>;
+      try {
+        decrypted = await decryptMany(accepted.map(({ item }) => item), {
+          pool,
+          maxInflatedBytes: compression.maxInflatedBytes
+        });
+      } catch (error) {
+        request.log.error(error, 'Batch decryption failed');
+        return sendProblem(reply, 500, 'Decryption failed');
+      }
+
+      for (const [position, { index, item }] of accepted.entries()) {
+        const result = decrypted[position]!;
+        const { id, partyId } = item.record;
+        const access = { action: 'decrypt' as const, partyId, recordId: id };
+
+        if (!result.ok) {
+          request.log.error({ err: result.error, id }, 'Decryption failed');
+          await auditRequest(request, { ...access, outcome: 'failure', reason: result.code });
+          await recordDecryptFailure(request, item.record, result.code);
+          results[index] = {
+            id,
+            ...cryptoItemError(result, 'decryption_failed', 'Decryption failed')
+          };
+          continue;
+        }
+
+        await auditRequest(request, { ...access, outcome: 'success' });
+        results[index] = { id, ok: true, payload: result.value };
+      }
+
+      return reply.send({ results });
+    }
+  );
+}
+
+function itemError(code: BatchErrorCode, error: string): BatchItemError {
+  return { ok: false, code, error };
+}
+
+/**
+ * Describes a failed crypto result by its error code, as `sendCryptoError`
+ * would; errors without one get the fallback so internals don't leak
+ */
+function cryptoItemError(
+  result: { error: string; code?: CryptoErrorCode },
+  fallbackCode: BatchErrorCode,
+  fallbackError: string
+): BatchItemError {
+  return result.code ? itemError(result.code, result.error) : itemError(fallbackCode, fallbackError);
+}
+
+/**
+ * Describes a record id that isn't stored, as `sendRecordMissing` would
+ */
+async function missingRecordError(
+  store: TxStore,
+  request: FastifyRequest,
+  id: string
+): Promise<BatchItemError> {
+  const tombstone = await store.getTombstone(id);
+
+  if (!tombstone) {
+    return itemError('not_found', 'Record not found');
+  }
+
+  const access = { action: 'decrypt' as const, partyId: tombstone.partyId, recordId: id };
+
+  if (!(await checkPartyAccess(request, access))) {
+    return itemError('forbidden', 'Forbidden');
+  }
+
+  return itemError('deleted', 'Record has been deleted');
+}
@@ -0,0 +1,552 @@
+import crypto from 'node:crypto';
+import {
+  assertKeyAvailable,
+  canonicalJson,
+  createEnvKeyProvider,
+  createKeyring,
+  errorCodeOf,
+  getActiveKeyProvider,
+  isExpired,
+  loadKeyProviders,
+  rewrapRecord,
+  validateRecord,
+  InvalidRecordError,
+  KeyProviderRegistry,
+  RecordExpiredError,
+  TxSecureRecord
+} from '@mirfa/crypto';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { TxQuery, TxStore } from '../store/index.js';
+import { ALL_PARTIES, ensureAllPartiesAccess, ensurePartyAccess } from '../plugins/auth.js';
+import { sendProblem } from '../plugins/problem.js';
+import { RetentionOptions, checkRetention } from '../plugins/retention.js';
+import { auditRequest } from '../audit/index.js';
+import { withIdempotencyLock } from './idempotency.js';
+import { problemResponses } from './schemas.js';
+
+/** `format` of every bundle */
+export const BUNDLE_FORMAT = 'mirfa.bundle';
+
+/** Current bundle format version */
+export const BUNDLE_VERSION = 1;
+
+/**
+ * Which records a bundle was exported with
+ */
+export interface BundleFilter {
+  partyId?: string;
+  createdFrom?: string;
+  createdTo?: string;
+}
+
+/**
+ * Describes a bundle's records; covered by the bundle signature
+ */
+export interface BundleManifest {
+  /** When the bundle was exported (ISO 8601) */
+  exportedAt: string;
+
+  filter: BundleFilter;
+
+  /** Number of records */
+  count: number;
+
+  /** Number of records per party */
+  parties: Record<string, number>;
+
+  /** SHA-256 over the canonical JSON of the records (hex) */
+  checksum: string;
+}
+
+/**
+ * A signed set of encrypted records, for moving them between deployments
+ *
+ * Records travel as they are stored: their payloads stay encrypted and
+ * their DEKs stay wrapped under the exporting deployment's keys.
+ */
+export interface RecordBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  manifest: BundleManifest;
+  records: TxSecureRecord[];
+
+  /** HMAC-SHA256 over the canonical JSON of `format`, `version` and `manifest` (hex) */
+  signature: string;
+}
+
+export interface BundleOptions {
+  /** Key bundles are signed and verified with; export and import are off without it */
+  signingKey?: Buffer;
+
+  /** Maximum import request body size in bytes */
+  maxBytes?: number;
+}
+
+interface BundleRoutesOptions {
+  store: TxStore;
+
+  /** Signing key and import limit */
+  bundle?: BundleOptions;
+
+  /** Default TTLs, which imported records must honour with their own expiry */
+  retention?: RetentionOptions;
+}
+
+interface ExportQuerystring {
+  partyId?: string;
+  createdFrom?: string;
+  createdTo?: string;
+}
+
+interface ImportRequestBody {
+  bundle: RecordBundle;
+
+  /**
+   * The exporting deployment's master keys by version, to rewrap DEKs of
+   * `env`-wrapped records from onto this deployment's active key
+   */
+  sourceKeys?: Record<string, string>;
+}
+
+interface ImportResult {
+  imported: number;
+  rewrapped: number;
+
+  /** Ids already stored or shredded here, which were skipped */
+  duplicates: string[];
+
+  failed: { id: string; code: string; error: string }[];
+}
+
+const DEFAULT_MAX_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Reads bundle settings from the environment
+ *
+ * - `BUNDLE_SIGNING_KEY`: HMAC key, hex, at least 32 bytes; shared by every
+ *   deployment that exchanges bundles
+ * - `BUNDLE_MAX_BYTES`: import request body size (default 64 MiB)
+ *
+ * @throws Error if a setting is malformed
+ */
+export function loadBundleConfig(env: NodeJS.ProcessEnv = process.env): BundleOptions {
+  const keyHex = env.BUNDLE_SIGNING_KEY;
+  const maxBytes = Number(env.BUNDLE_MAX_BYTES ?? DEFAULT_MAX_BYTES);
+
+  if (!Number.isInteger(maxBytes) || maxBytes < 1) {
+    throw new Error('BUNDLE_MAX_BYTES must be a positive integer');
+  }
+
+  if (!keyHex) {
+    return { maxBytes };
+  }
+
+  if (!/^[0-9a-fA-F]+$/.test(keyHex) || keyHex.length % 2 !== 0 || keyHex.length < 64) {
+    throw new Error('BUNDLE_SIGNING_KEY must be a hex string of at least 32 bytes');
+  }
+
+  return { signingKey: Buffer.from(keyHex, 'hex'), maxBytes };
+}
+
+/**
+ * Builds a signed bundle of records
+ */
+export function createBundle(
+  records: TxSecureRecord[],
+  filter: BundleFilter,
+  key: Buffer,
+  now: Date = new Date()
+): RecordBundle {
+  const parties: Record<string, number> = {};
+  for (const record of records) {
+    parties[record.partyId] = (parties[record.partyId] ?? 0) + 1;
+  }
+
+  const manifest: BundleManifest = {
+    exportedAt: now.toISOString(),
+    filter,
+    count: records.length,
+    parties,
+    checksum: checksumRecords(records)
+  };
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    manifest,
+    records,
+    signature: signManifest(BUNDLE_FORMAT, BUNDLE_VERSION, manifest, key)
+  };
+}
+
+/**
+ * Checks a bundle's format, signature and checksum, and that it holds each
+ * record id once
+ *
+ * @returns Why the bundle is not acceptable, or undefined if it is
+ */
+export function verifyBundle(bundle: RecordBundle, key: Buffer): string | undefined {
+  if (bundle.format !== BUNDLE_FORMAT || bundle.version !== BUNDLE_VERSION) {
+    return `unsupported format '${bundle.format}' version ${bundle.version}`;
+  }
+
+  const expected = Buffer.from(signManifest(bundle.format, bundle.version, bundle.manifest, key), 'hex');
+  const actual = Buffer.from(bundle.signature, 'hex');
+
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return 'invalid signature';
+  }
+
+  if (bundle.records.length !== bundle.manifest.count) {
+    return `manifest counts ${bundle.manifest.count} records, bundle holds ${bundle.records.length}`;
+  }
+
+  if (checksumRecords(bundle.records) !== bundle.manifest.checksum) {
+    return 'checksum mismatch';
+  }
+
+  const ids = new Set<string>();
+  for (const { id } of bundle.records) {
+    if (ids.has(id)) {
+      return `record ${id} appears more than once`;
+    }
+    ids.add(id);
+  }
+
+  return undefined;
+}
+
+const exportQuerySchema = {
+  type: 'object',
+  properties: {
+    partyId: { type: 'string' },
+    createdFrom: { type: 'string', description: 'ISO 8601 timestamp' },
+    createdTo: { type: 'string', description: 'ISO 8601 timestamp' }
+  }
+} as const;
+
+const bundleSchema = {
+  type: 'object',
+  required: ['format', 'version', 'manifest', 'records', 'signature'],
+  properties: {
+    format: { type: 'string' },
+    version: { type: 'integer' },
+    manifest: {
+      type: 'object',
+      required: ['exportedAt', 'filter', 'count', 'parties', 'checksum'],
+      properties: {
+        exportedAt: { type: 'string', format: 'date-time' },
+        filter: {
+          type: 'object',
+          properties: {
+            partyId: { type: 'string' },
+            createdFrom: { type: 'string', format: 'date-time' },
+            createdTo: { type: 'string', format: 'date-time' }
+          }
+        },
+        count: { type: 'integer' },
+        parties: { type: 'object', additionalProperties: { type: 'integer' } },
+        checksum: { type: 'string' }
+      }
+    },
+    records: { type: 'array', items: { $ref: 'TxSecureRecord#' } },
+    signature: { type: 'string' }
+  }
+} as const;
+
+/**
+ * Routes that move records between deployments as signed bundles
+ *
+ * Both ends must share `BUNDLE_SIGNING_KEY`. Streamed uploads are not
+ * exported: their content lives in the blob store, not in the record.
+ */
+export async function registerBundleRoutes(
+  fastify: FastifyInstance,
+  { store, bundle = loadBundleConfig(), retention = {} }: BundleRoutesOptions
+) {
+  const { signingKey, maxBytes = DEFAULT_MAX_BYTES } = bundle;
+
+  // GET /tx/export
+  fastify.get<{ Querystring: ExportQuerystring }>(
+    '/tx/export',
+    {
+      schema: {
+        tags: ['records'],
+        summary: 'Export records as a signed bundle',
+        querystring: exportQuerySchema,
+        response: {
+          200: { description: 'Records in createdAt order', ...bundleSchema },
+          ...problemResponses
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: ExportQuerystring }>, reply: FastifyReply) => {
+      if (!signingKey) {
+        return sendUnavailable(reply);
+      }
+
+      let filter: BundleFilter;
+      try {
+        filter = parseExportQuery(request.query);
+      } catch (error) {
+        return sendProblem(reply, 400, (error as Error).message);
+      }
+
+      // Callers bound to a single party don't have to repeat it
+      const parties = request.principal?.parties ?? [];
+      if (filter.partyId === undefined && parties.length === 1 && parties[0] !== ALL_PARTIES) {
+        filter.partyId = parties[0];
+      }
+
+      const partyId = filter.partyId ?? ALL_PARTIES;
+      if (!(await ensurePartyAccess(request, reply, { action: 'fetch', partyId }))) {
+        return reply;
+      }
+
+      const query: TxQuery = { ...filter };
+      const now = new Date();
+      const records = (await store.list(query)).filter(
+        (record) => record.mode !== 'stream' && !isExpired(record, now)
+      );
+
+      await auditRequest(request, { action: 'fetch', partyId, outcome: 'success', reason: 'export' });
+      return reply.send(createBundle(records, filter, signingKey, now));
+    }
+  );
+
+  // POST /tx/import
+  fastify.post<{ Body: ImportRequestBody }>(
+    '/tx/import',
+    {
+      bodyLimit: maxBytes,
+      schema: {
+        tags: ['records'],
+        summary: 'Import a signed bundle of records',
+        description:
+          'Records whose id is already stored or was shredded here are skipped and reported, ' +
+          "as are expired ones and ones that outlive their party's retention. " +
+          "With `sourceKeys`, DEKs wrapped under the exporting deployment's master keys " +
+          'are rewrapped under the active key as they are imported.',
+        body: {
+          type: 'object',
+          required: ['bundle'],
+          properties: {
+            bundle: bundleSchema,
+            sourceKeys: {
+              type: 'object',
+              description: 'Master keys (hex) by version',
+              additionalProperties: { type: 'string' }
+            }
+          }
+        },
+        response: {
+          200: {
+            description: 'Counts, and the ids of records skipped or left out',
+            type: 'object',
+            required: ['imported', 'rewrapped', 'duplicates', 'failed'],
+            properties: {
+              imported: { type: 'integer' },
+              rewrapped: { type: 'integer' },
+              duplicates: { type: 'array', items: { type: 'string' } },
+              failed: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['id', 'code', 'error'],
+                  properties: {
+                    id: { type: 'string' },
+                    code: { type: 'string' },
+                    error: { type: 'string' }
+                  }
+                }
+              }
+            }
+          },
+          ...problemResponses
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Body: ImportRequestBody }>, reply: FastifyReply) => {
+      if (!signingKey) {
+        return sendUnavailable(reply);
+      }
+
+      const { bundle: imported, sourceKeys } = request.body;
+
+      const reason = verifyBundle(imported, signingKey);
+      if (reason) {
+        return sendProblem(reply, 422, `Bundle rejected: ${reason}`, { code: 'invalid_bundle' });
+      }
+
+      let sources: KeyProviderRegistry | undefined;
+      try {
+        sources = sourceKeys && parseSourceKeys(sourceKeys);
+      } catch (error) {
+        return sendProblem(reply, 400, (error as Error).message);
+      }
+
+      // Handing over master keys is for callers that act for every party
+      const authorized = sources
+        ? await ensureAllPartiesAccess(request, reply, { action: 'rewrap' })
+        : await ensureEveryPartyAccess(request, reply, imported.records);
+
+      if (!authorized) {
+        return reply;
+      }
+
+      const result = await importRecords(request, store, imported.records, sources, retention);
+
+      if (result.failed.length > 0) {
+        request.log.warn({ failed: result.failed }, 'Some records could not be imported');
+      }
+
+      return reply.send(result);
+    }
+  );
+}
+
+/**
+ * Stores a verified bundle's records one by one, rewrapping `env`-wrapped
+ * DEKs if source keys are given
+ *
+ * Records whose DEK none of this deployment's providers can unwrap, e.g.
+ * under another deployment's party KEKs, fail rather than being stored
+ * undecryptable. So do records that have expired since they were exported,
+ * or that would outlive the retention their party has here.
+ */
+async function importRecords(
+  request: FastifyRequest,
+  store: TxStore,
+  records: TxSecureRecord[],
+  sources: KeyProviderRegistry | undefined,
+  retention: RetentionOptions
+): Promise<ImportResult> {
+  const now = new Date();
+  const providers = loadKeyProviders();
+  const target = getActiveKeyProvider(providers);
+  const result: ImportResult = { imported: 0, rewrapped: 0, duplicates: [], failed: [] };
+
+  for (const record of records) {
+    const access = { action: 'encrypt' as const, partyId: record.partyId, recordId: record.id };
+
+    await withIdempotencyLock(`import:${record.id}`, async () => {
+      if ((await store.get(record.id)) || (await store.getTombstone(record.id))) {
+        result.duplicates.push(record.id);
+        return;
+      }
+
+      if (record.mode === 'stream') {
+        const error = 'Streamed records cannot be imported without their content';
+        result.failed.push({ id: record.id, code: 'invalid_request', error });
+        await auditRequest(request, { ...access, outcome: 'failure', reason: 'invalid_request' });
+        return;
+      }
+
+      try {
+        validateRecord(record);
+
+        if (isExpired(record, now)) {
+          throw new RecordExpiredError(record.expiresAt!);
+        }
+
+        const violation = checkRetention(retention, record, now);
+        if (violation) {
+          throw new InvalidRecordError('expiresAt', violation);
+        }
+
+        const rewrap = sources !== undefined && (record.kms_provider ?? 'env') === 'env';
+        const stored = rewrap ? await rewrapRecord(record, sources, target, { force: true }) : record;
+
+        if (!rewrap) {
+          await assertKeyAvailable(stored, providers);
+        }
+
+        await store.put(stored);
+        result.imported++;
+        result.rewrapped += stored === record ? 0 : 1;
+        await auditRequest(request, { ...access, outcome: 'success', reason: 'import' });
+      } catch (error) {
+        const code = errorCodeOf(error) ?? 'import_failed';
+        result.failed.push({ id: record.id, code, error: (error as Error).message });
+        await auditRequest(request, { ...access, outcome: 'failure', reason: code });
+      }
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Checks that the caller may store records of every party in a bundle,
+ * replying 403 if not
+ */
+async function ensureEveryPartyAccess(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  records: TxSecureRecord[]
+): Promise<boolean> {
+  for (const partyId of new Set(records.map((record) => record.partyId))) {
+    if (!(await ensurePartyAccess(request, reply, { action: 'encrypt', partyId }))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Builds the providers that unwrap DEKs wrapped under the exporting
+ * deployment's master keys
+ *
+ * @throws Error with a client-facing message if a key or version is malformed
+ */
+function parseSourceKeys(keys: Record<string, string>): KeyProviderRegistry {
+  const versions = Object.keys(keys).map(Number);
+
+  if (versions.length === 0) {
+    throw new Error('sourceKeys must hold at least one key');
+  }
+
+  // Only unwrapping uses the keyring, so any version can be the active one
+  const keyring = createKeyring(Math.max(...versions), keys);
+  return new Map([['env', createEnvKeyProvider(keyring)]]);
+}
+
+/**
+ * Validates export query parameters
+ * @throws Error with a client-facing message if a parameter is invalid
+ */
+function parseExportQuery(params: ExportQuerystring): BundleFilter {
+  const filter: BundleFilter = {};
+
+  if (params.partyId !== undefined) {
+    filter.partyId = params.partyId;
+  }
+
+  for (const name of ['createdFrom', 'createdTo'] as const) {
+    const value = params[name];
+    if (value !== undefined) {
+      if (Number.isNaN(Date.parse(value))) {
+        throw new Error(`${name} must be an ISO 8601 timestamp`);
+      }
+      filter[name] = new Date(value).toISOString();
+    }
+  }
+
+  return filter;
+}
+
+function sendUnavailable(reply: FastifyReply) {
+  return sendProblem(reply, 503, 'Bundles are not available: BUNDLE_SIGNING_KEY is not set');
+}
+
+function checksumRecords(records: TxSecureRecord[]): string {
+  return crypto.createHash('sha256').update(canonicalJson(records)).digest('hex');
+}
+
+function signManifest(format: string, version: number, manifest: BundleManifest, key: Buffer): string {
+  return crypto
+    .createHmac('sha256', key)
+    .update(canonicalJson({ format, version, manifest }))
+    .digest('hex');
+}
@@ -0,0 +1,75 @@
+import {
+  CompressionAlgorithm,
+  CompressionOptions,
+  DEFAULT_COMPRESSION_MIN_BYTES,
+  DEFAULT_MAX_INFLATED_BYTES,
+  isCompressionAlgorithm
+} from '@mirfa/crypto';
+
+export interface CompressionConfig {
+  /** Codec new records are compressed with unless a request picks another; none by default */
+  algorithm?: CompressionAlgorithm;
+
+  /** Payloads smaller than this many bytes are stored uncompressed */
+  minBytes?: number;
+
+  /** Largest size a stored payload may inflate to when decrypted */
+  maxInflatedBytes?: number;
+}
+
+/**
+ * Reads payload compression settings from the environment
+ *
+ * - `PAYLOAD_COMPRESSION`: `gzip`, `br` or `none` (default `none`)
+ * - `PAYLOAD_COMPRESSION_MIN_BYTES`: size threshold (default 1 KiB)
+ * - `PAYLOAD_MAX_INFLATED_BYTES`: decompression limit (default 64 MiB)
+ *
+ * @throws Error if a setting is invalid
+ */
+export function loadCompressionConfig(env: NodeJS.ProcessEnv = process.env): CompressionConfig {
+  const algorithm = env.PAYLOAD_COMPRESSION ?? 'none';
+  const minBytes = Number(env.PAYLOAD_COMPRESSION_MIN_BYTES ?? DEFAULT_COMPRESSION_MIN_BYTES);
+  const maxInflatedBytes = Number(env.PAYLOAD_MAX_INFLATED_BYTES ?? DEFAULT_MAX_INFLATED_BYTES);
+
+  if (algorithm !== 'none' && !isCompressionAlgorithm(algorithm)) {
+    throw new Error('PAYLOAD_COMPRESSION must be one of: gzip, br, none');
+  }
+
+  if (!Number.isInteger(minBytes) || minBytes < 0) {
+    throw new Error('PAYLOAD_COMPRESSION_MIN_BYTES must be a non-negative integer');
+  }
+
+  if (!Number.isInteger(maxInflatedBytes) || maxInflatedBytes < 1) {
+    throw new Error('PAYLOAD_MAX_INFLATED_BYTES must be a positive integer');
+  }
+
+  return {
+    ...(algorithm !== 'none' && { algorithm }),
+    minBytes,
+    maxInflatedBytes
+  };
+}
+
+/**
+ * Works out how to compress a new record: as the request asks, or else as
+ * configured
+ *
+ * @param requested - `compression` of the request: a codec, or `none`
+ * @throws Error with a client-facing message if the request names no known codec
+ */
+export function resolveCompression(
+  config: CompressionConfig,
+  requested?: unknown
+): CompressionOptions | undefined {
+  const algorithm = requested ?? config.algorithm;
+
+  if (algorithm === undefined || algorithm === 'none') {
+    return undefined;
+  }
+
+  if (!isCompressionAlgorithm(algorithm)) {
+    throw new Error('compression must be one of: gzip, br, none');
+  }
+
+  return { algorithm, minBytes: config.minBytes };
+}
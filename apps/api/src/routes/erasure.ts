@@ -0,0 +1,339 @@
+import {
+  isExpired,
+  loadKeyProviders,
+  PARTY_PROVIDER_NAME,
+  PartyKeyProvider,
+  TxSecureRecord
+} from '@mirfa/crypto';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { BlobStore, Tombstone, TxStore } from '../store/index.js';
+import { ensureAllPartiesAccess, ensurePartyAccess } from '../plugins/auth.js';
+import { sendProblem } from '../plugins/problem.js';
+import { problemResponses } from './schemas.js';
+import { AuditAction, auditRequest } from '../audit/index.js';
+
+interface DeleteRequestBody {
+  /** Why the data is being erased (defaults to `erasure_request`) */
+  reason?: string;
+}
+
+interface TxParams {
+  id: string;
+}
+
+interface PartyParams {
+  partyId: string;
+}
+
+interface ErasureRoutesOptions {
+  store: TxStore;
+  blobs: BlobStore;
+}
+
+const DEFAULT_REASON = 'erasure_request';
+const MAX_REASON_LENGTH = 200;
+
+/** Tombstone reason for records removed by the expiry sweep */
+export const EXPIRED_REASON = 'expired';
+
+/**
+ * Shreds every stored record whose `expiresAt` has passed
+ *
+ * @param now - Records expiring at or before this time are shredded
+ * @param onRecord - Called after each record is shredded, e.g. for auditing
+ * @returns Number of records purged
+ */
+export async function runExpirySweep(
+  store: TxStore,
+  blobs: BlobStore,
+  now: Date = new Date(),
+  onRecord?: (record: TxSecureRecord) => Promise<void>
+): Promise<number> {
+  const records = await store.list({ expiresBefore: now.toISOString() });
+
+  if (records.length === 0) {
+    return 0;
+  }
+
+  const deletedAt = now.toISOString();
+  await shredRecords(
+    store,
+    blobs,
+    records,
+    records.map((record) => toTombstone(record, EXPIRED_REASON, deletedAt))
+  );
+
+  for (const record of records) {
+    await onRecord?.(record);
+  }
+
+  return records.length;
+}
+
+const deleteBodySchema = {
+  // Untyped so that the body stays optional
+  properties: {
+    reason: { type: 'string', description: `Defaults to ${DEFAULT_REASON}` }
+  }
+} as const;
+
+export async function registerErasureRoutes(
+  fastify: FastifyInstance,
+  { store, blobs }: ErasureRoutesOptions
+) {
+  // DELETE /tx/:id
+  fastify.delete<{ Params: TxParams; Body: DeleteRequestBody | undefined }>(
+    '/tx/:id',
+    {
+      schema: {
+        tags: ['erasure'],
+        summary: 'Crypto-shred a record',
+        params: { $ref: 'TxParams#' },
+        body: deleteBodySchema,
+        response: {
+          200: { description: "The record's tombstone", $ref: 'Tombstone#' },
+          ...problemResponses
+        }
+      }
+    },
+    async (
+      request: FastifyRequest<{ Params: TxParams; Body: DeleteRequestBody | undefined }>,
+      reply: FastifyReply
+    ) => {
+      const { id } = request.params;
+
+      let reason: string;
+      try {
+        reason = parseReason(request.body?.reason);
+      } catch (error) {
+        return sendProblem(reply, 400, (error as Error).message);
+      }
+
+      const record = await store.get(id);
+
+      if (!record) {
+        return sendRecordMissing(store, request, reply, id, 'delete');
+      }
+
+      const access = { action: 'delete' as const, partyId: record.partyId, recordId: id };
+
+      if (!(await ensurePartyAccess(request, reply, access))) {
+        return reply;
+      }
+
+      const tombstone = toTombstone(record, reason, new Date().toISOString());
+      try {
+        await shredRecords(store, blobs, [record], [tombstone]);
+      } catch (error) {
+        request.log.error(error, 'Deletion failed');
+        await auditRequest(request, { ...access, outcome: 'failure' });
+        return sendProblem(reply, 500, 'Deletion failed');
+      }
+
+      await auditRequest(request, { ...access, outcome: 'success' });
+      return reply.send(tombstone);
+    }
+  );
+
+  // DELETE /parties/:partyId
+  fastify.delete<{ Params: PartyParams; Body: DeleteRequestBody | undefined }>(
+    '/parties/:partyId',
+    {
+      schema: {
+        tags: ['erasure'],
+        summary: 'Crypto-shred every record of a party',
+        params: { $ref: 'PartyParams#' },
+        body: deleteBodySchema,
+        response: {
+          200: {
+            description: 'How many records were shredded, and whether the party KEK was',
+            type: 'object',
+            required: ['partyId', 'deletedAt', 'deleted', 'keyShredded'],
+            properties: {
+              partyId: { type: 'string' },
+              deletedAt: { type: 'string', format: 'date-time' },
+              deleted: { type: 'integer' },
+              keyShredded: { type: 'boolean' }
+            }
+          },
+          ...problemResponses
+        }
+      }
+    },
+    async (
+      request: FastifyRequest<{ Params: PartyParams; Body: DeleteRequestBody | undefined }>,
+      reply: FastifyReply
+    ) => {
+      const { partyId } = request.params;
+
+      let reason: string;
+      try {
+        reason = parseReason(request.body?.reason);
+      } catch (error) {
+        return sendProblem(reply, 400, (error as Error).message);
+      }
+
+      if (!(await ensurePartyAccess(request, reply, { action: 'delete', partyId }))) {
+        return reply;
+      }
+
+      const deletedAt = new Date().toISOString();
+      const records = await store.list({ partyId });
+      const tombstones = records.map((record) => toTombstone(record, reason, deletedAt));
+      let keyShredded = false;
+
+      try {
+        await shredRecords(store, blobs, records, tombstones);
+
+        // Also covers copies of the records held outside this store
+        const partyKeys = loadKeyProviders().get(PARTY_PROVIDER_NAME) as
+          | PartyKeyProvider
+          | undefined;
+        keyShredded = partyKeys ? await partyKeys.shred(partyId) : false;
+      } catch (error) {
+        request.log.error(error, 'Party deletion failed');
+        await auditRequest(request, { action: 'delete', outcome: 'failure', partyId });
+        return sendProblem(reply, 500, 'Deletion failed');
+      }
+
+      for (const tombstone of tombstones) {
+        await auditRequest(request, {
+          action: 'delete',
+          outcome: 'success',
+          partyId,
+          recordId: tombstone.id
+        });
+      }
+      await auditRequest(request, { action: 'delete', outcome: 'success', partyId });
+
+      return reply.send({ partyId, deletedAt, deleted: tombstones.length, keyShredded });
+    }
+  );
+
+  // POST /tx/sweep
+  fastify.post(
+    '/tx/sweep',
+    {
+      schema: {
+        tags: ['erasure'],
+        summary: 'Crypto-shred every expired record',
+        response: {
+          200: {
+            description: 'How many records were shredded',
+            type: 'object',
+            required: ['purged'],
+            properties: { purged: { type: 'integer' } }
+          },
+          ...problemResponses
+        }
+      }
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!(await ensureAllPartiesAccess(request, reply, { action: 'delete' }))) {
+        return reply;
+      }
+
+      try {
+        const purged = await runExpirySweep(store, blobs, new Date(), (record) =>
+          auditRequest(request, {
+            action: 'delete',
+            outcome: 'success',
+            partyId: record.partyId,
+            recordId: record.id,
+            reason: EXPIRED_REASON
+          })
+        );
+
+        return reply.send({ purged });
+      } catch (error) {
+        request.log.error(error, 'Expiry sweep failed');
+        return sendProblem(reply, 500, 'Expiry sweep failed');
+      }
+    }
+  );
+}
+
+/**
+ * Replies 410 for a record past its `expiresAt` that the sweep has not
+ * shredded yet
+ *
+ * @returns true if the reply has been sent
+ */
+export function sendIfExpired(record: TxSecureRecord, reply: FastifyReply): boolean {
+  if (!isExpired(record)) {
+    return false;
+  }
+
+  sendProblem(reply, 410, 'Record has expired', {
+    code: 'record_expired',
+    expiresAt: record.expiresAt
+  });
+  return true;
+}
+
+/**
+ * Replies for a record id that isn't stored: 410 with its tombstone if it
+ * was deleted (and the caller may see that party's records), 404 otherwise
+ */
+export async function sendRecordMissing(
+  store: TxStore,
+  request: FastifyRequest,
+  reply: FastifyReply,
+  id: string,
+  action: AuditAction
+) {
+  const tombstone = await store.getTombstone(id);
+
+  if (!tombstone) {
+    return sendProblem(reply, 404, 'Record not found');
+  }
+
+  const access = { action, partyId: tombstone.partyId, recordId: id };
+
+  if (!(await ensurePartyAccess(request, reply, access))) {
+    return reply;
+  }
+
+  return sendProblem(reply, 410, 'Record has been deleted', {
+    code: 'record_deleted',
+    deletedAt: tombstone.deletedAt,
+    reason: tombstone.reason
+  });
+}
+
+/**
+ * Replaces records with tombstones and drops their streamed content
+ */
+async function shredRecords(
+  store: TxStore,
+  blobs: BlobStore,
+  records: TxSecureRecord[],
+  tombstones: Tombstone[]
+): Promise<void> {
+  await store.delete(tombstones);
+
+  for (const record of records) {
+    if (record.mode === 'stream') {
+      await blobs.delete(record.id);
+    }
+  }
+}
+
+function toTombstone(record: TxSecureRecord, reason: string, deletedAt: string): Tombstone {
+  return { id: record.id, partyId: record.partyId, deletedAt, reason };
+}
+
+/**
+ * @throws Error with a client-facing message if the reason is invalid
+ */
+function parseReason(reason: unknown): string {
+  if (reason === undefined) {
+    return DEFAULT_REASON;
+  }
+
+  if (typeof reason !== 'string' || reason.length === 0 || reason.length > MAX_REASON_LENGTH) {
+    throw new Error(`reason must be a string of 1 to ${MAX_REASON_LENGTH} characters`);
+  }
+
+  return reason;
+}
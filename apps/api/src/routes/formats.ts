@@ -0,0 +1,91 @@
+import { TxSecureRecord, serializeRecord, serializeRecordCompact } from '@mirfa/crypto';
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { sendProblem } from '../plugins/problem.js';
+
+/** Record as hex JSON (the default) */
+export const RECORD_JSON_TYPE = 'application/json';
+
+/** `{ id, envelope }` with the binary envelope as a base64url string */
+export const RECORD_ENVELOPE_JSON_TYPE = 'application/vnd.mirfa.envelope+json';
+
+/** The raw binary envelope */
+export const RECORD_ENVELOPE_BINARY_TYPE = 'application/octet-stream';
+
+/** Supported record representations, in order of preference */
+const RECORD_TYPES = [RECORD_JSON_TYPE, RECORD_ENVELOPE_JSON_TYPE, RECORD_ENVELOPE_BINARY_TYPE];
+
+/**
+ * Picks the record representation for a request from its `Accept` header
+ *
+ * @returns The media type to respond with, or undefined if none is acceptable
+ */
+export function negotiateRecordType(request: FastifyRequest): string | undefined {
+  const accept = request.headers.accept;
+
+  if (!accept) {
+    return RECORD_JSON_TYPE;
+  }
+
+  let best: { type: string; quality: number } | undefined;
+
+  for (const entry of accept.split(',')) {
+    const [range = '', ...params] = entry.split(';').map((part) => part.trim().toLowerCase());
+    const qParam = params.find((param) => param.startsWith('q='));
+    const quality = qParam ? Number(qParam.slice(2)) : 1;
+
+    if (!(quality > 0)) {
+      continue;
+    }
+
+    for (const type of RECORD_TYPES) {
+      if (!matchesRange(type, range)) {
+        continue;
+      }
+      if (
+        !best ||
+        quality > best.quality ||
+        (quality === best.quality && RECORD_TYPES.indexOf(type) < RECORD_TYPES.indexOf(best.type))
+      ) {
+        best = { type, quality };
+      }
+    }
+  }
+
+  return best?.type;
+}
+
+/**
+ * Sends a record in the negotiated representation
+ */
+export function sendRecord(
+  reply: FastifyReply,
+  record: TxSecureRecord,
+  type: string,
+  statusCode = 200
+) {
+  reply.code(statusCode).type(type);
+
+  switch (type) {
+    case RECORD_ENVELOPE_JSON_TYPE:
+      return reply.send({ id: record.id, envelope: serializeRecordCompact(record) });
+    case RECORD_ENVELOPE_BINARY_TYPE:
+      return reply.send(serializeRecord(record));
+    default:
+      return reply.send(record);
+  }
+}
+
+/**
+ * Replies 406 listing the representations a record is available in
+ */
+export function sendNotAcceptable(reply: FastifyReply) {
+  return sendProblem(reply, 406, `Record is available as ${RECORD_TYPES.join(', ')}`);
+}
+
+function matchesRange(type: string, range: string): boolean {
+  if (range === '*/*' || range === type) {
+    return true;
+  }
+
+  return range.endsWith('/*') && type.startsWith(range.slice(0, -1));
+}
@@ -0,0 +1,122 @@
+import { isDeepStrictEqual } from 'node:util';
+import { decryptPayload, encryptPayload } from '@mirfa/crypto';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { TxStore } from '../store/index.js';
+import { sendProblem } from '../plugins/problem.js';
+import { problemResponses } from './schemas.js';
+
+interface HealthRoutesOptions {
+  store: TxStore;
+}
+
+type CheckResult = 'ok' | 'failed';
+
+/**
+ * Party the readiness self-test encrypts for; with per-party keys, it gets
+ * a key of its own on the first check
+ */
+export const SELF_TEST_PARTY_ID = 'mirfa-self-test';
+
+const SELF_TEST_PAYLOAD = { probe: 'readyz' };
+
+const checksSchema = {
+  type: 'object',
+  required: ['crypto', 'store'],
+  properties: {
+    crypto: { type: 'string', enum: ['ok', 'failed'] },
+    store: { type: 'string', enum: ['ok', 'failed'] }
+  }
+} as const;
+
+/**
+ * Liveness and readiness probes for orchestrators; both are public
+ */
+export async function registerHealthRoutes(fastify: FastifyInstance, { store }: HealthRoutesOptions) {
+  // GET /healthz
+  fastify.get(
+    '/healthz',
+    {
+      config: { auth: false },
+      schema: {
+        tags: ['health'],
+        summary: 'Check that the process is up',
+        security: [],
+        response: {
+          200: {
+            description: 'The process is up',
+            type: 'object',
+            required: ['status'],
+            properties: { status: { type: 'string', enum: ['ok'] } }
+          }
+        }
+      }
+    },
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      return reply.send({ status: 'ok' });
+    }
+  );
+
+  // GET /readyz
+  fastify.get(
+    '/readyz',
+    {
+      config: { auth: false },
+      schema: {
+        tags: ['health'],
+        summary: 'Check that keys and storage are usable',
+        description:
+          'Encrypts and decrypts a probe payload with the configured key provider, and reads ' +
+          'from the record store. Failures answer 503 with the result of each check in `checks`.',
+        security: [],
+        response: {
+          200: {
+            description: 'Every check passed',
+            type: 'object',
+            required: ['status', 'checks'],
+            properties: { status: { type: 'string', enum: ['ready'] }, checks: checksSchema }
+          },
+          ...problemResponses
+        }
+      }
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const [crypto, storage] = await Promise.all([
+        runCheck(request, 'Crypto self-test', runCryptoSelfTest),
+        runCheck(request, 'Store check', () => store.list({ limit: 1 }))
+      ]);
+      const checks = { crypto, store: storage };
+
+      if (crypto !== 'ok' || storage !== 'ok') {
+        return sendProblem(reply, 503, 'Not ready', { code: 'not_ready', checks });
+      }
+
+      return reply.send({ status: 'ready', checks });
+    }
+  );
+}
+
+/**
+ * Encrypts a probe payload under the active key provider and decrypts it again
+ * @throws the crypto error, or Error if the round trip changed the payload
+ */
+async function runCryptoSelfTest(): Promise<void> {
+  const record = await encryptPayload(SELF_TEST_PARTY_ID, SELF_TEST_PAYLOAD);
+
+  if (!isDeepStrictEqual(await decryptPayload(record), SELF_TEST_PAYLOAD)) {
+    throw new Error('Decrypted probe does not match');
+  }
+}
+
+async function runCheck(
+  request: FastifyRequest,
+  name: string,
+  check: () => Promise<unknown>
+): Promise<CheckResult> {
+  try {
+    await check();
+    return 'ok';
+  } catch (error) {
+    request.log.error(error, `${name} failed`);
+    return 'failed';
+  }
+}
@@ -0,0 +1,104 @@
+import crypto from 'node:crypto';
+import { canonicalJson } from '@mirfa/crypto';
+import { FastifyRequest } from 'fastify';
+
+/** Request header carrying the client's idempotency key */
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+/** Response header set when a response is replayed for a retried request */
+export const IDEMPOTENT_REPLAYED_HEADER = 'idempotent-replayed';
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const MAX_KEY_LENGTH = 255;
+
+/** scrypt cost of passphrase fingerprints, lower than for wrapping keys */
+const PASSPHRASE_FINGERPRINT_COST = { N: 2 ** 14, r: 8, p: 1 };
+
+/** Serializes requests sharing a key so only one of them creates a record */
+const keyLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Reads how long idempotency keys are honoured from
+ * `IDEMPOTENCY_TTL_SECONDS` (default 24 hours)
+ *
+ * @throws Error if the setting is not a positive integer
+ */
+export function loadIdempotencyTtl(env: NodeJS.ProcessEnv = process.env): number {
+  const value = Number(env.IDEMPOTENCY_TTL_SECONDS ?? DEFAULT_TTL_SECONDS);
+
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error('IDEMPOTENCY_TTL_SECONDS must be a positive integer');
+  }
+
+  return value;
+}
+
+/**
+ * Reads the idempotency key of a request, scoped to the caller so that
+ * callers can't collide with or probe each other's keys
+ *
+ * @returns The scoped key, or undefined if the request has none
+ * @throws Error with a client-facing message if the key is malformed
+ */
+export function getIdempotencyKey(request: FastifyRequest): string | undefined {
+  const key = request.headers[IDEMPOTENCY_KEY_HEADER];
+
+  if (key === undefined) {
+    return undefined;
+  }
+
+  if (typeof key !== 'string' || !/^[\x21-\x7e]+$/.test(key) || key.length > MAX_KEY_LENGTH) {
+    throw new Error(
+      `Idempotency-Key must be 1 to ${MAX_KEY_LENGTH} printable ASCII characters without spaces`
+    );
+  }
+
+  return `${request.principal?.id ?? ''}:${key}`;
+}
+
+/**
+ * Fingerprints a request body so a reused key can be matched to its request
+ *
+ * Object keys are sorted first, so bodies differing only in key order match.
+ */
+export function hashRequestBody(body: unknown): string {
+  return crypto.createHash('sha256').update(canonicalJson(body)).digest('hex');
+}
+
+/**
+ * Fingerprints a request's passphrase for its request hash, so a retry with
+ * a different passphrase doesn't match
+ *
+ * An scrypt tag salted with the idempotency key, rather than a plain hash,
+ * so the stored request hash is slow to guess the passphrase against.
+ *
+ * @param key - Scoped idempotency key of the request
+ */
+export function fingerprintPassphrase(passphrase: string, key: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(
+      passphrase,
+      `mirfa-idempotency:${key}`,
+      32,
+      PASSPHRASE_FINGERPRINT_COST,
+      (error, derived) => (error ? reject(error) : resolve(derived.toString('hex')))
+    );
+  });
+}
+
+/**
+ * Runs `fn` once any earlier call for the same key has finished
+ */
+export function withIdempotencyLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const result = (keyLocks.get(key) ?? Promise.resolve()).then(fn);
+  const settled = result.catch(() => undefined);
+
+  keyLocks.set(key, settled);
+  void settled.then(() => {
+    if (keyLocks.get(key) === settled) {
+      keyLocks.delete(key);
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,240 @@
+import { TxSecureRecord } from '@mirfa/crypto';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { TxQuery, TxStore } from '../store/index.js';
+import { ALL_PARTIES, ensurePartyAccess } from '../plugins/auth.js';
+import { sendProblem } from '../plugins/problem.js';
+import { problemResponses } from './schemas.js';
+
+interface ListQuerystring {
+  partyId?: string;
+  createdFrom?: string;
+  createdTo?: string;
+  alg?: string;
+  mk_version?: string;
+  cursor?: string;
+  limit?: string;
+  include?: string;
+}
+
+interface PartyParams {
+  partyId: string;
+}
+
+interface ListRoutesOptions {
+  store: TxStore;
+}
+
+/**
+ * Record fields returned by listings unless ciphertext is requested
+ */
+export type TxRecordSummary = Pick<
+  TxSecureRecord,
+  | 'id'
+  | 'partyId'
+  | 'createdAt'
+  | 'expiresAt'
+  | 'alg'
+  | 'mk_version'
+  | 'record_version'
+  | 'kms_provider'
+  | 'kms_key_id'
+  | 'mode'
+>;
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+const listQuerySchema = {
+  type: 'object',
+  properties: {
+    partyId: { type: 'string' },
+    createdFrom: { type: 'string', description: 'ISO 8601 timestamp' },
+    createdTo: { type: 'string', description: 'ISO 8601 timestamp' },
+    alg: { type: 'string' },
+    mk_version: { type: 'string', description: 'Positive integer' },
+    cursor: { type: 'string', description: '`nextCursor` of the previous page' },
+    limit: { type: 'string', description: `1 to ${MAX_LIMIT}, default ${DEFAULT_LIMIT}` },
+    include: { type: 'string', description: "'ciphertext' to return whole records" }
+  }
+} as const;
+
+const listResponses = {
+  200: {
+    description: 'One page of records, in createdAt order',
+    type: 'object',
+    required: ['records', 'nextCursor'],
+    properties: {
+      records: {
+        type: 'array',
+        items: { anyOf: [{ $ref: 'TxSecureRecord#' }, { $ref: 'TxRecordSummary#' }] }
+      },
+      nextCursor: { type: ['string', 'null'] }
+    }
+  },
+  ...problemResponses
+} as const;
+
+export async function registerListRoutes(fastify: FastifyInstance, { store }: ListRoutesOptions) {
+  // GET /tx
+  fastify.get<{ Querystring: ListQuerystring }>(
+    '/tx',
+    {
+      schema: {
+        tags: ['records'],
+        summary: 'List records',
+        querystring: listQuerySchema,
+        response: listResponses
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: ListQuerystring }>, reply: FastifyReply) => {
+      let partyId = request.query.partyId;
+
+      // Callers bound to a single party don't have to repeat it
+      const parties = request.principal?.parties ?? [];
+      if (partyId === undefined && parties.length === 1 && parties[0] !== ALL_PARTIES) {
+        partyId = parties[0];
+      }
+
+      return listRecords(store, request, reply, partyId ?? ALL_PARTIES);
+    }
+  );
+
+  // GET /parties/:partyId/tx
+  fastify.get<{ Params: PartyParams; Querystring: ListQuerystring }>(
+    '/parties/:partyId/tx',
+    {
+      schema: {
+        tags: ['records'],
+        summary: "List a party's records",
+        params: { $ref: 'PartyParams#' },
+        querystring: listQuerySchema,
+        response: listResponses
+      }
+    },
+    async (
+      request: FastifyRequest<{ Params: PartyParams; Querystring: ListQuerystring }>,
+      reply: FastifyReply
+    ) => {
+      return listRecords(store, request, reply, request.params.partyId);
+    }
+  );
+}
+
+/**
+ * Lists one page of records visible for a party, or all parties for `*`
+ */
+async function listRecords(
+  store: TxStore,
+  request: FastifyRequest<{ Querystring: ListQuerystring }>,
+  reply: FastifyReply,
+  partyId: string
+) {
+  let query: TxQuery;
+  try {
+    query = parseListQuery(request.query);
+  } catch (error) {
+    return sendProblem(reply, 400, (error as Error).message);
+  }
+
+  if (!(await ensurePartyAccess(request, reply, { action: 'fetch', partyId }))) {
+    return reply;
+  }
+
+  if (partyId !== ALL_PARTIES) {
+    query.partyId = partyId;
+  }
+
+  const limit = query.limit!;
+  const records = await store.list({ ...query, limit: limit + 1 });
+  const page = records.slice(0, limit);
+  const last = page[page.length - 1];
+  const includeCiphertext = request.query.include === 'ciphertext';
+
+  return reply.send({
+    records: includeCiphertext ? page : page.map(toSummary),
+    nextCursor: records.length > limit && last ? encodeCursor(last) : null
+  });
+}
+
+/**
+ * Validates listing query parameters
+ * @throws Error with a client-facing message if a parameter is invalid
+ */
+function parseListQuery(params: ListQuerystring): TxQuery {
+  const query: TxQuery = {};
+
+  const limit = Number(params.limit ?? DEFAULT_LIMIT);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new Error(`limit must be an integer between 1 and ${MAX_LIMIT}`);
+  }
+  query.limit = limit;
+
+  for (const name of ['createdFrom', 'createdTo'] as const) {
+    const value = params[name];
+    if (value !== undefined) {
+      if (Number.isNaN(Date.parse(value))) {
+        throw new Error(`${name} must be an ISO 8601 timestamp`);
+      }
+      query[name] = new Date(value).toISOString();
+    }
+  }
+
+  if (params.alg !== undefined) {
+    query.alg = params.alg;
+  }
+
+  if (params.mk_version !== undefined) {
+    const mkVersion = Number(params.mk_version);
+    if (!Number.isInteger(mkVersion) || mkVersion < 1) {
+      throw new Error('mk_version must be a positive integer');
+    }
+    query.mkVersion = mkVersion;
+  }
+
+  if (params.cursor !== undefined) {
+    query.after = decodeCursor(params.cursor);
+  }
+
+  if (params.include !== undefined && params.include !== 'ciphertext') {
+    throw new Error("include must be 'ciphertext'");
+  }
+
+  return query;
+}
+
+function toSummary(record: TxSecureRecord): TxRecordSummary {
+  return {
+    id: record.id,
+    partyId: record.partyId,
+    createdAt: record.createdAt,
+    ...(record.expiresAt !== undefined && { expiresAt: record.expiresAt }),
+    alg: record.alg,
+    mk_version: record.mk_version,
+    ...(record.record_version !== undefined && { record_version: record.record_version }),
+    ...(record.kms_provider !== undefined && { kms_provider: record.kms_provider }),
+    ...(record.kms_key_id !== undefined && { kms_key_id: record.kms_key_id }),
+    ...(record.mode !== undefined && { mode: record.mode })
+  };
+}
+
+/**
+ * Encodes a page position as an opaque cursor
+ */
+function encodeCursor(record: Pick<TxSecureRecord, 'createdAt' | 'id'>): string {
+  return Buffer.from(JSON.stringify([record.createdAt, record.id]), 'utf8').toString('base64url');
+}
+
+/**
+ * @throws Error if the cursor was not produced by `encodeCursor`
+ */
+function decodeCursor(cursor: string): { createdAt: string; id: string } {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof createdAt === 'string' && typeof id === 'string') {
+      return { createdAt, id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid cursor');
+}
@@ -0,0 +1,293 @@
+import { FastifyInstance } from 'fastify';
+import { ECDH_PROVIDER_NAME, supportedAlgorithms } from '@mirfa/crypto';
+import { PROBLEM_JSON_TYPE } from '../plugins/problem.js';
+import {
+  RECORD_ENVELOPE_BINARY_TYPE,
+  RECORD_ENVELOPE_JSON_TYPE,
+  RECORD_JSON_TYPE
+} from './formats.js';
+
+/**
+ * JSON schemas shared between routes, referenced as `{ $ref: '<$id>#' }`
+ *
+ * They double as the components of the OpenAPI document. Response schemas
+ * also drive serialization, so fields missing from a schema are dropped from
+ * responses: keep them in step with the types they describe.
+ */
+
+const hex = { type: 'string', pattern: '^([0-9a-fA-F]{2})*$' } as const;
+
+const timestamp = { type: 'string', format: 'date-time' } as const;
+
+/** RFC 9457 problem details; see `sendProblem` */
+export const problemSchema = {
+  $id: 'Problem',
+  type: 'object',
+  required: ['type', 'title', 'status', 'detail', 'code'],
+  properties: {
+    type: { type: 'string' },
+    title: { type: 'string' },
+    status: { type: 'integer' },
+    detail: { type: 'string' },
+    code: { type: 'string', description: 'Stable machine-readable error code' }
+  },
+  additionalProperties: true
+} as const;
+
+export const txParamsSchema = {
+  $id: 'TxParams',
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string', minLength: 1 }
+  }
+} as const;
+
+export const partyParamsSchema = {
+  $id: 'PartyParams',
+  type: 'object',
+  required: ['partyId'],
+  properties: {
+    partyId: { type: 'string', minLength: 1 }
+  }
+} as const;
+
+export const encryptRequestSchema = {
+  $id: 'EncryptRequest',
+  type: 'object',
+  required: ['partyId', 'payload'],
+  properties: {
+    partyId: { type: 'string', minLength: 1 },
+    payload: { description: 'Any JSON value except null' },
+    fields: {
+      type: 'array',
+      minItems: 1,
+      items: { type: 'string' },
+      description: 'JSON paths to encrypt individually, leaving the rest in cleartext'
+    },
+    schema: {
+      type: 'object',
+      description: 'Schema marking fields to encrypt with "x-encrypt": true'
+    },
+    requireFields: {
+      type: 'boolean',
+      description: 'Refuse the request if any selected field is missing from the payload'
+    },
+    alg: { type: 'string', enum: supportedAlgorithms() },
+    ttlSeconds: { type: 'integer', minimum: 1 },
+    passphrase: {
+      type: 'string',
+      minLength: 1,
+      description: 'Wrap the DEK under a key derived from this passphrase instead of the master key'
+    },
+    doubleWrap: {
+      type: 'boolean',
+      description: 'With passphrase, wrap under both, so that both are needed to decrypt'
+    },
+    compression: {
+      type: 'string',
+      enum: ['gzip', 'br', 'none'],
+      description:
+        'Compress the payload before encrypting it (defaults to the server setting); ' +
+        'not allowed with fields or schema'
+    }
+  }
+} as const;
+
+export const encryptedFieldSchema = {
+  $id: 'EncryptedField',
+  type: 'object',
+  required: ['nonce', 'ct', 'tag'],
+  properties: {
+    nonce: hex,
+    ct: hex,
+    tag: hex
+  }
+} as const;
+
+/** `TxSecureRecord` from `@mirfa/crypto` */
+export const txSecureRecordSchema = {
+  $id: 'TxSecureRecord',
+  type: 'object',
+  required: [
+    'id',
+    'partyId',
+    'createdAt',
+    'payload_nonce',
+    'payload_ct',
+    'payload_tag',
+    'dek_wrap_nonce',
+    'dek_wrapped',
+    'dek_wrap_tag',
+    'alg',
+    'mk_version'
+  ],
+  properties: {
+    record_version: { type: 'integer' },
+    id: { type: 'string' },
+    partyId: { type: 'string' },
+    createdAt: timestamp,
+    expiresAt: timestamp,
+    payload_nonce: hex,
+    payload_ct: hex,
+    payload_tag: hex,
+    compression: { type: 'string', enum: ['gzip', 'br'] },
+    dek_wrap_nonce: hex,
+    dek_wrapped: hex,
+    dek_wrap_tag: hex,
+    mode: { type: 'string', enum: ['fields', 'stream'] },
+    payload_clear: {},
+    payload_fields: {
+      type: 'object',
+      additionalProperties: { $ref: 'EncryptedField#' }
+    },
+    alg: { type: 'string' },
+    mk_version: { type: 'integer' },
+    kms_provider: { type: 'string' },
+    kms_key_id: { type: 'string' },
+    kdf: {
+      type: 'object',
+      required: ['alg', 'salt', 'N', 'r', 'p'],
+      description: 'scrypt parameters of a passphrase-wrapped DEK',
+      properties: {
+        alg: { type: 'string', enum: ['scrypt'] },
+        salt: hex,
+        N: { type: 'integer' },
+        r: { type: 'integer' },
+        p: { type: 'integer' }
+      }
+    }
+  }
+} as const;
+
+/** `TxRecordSummary`: a record without its key material and ciphertext */
+export const txRecordSummarySchema = {
+  $id: 'TxRecordSummary',
+  type: 'object',
+  required: ['id', 'partyId', 'createdAt', 'alg', 'mk_version'],
+  properties: {
+    id: { type: 'string' },
+    partyId: { type: 'string' },
+    createdAt: timestamp,
+    expiresAt: timestamp,
+    alg: { type: 'string' },
+    mk_version: { type: 'integer' },
+    record_version: { type: 'integer' },
+    kms_provider: { type: 'string' },
+    kms_key_id: { type: 'string' },
+    mode: { type: 'string', enum: ['fields', 'stream'] }
+  }
+} as const;
+
+/** A record as `application/vnd.mirfa.envelope+json` */
+export const recordEnvelopeSchema = {
+  $id: 'RecordEnvelope',
+  type: 'object',
+  required: ['id', 'envelope'],
+  properties: {
+    id: { type: 'string' },
+    envelope: { type: 'string', description: 'Binary envelope, base64url encoded' }
+  }
+} as const;
+
+export const tombstoneSchema = {
+  $id: 'Tombstone',
+  type: 'object',
+  required: ['id', 'partyId', 'deletedAt', 'reason'],
+  properties: {
+    id: { type: 'string' },
+    partyId: { type: 'string' },
+    deletedAt: timestamp,
+    reason: { type: 'string' }
+  }
+} as const;
+
+/** `RecipientKey` from `@mirfa/crypto`: a public key clients wrap DEKs to */
+export const recipientKeySchema = {
+  $id: 'RecipientKey',
+  type: 'object',
+  required: ['provider', 'keyId', 'version', 'publicKey'],
+  properties: {
+    provider: { type: 'string', enum: [ECDH_PROVIDER_NAME] },
+    keyId: { type: 'string' },
+    version: { type: 'integer' },
+    publicKey: {
+      type: 'object',
+      description: 'P-256 public key as a JSON Web Key',
+      required: ['kty', 'crv', 'x', 'y'],
+      properties: {
+        kty: { type: 'string', enum: ['EC'] },
+        crv: { type: 'string', enum: ['P-256'] },
+        x: { type: 'string' },
+        y: { type: 'string' }
+      }
+    }
+  }
+} as const;
+
+export const auditEntrySchema = {
+  $id: 'AuditEntry',
+  type: 'object',
+  required: ['seq', 'timestamp', 'action', 'outcome', 'prevHash', 'hash', 'signature'],
+  properties: {
+    seq: { type: 'integer' },
+    timestamp,
+    action: { type: 'string' },
+    outcome: { type: 'string', enum: ['success', 'failure', 'denied'] },
+    actor: { type: 'string' },
+    partyId: { type: 'string' },
+    recordId: { type: 'string' },
+    requestId: { type: 'string' },
+    reason: { type: 'string' },
+    prevHash: hex,
+    hash: hex,
+    signature: hex
+  }
+} as const;
+
+/** Error responses every route may give */
+export const problemResponses = {
+  '4xx': {
+    description: 'Client error',
+    content: { [PROBLEM_JSON_TYPE]: { schema: { $ref: 'Problem#' } } }
+  },
+  '5xx': {
+    description: 'Server error',
+    content: { [PROBLEM_JSON_TYPE]: { schema: { $ref: 'Problem#' } } }
+  }
+} as const;
+
+/** A record in each representation `sendRecord` supports */
+export function recordResponse(description: string) {
+  return {
+    description,
+    content: {
+      [RECORD_JSON_TYPE]: { schema: { $ref: 'TxSecureRecord#' } },
+      [RECORD_ENVELOPE_JSON_TYPE]: { schema: { $ref: 'RecordEnvelope#' } },
+      [RECORD_ENVELOPE_BINARY_TYPE]: { schema: { type: 'string', format: 'binary' } }
+    }
+  } as const;
+}
+
+const SHARED_SCHEMAS = [
+  problemSchema,
+  txParamsSchema,
+  partyParamsSchema,
+  encryptRequestSchema,
+  encryptedFieldSchema,
+  txSecureRecordSchema,
+  txRecordSummarySchema,
+  recordEnvelopeSchema,
+  tombstoneSchema,
+  recipientKeySchema,
+  auditEntrySchema
+];
+
+/**
+ * Makes the shared schemas available to routes registered afterwards
+ */
+export function registerSharedSchemas(fastify: FastifyInstance) {
+  for (const schema of SHARED_SCHEMAS) {
+    fastify.addSchema(schema);
+  }
+}
@@ -0,0 +1,246 @@
+import {
+  CURRENT_RECORD_VERSION,
+  ECDH_PROVIDER_NAME,
+  EcdhKeyProvider,
+  InvalidRecordError,
+  KeyUnavailableError,
+  TxSecureRecord,
+  errorCodeOf,
+  loadKeyProviders,
+  validateRecord
+} from '@mirfa/crypto';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { TxStore } from '../store/index.js';
+import { ensurePartyAccess } from '../plugins/auth.js';
+import { sendCryptoError, sendProblem } from '../plugins/problem.js';
+import { auditRequest } from '../audit/index.js';
+import { RetentionOptions, checkRetention } from '../plugins/retention.js';
+import { negotiateRecordType, sendNotAcceptable, sendRecord } from './formats.js';
+import { IDEMPOTENT_REPLAYED_HEADER, hashRequestBody, withIdempotencyLock } from './idempotency.js';
+import { problemResponses, recordResponse } from './schemas.js';
+
+interface SealedRoutesOptions {
+  store: TxStore;
+
+  /** Default TTLs, which sealed records must honour with their own expiry */
+  retention?: RetentionOptions;
+}
+
+/** How far a sealed record's `createdAt` may be from the server clock, either way */
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Routes for end-to-end encrypted records
+ *
+ * Clients fetch the recipient key, encrypt the payload and wrap its DEK
+ * themselves (see `@mirfa/crypto/browser`), and submit the finished record.
+ * The API checks its structure and metadata and stores it as-is; it never
+ * sees the plaintext, and only the `ecdh` provider's private key can later
+ * unwrap the DEK.
+ */
+export async function registerSealedRoutes(
+  fastify: FastifyInstance,
+  { store, retention = {} }: SealedRoutesOptions
+) {
+  // GET /tx/recipient-key
+  fastify.get(
+    '/tx/recipient-key',
+    {
+      schema: {
+        tags: ['records'],
+        summary: 'Get the public key to wrap DEKs of client-encrypted records to',
+        response: {
+          200: { description: 'The active recipient key', $ref: 'RecipientKey#' },
+          ...problemResponses
+        }
+      }
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        return reply.send(await getRecipientProvider().recipientKey());
+      } catch (error) {
+        request.log.error(error, 'Recipient key unavailable');
+        return sendCryptoError(reply, error, 'Recipient key unavailable');
+      }
+    }
+  );
+
+  // POST /tx/sealed
+  fastify.post<{ Body: TxSecureRecord }>(
+    '/tx/sealed',
+    {
+      config: { operation: 'encrypt' },
+      schema: {
+        tags: ['records'],
+        summary: 'Store a record encrypted by the client',
+        description:
+          'The record must be wrapped to the key from `GET /tx/recipient-key`. ' +
+          'Resubmitting an identical record returns the stored one.',
+        body: { $ref: 'TxSecureRecord#' },
+        response: {
+          200: recordResponse('The identical record stored earlier'),
+          201: recordResponse('The stored record'),
+          ...problemResponses
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Body: TxSecureRecord }>, reply: FastifyReply) => {
+      const responseType = negotiateRecordType(request);
+
+      if (!responseType) {
+        return sendNotAcceptable(reply);
+      }
+
+      let record: TxSecureRecord;
+      try {
+        record = parseSealedRecord(request.body, retention);
+      } catch (error) {
+        return sendProblem(reply, 400, (error as Error).message);
+      }
+
+      const { id, partyId } = record;
+      const access = { action: 'encrypt' as const, partyId, recordId: id };
+
+      if (!(await ensurePartyAccess(request, reply, access))) {
+        return reply;
+      }
+
+      try {
+        validateRecord(record);
+        await checkRecipient(record);
+      } catch (error) {
+        await auditRequest(request, { ...access, outcome: 'failure', reason: errorCodeOf(error) });
+        return sendCryptoError(reply, error, 'Record could not be checked');
+      }
+
+      return withIdempotencyLock(`sealed:${id}`, async () => {
+        const existing = await store.get(id);
+
+        if (existing && hashRequestBody(existing) === hashRequestBody(record)) {
+          // A retry: the record is already stored
+          await auditRequest(request, { ...access, outcome: 'success', reason: 'idempotent_replay' });
+          reply.header(IDEMPOTENT_REPLAYED_HEADER, 'true');
+          return sendRecord(reply, existing, responseType, 200);
+        }
+
+        if (existing || (await store.getTombstone(id))) {
+          return sendProblem(reply, 409, 'A record with this id already exists', {
+            code: 'record_exists'
+          });
+        }
+
+        try {
+          await store.put(record);
+        } catch (error) {
+          request.log.error(error, 'Storing sealed record failed');
+          await auditRequest(request, { ...access, outcome: 'failure', reason: errorCodeOf(error) });
+          return sendProblem(reply, 500, 'Storing the record failed');
+        }
+
+        await auditRequest(request, { ...access, outcome: 'success', reason: 'client_sealed' });
+        return sendRecord(reply, record, responseType, 201);
+      });
+    }
+  );
+}
+
+/**
+ * @throws KeyUnavailableError if no `ecdh` provider is configured
+ */
+function getRecipientProvider(): EcdhKeyProvider {
+  const provider = loadKeyProviders().get(ECDH_PROVIDER_NAME) as EcdhKeyProvider | undefined;
+
+  if (!provider) {
+    throw new KeyUnavailableError(
+      'Client-side encryption is not available: ECDH_KEYSTORE_PATH is not set'
+    );
+  }
+
+  return provider;
+}
+
+/**
+ * Checks that a sealed record's DEK is wrapped to this server's recipient key
+ * @throws KeyUnavailableError if no `ecdh` provider is configured
+ * @throws InvalidRecordError if the record names another key
+ */
+async function checkRecipient(record: TxSecureRecord): Promise<void> {
+  const { keyId, version } = await getRecipientProvider().activeKey();
+
+  if (record.kms_key_id !== keyId) {
+    throw new InvalidRecordError('kms_key_id', `DEK must be wrapped to recipient key '${keyId}'`);
+  }
+
+  if (record.mk_version > version) {
+    throw new InvalidRecordError('mk_version', `Unknown recipient key version: ${record.mk_version}`);
+  }
+}
+
+/**
+ * Copies the record fields out of a request and applies the server's
+ * policy: whole-payload records in the current format, wrapped by the
+ * `ecdh` provider, created now and expiring as the party's retention requires
+ *
+ * @throws Error with a client-facing message if the record is not acceptable
+ */
+export function parseSealedRecord(
+  body: TxSecureRecord,
+  retention: RetentionOptions,
+  now: Date = new Date()
+): TxSecureRecord {
+  // Only whole-payload record fields are kept; anything else is dropped
+  const record: TxSecureRecord = {
+    record_version: body.record_version,
+    id: body.id,
+    partyId: body.partyId,
+    createdAt: body.createdAt,
+    ...(body.expiresAt !== undefined && { expiresAt: body.expiresAt }),
+    payload_nonce: body.payload_nonce,
+    payload_ct: body.payload_ct,
+    payload_tag: body.payload_tag,
+    dek_wrap_nonce: body.dek_wrap_nonce,
+    dek_wrapped: body.dek_wrapped,
+    dek_wrap_tag: body.dek_wrap_tag,
+    mk_version: body.mk_version,
+    kms_provider: body.kms_provider,
+    kms_key_id: body.kms_key_id,
+    alg: body.alg
+  };
+
+  if (!UUID_PATTERN.test(record.id)) {
+    throw new Error('id must be a UUID');
+  }
+
+  if (record.record_version !== CURRENT_RECORD_VERSION) {
+    throw new Error(`record_version must be ${CURRENT_RECORD_VERSION}`);
+  }
+
+  if (body.mode !== undefined || body.payload_clear !== undefined || body.payload_fields !== undefined) {
+    throw new Error('Sealed records must encrypt the whole payload');
+  }
+
+  if (record.kms_provider !== ECDH_PROVIDER_NAME || record.kms_key_id === undefined) {
+    throw new Error(`kms_provider must be '${ECDH_PROVIDER_NAME}', with kms_key_id set`);
+  }
+
+  const createdAt = Date.parse(record.createdAt);
+
+  // Nor backdated, or it would pass for a record stored earlier in listings and exports
+  if (Number.isNaN(createdAt) || Math.abs(createdAt - now.getTime()) > MAX_CLOCK_SKEW_MS) {
+    throw new Error('createdAt must be within 5 minutes of the current time');
+  }
+
+  if (record.expiresAt !== undefined && !(Date.parse(record.expiresAt) > now.getTime())) {
+    throw new Error('expiresAt must be a timestamp in the future');
+  }
+
+  // The client's clock may run ahead by as much as createdAt may
+  const violation = checkRetention(retention, record, now, MAX_CLOCK_SKEW_MS);
+  if (violation) {
+    throw new Error(violation);
+  }
+
+  return record;
+}
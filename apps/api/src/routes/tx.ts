@@ -1,81 +1,628 @@
-import { encryptPayload, decryptPayload, TxSecureRecord } from '@mirfa/crypto';
+import {
+  encryptPayload,
+  decryptPayload,
+  rewrapRecord,
+  needsRewrap,
+  loadKeyProviders,
+  getActiveKeyProvider,
+  PARTY_PROVIDER_NAME,
+  PartyKeyProvider,
+  isSupportedAlgorithm,
+  supportedAlgorithms,
+  normalizePath,
+  pathsFromSchema,
+  FieldSchema,
+  FieldSelection,
+  EncryptManyItem,
+  EncryptOptions,
+  TxSecureRecord,
+  errorCodeOf
+} from '@mirfa/crypto';
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { IdempotencyEntry, TxStore } from '../store/index.js';
+import { PartyAccess, ensureAllPartiesAccess, ensurePartyAccess } from '../plugins/auth.js';
+import { ensureDecryptAllowed, recordDecryptFailure } from '../plugins/rate-limit.js';
+import { sendCryptoError, sendProblem } from '../plugins/problem.js';
+import { AuditAction, auditRequest } from '../audit/index.js';
+import { negotiateRecordType, sendNotAcceptable, sendRecord } from './formats.js';
+import { RetentionOptions, isValidTtl, resolveExpiresAt } from '../plugins/retention.js';
+import { sendIfExpired, sendRecordMissing } from './erasure.js';
+import {
+  IDEMPOTENT_REPLAYED_HEADER,
+  fingerprintPassphrase,
+  getIdempotencyKey,
+  hashRequestBody,
+  loadIdempotencyTtl,
+  withIdempotencyLock
+} from './idempotency.js';
+import { problemResponses, recordResponse } from './schemas.js';
+import { CompressionConfig, resolveCompression } from './compression.js';
 
-// In-memory storage
-const storage = new Map<string, TxSecureRecord>();
-
-interface EncryptRequestBody {
+export interface EncryptRequestBody {
   partyId: string;
   payload: unknown;
+
+  /** JSON paths to encrypt individually, leaving the rest in cleartext */
+  fields?: string[];
+
+  /** Schema marking fields to encrypt with `"x-encrypt": true` */
+  schema?: FieldSchema;
+
+  /** Refuse the request if any selected field is missing from the payload */
+  requireFields?: boolean;
+
+  /** Payload encryption algorithm (defaults to AES-256-GCM) */
+  alg?: string;
+
+  /** Seconds until the record expires (defaults to the party's retention TTL) */
+  ttlSeconds?: number;
+
+  /** Wrap the DEK under a key derived from this passphrase instead of the master key */
+  passphrase?: string;
+
+  /** With `passphrase`, wrap under both, so that both are needed to decrypt */
+  doubleWrap?: boolean;
+
+  /** Compress the payload before encrypting it (defaults to `PAYLOAD_COMPRESSION`) */
+  compression?: 'gzip' | 'br' | 'none';
+}
+
+/**
+ * A validated encrypt request
+ */
+export type EncryptRequest = EncryptManyItem & Pick<EncryptOptions, 'passphrase'>;
+
+interface DecryptRequestBody {
+  /** For field-level records, decrypt only these paths */
+  paths?: string[];
+
+  /** The record's passphrase, if its DEK is wrapped under one */
+  passphrase?: string;
 }
 
 interface TxParams {
   id: string;
 }
 
-export async function registerTxRoutes(fastify: FastifyInstance) {
+interface TxRoutesOptions {
+  store: TxStore;
+
+  /** Default TTLs for new records */
+  retention?: RetentionOptions;
+
+  /** Payload compression and decompression limit */
+  compression?: CompressionConfig;
+
+  /** How long `Idempotency-Key`s are honoured, in seconds (defaults to `IDEMPOTENCY_TTL_SECONDS`) */
+  idempotencyTtlSeconds?: number;
+}
+
+interface RewrapJobResult {
+  scanned: number;
+  rewrapped: number;
+  failed: string[];
+
+  /** Per-party KEKs moved onto the active master key */
+  partyKeysRewrapped: number;
+}
+
+/**
+ * Rewraps every stored record whose DEK is not under the active master key
+ *
+ * Records that fail to rewrap are left untouched and reported by id so the
+ * job can be re-run once the missing key is restored. Per-party KEKs, if
+ * configured, are rewrapped first.
+ *
+ * @param store - Record store to scan
+ * @param onRecord - Called after each rewrap attempt, e.g. for auditing
+ */
+export async function runRewrapJob(
+  store: TxStore,
+  onRecord?: (record: TxSecureRecord, succeeded: boolean) => Promise<void>
+): Promise<RewrapJobResult> {
+  const providers = loadKeyProviders();
+  const target = getActiveKeyProvider(providers);
+  const partyKeys = providers.get(PARTY_PROVIDER_NAME) as PartyKeyProvider | undefined;
+  const result: RewrapJobResult = {
+    scanned: 0,
+    rewrapped: 0,
+    failed: [],
+    partyKeysRewrapped: partyKeys ? await partyKeys.rewrapKeys() : 0
+  };
+
+  for await (const record of store.scan()) {
+    result.scanned++;
+
+    if (!(await needsRewrap(record, target))) {
+      continue;
+    }
+
+    try {
+      await store.put(await rewrapRecord(record, providers, target));
+      result.rewrapped++;
+      await onRecord?.(record, true);
+    } catch {
+      result.failed.push(record.id);
+      await onRecord?.(record, false);
+    }
+  }
+
+  return result;
+}
+
+export async function registerTxRoutes(
+  fastify: FastifyInstance,
+  {
+    store,
+    retention = {},
+    compression = {},
+    idempotencyTtlSeconds = loadIdempotencyTtl()
+  }: TxRoutesOptions
+) {
   // POST /tx/encrypt
   fastify.post<{ Body: EncryptRequestBody }>(
     '/tx/encrypt',
+    {
+      config: { operation: 'encrypt' },
+      schema: {
+        tags: ['records'],
+        summary: 'Encrypt and store a payload',
+        headers: {
+          type: 'object',
+          properties: {
+            'idempotency-key': {
+              type: 'string',
+              description: 'Makes retries return the record the first request created'
+            }
+          }
+        },
+        body: { $ref: 'EncryptRequest#' },
+        response: { 201: recordResponse('The new record'), ...problemResponses }
+      }
+    },
     async (request: FastifyRequest<{ Body: EncryptRequestBody }>, reply: FastifyReply) => {
-      const { partyId, payload } = request.body;
+      const responseType = negotiateRecordType(request);
+
+      if (!responseType) {
+        return sendNotAcceptable(reply);
+      }
 
       // Validate input
-      if (!partyId || typeof partyId !== 'string') {
-        return reply.code(400).send({ error: 'partyId must be a string' });
+      let item: EncryptRequest;
+      let idempotencyKey: string | undefined;
+      try {
+        item = parseEncryptRequest(request.body, retention, compression);
+        idempotencyKey = getIdempotencyKey(request);
+      } catch (error) {
+        return sendProblem(reply, 400, (error as Error).message);
       }
 
-      if (payload === undefined || payload === null) {
-        return reply.code(400).send({ error: 'payload is required' });
+      const { partyId } = item;
+
+      if (!(await ensurePartyAccess(request, reply, { action: 'encrypt', partyId }))) {
+        return reply;
       }
 
-      try {
-        const record = encryptPayload(partyId, payload);
-        storage.set(record.id, record);
+      const create = async (idempotency?: Omit<IdempotencyEntry, 'recordId'>) => {
+        let record: TxSecureRecord;
+        try {
+          record = await encryptPayload(partyId, item.payload, {
+            alg: item.alg,
+            fields: item.fields,
+            requireFields: item.requireFields,
+            expiresAt: item.expiresAt,
+            passphrase: item.passphrase,
+            compression: item.compression
+          });
+          await store.put(record, idempotency && { ...idempotency, recordId: record.id });
+        } catch (error) {
+          request.log.error(error, 'Encryption failed');
+          await auditRequest(request, {
+            action: 'encrypt',
+            outcome: 'failure',
+            partyId,
+            reason: errorCodeOf(error)
+          });
+          return sendCryptoError(reply, error, 'Encryption failed');
+        }
 
-        return reply.code(201).send(record);
-      } catch (error) {
-        request.log.error(error, 'Encryption failed');
-        return reply.code(500).send({ error: 'Encryption failed' });
+        await auditRequest(request, {
+          action: 'encrypt',
+          outcome: 'success',
+          partyId,
+          recordId: record.id
+        });
+        return sendRecord(reply, record, responseType, 201);
+      };
+
+      if (!idempotencyKey) {
+        return create();
       }
+
+      const key = idempotencyKey;
+      // Replace the passphrase with a slow fingerprint, so that no plain hash of it is stored
+      const passphrase = item.passphrase?.passphrase;
+      const requestHash = hashRequestBody({
+        ...request.body,
+        passphrase: passphrase === undefined ? undefined : await fingerprintPassphrase(passphrase, key)
+      });
+
+      return withIdempotencyLock(key, async () => {
+        const now = new Date();
+        const existing = await store.getIdempotencyEntry(key);
+
+        if (!existing || existing.expiresAt <= now.toISOString()) {
+          return create({
+            key,
+            requestHash,
+            statusCode: 201,
+            expiresAt: new Date(now.getTime() + idempotencyTtlSeconds * 1000).toISOString()
+          });
+        }
+
+        if (existing.requestHash !== requestHash) {
+          return sendProblem(
+            reply,
+            422,
+            'Idempotency-Key has already been used for a different request',
+            { code: 'idempotency_key_reused' }
+          );
+        }
+
+        // A retry: answer with the record the original request created
+        const record = await store.get(existing.recordId);
+
+        if (!record) {
+          return sendRecordMissing(store, request, reply, existing.recordId, 'encrypt');
+        }
+
+        await auditRequest(request, {
+          ...accessFor('encrypt', record),
+          outcome: 'success',
+          reason: 'idempotent_replay'
+        });
+        reply.header(IDEMPOTENT_REPLAYED_HEADER, 'true');
+        return sendRecord(reply, record, responseType, existing.statusCode);
+      });
     }
   );
 
   // GET /tx/:id
   fastify.get<{ Params: TxParams }>(
     '/tx/:id',
+    {
+      schema: {
+        tags: ['records'],
+        summary: 'Retrieve an encrypted record',
+        params: { $ref: 'TxParams#' },
+        response: { 200: recordResponse('The record'), ...problemResponses }
+      }
+    },
     async (request: FastifyRequest<{ Params: TxParams }>, reply: FastifyReply) => {
       const { id } = request.params;
+      const responseType = negotiateRecordType(request);
+
+      if (!responseType) {
+        return sendNotAcceptable(reply);
+      }
 
-      const record = storage.get(id);
+      const record = await store.get(id);
 
       if (!record) {
-        return reply.code(404).send({ error: 'Record not found' });
+        return sendRecordMissing(store, request, reply, id, 'fetch');
+      }
+
+      if (!(await ensurePartyAccess(request, reply, accessFor('fetch', record)))) {
+        return reply;
+      }
+
+      if (sendIfExpired(record, reply)) {
+        return reply;
       }
 
-      return reply.send(record);
+      await auditRequest(request, { ...accessFor('fetch', record), outcome: 'success' });
+      return sendRecord(reply, record, responseType);
     }
   );
 
   // POST /tx/:id/decrypt
-  fastify.post<{ Params: TxParams }>(
+  fastify.post<{ Params: TxParams; Body: DecryptRequestBody | undefined }>(
     '/tx/:id/decrypt',
-    async (request: FastifyRequest<{ Params: TxParams }>, reply: FastifyReply) => {
+    {
+      config: { operation: 'decrypt' },
+      schema: {
+        tags: ['records'],
+        summary: 'Decrypt a record',
+        params: { $ref: 'TxParams#' },
+        // Untyped so that the body stays optional
+        body: {
+          properties: {
+            paths: {
+              type: 'array',
+              minItems: 1,
+              items: { type: 'string' },
+              description: 'For field-level records, decrypt only these paths'
+            },
+            passphrase: {
+              type: 'string',
+              minLength: 1,
+              description: "The record's passphrase, if its DEK is wrapped under one"
+            }
+          }
+        },
+        response: {
+          200: {
+            description: 'The decrypted payload',
+            type: 'object',
+            required: ['payload'],
+            properties: { payload: {} }
+          },
+          ...problemResponses
+        }
+      }
+    },
+    async (
+      request: FastifyRequest<{ Params: TxParams; Body: DecryptRequestBody | undefined }>,
+      reply: FastifyReply
+    ) => {
       const { id } = request.params;
+      const paths = request.body?.paths;
+      const passphrase = request.body?.passphrase;
 
-      const record = storage.get(id);
+      if (paths !== undefined) {
+        try {
+          parsePaths(paths, 'paths');
+        } catch (error) {
+          return sendProblem(reply, 400, (error as Error).message);
+        }
+      }
+
+      const record = await store.get(id);
 
       if (!record) {
-        return reply.code(404).send({ error: 'Record not found' });
+        return sendRecordMissing(store, request, reply, id, 'decrypt');
+      }
+
+      if (!(await ensurePartyAccess(request, reply, accessFor('decrypt', record)))) {
+        return reply;
       }
 
+      if (sendIfExpired(record, reply)) {
+        return reply;
+      }
+
+      if (!(await ensureDecryptAllowed(request, reply, record))) {
+        return reply;
+      }
+
+      let decryptedPayload: unknown;
       try {
-        const decryptedPayload = decryptPayload(record);
-        return reply.send({ payload: decryptedPayload });
+        decryptedPayload = await decryptPayload(record, {
+          paths,
+          passphrase,
+          maxInflatedBytes: compression.maxInflatedBytes
+        });
       } catch (error) {
         request.log.error(error, 'Decryption failed');
-        return reply.code(400).send({ error: 'Decryption failed' });
+        await auditRequest(request, {
+          ...accessFor('decrypt', record),
+          outcome: 'failure',
+          reason: errorCodeOf(error)
+        });
+        await recordDecryptFailure(request, record, errorCodeOf(error));
+        return sendCryptoError(reply, error, 'Decryption failed');
+      }
+
+      await auditRequest(request, { ...accessFor('decrypt', record), outcome: 'success' });
+      return reply.send({ payload: decryptedPayload });
+    }
+  );
+
+  // POST /tx/rewrap
+  fastify.post(
+    '/tx/rewrap',
+    {
+      schema: {
+        tags: ['records'],
+        summary: 'Rewrap every record still under a retired master key',
+        response: {
+          200: {
+            description: 'Counts, and the ids of records left under their old key',
+            type: 'object',
+            required: ['scanned', 'rewrapped', 'failed', 'partyKeysRewrapped'],
+            properties: {
+              scanned: { type: 'integer' },
+              rewrapped: { type: 'integer' },
+              failed: { type: 'array', items: { type: 'string' } },
+              partyKeysRewrapped: { type: 'integer' }
+            }
+          },
+          ...problemResponses
+        }
+      }
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!(await ensureAllPartiesAccess(request, reply, { action: 'rewrap' }))) {
+        return reply;
+      }
+
+      try {
+        const result = await runRewrapJob(store, (record, succeeded) =>
+          auditRequest(request, {
+            ...accessFor('rewrap', record),
+            outcome: succeeded ? 'success' : 'failure'
+          })
+        );
+
+        if (result.failed.length > 0) {
+          request.log.warn({ failed: result.failed }, 'Some records could not be rewrapped');
+        }
+
+        return reply.send(result);
+      } catch (error) {
+        request.log.error(error, 'Rewrap job failed');
+        return sendProblem(reply, 500, 'Rewrap job failed');
       }
     }
   );
+
+  // POST /tx/:id/rewrap
+  fastify.post<{ Params: TxParams }>(
+    '/tx/:id/rewrap',
+    {
+      schema: {
+        tags: ['records'],
+        summary: "Rewrap a record's DEK under the active master key",
+        params: { $ref: 'TxParams#' },
+        response: {
+          200: { description: 'The rewrapped record', $ref: 'TxSecureRecord#' },
+          ...problemResponses
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: TxParams }>, reply: FastifyReply) => {
+      const { id } = request.params;
+
+      const record = await store.get(id);
+
+      if (!record) {
+        return sendRecordMissing(store, request, reply, id, 'rewrap');
+      }
+
+      if (!(await ensurePartyAccess(request, reply, accessFor('rewrap', record)))) {
+        return reply;
+      }
+
+      let rewrapped: TxSecureRecord;
+      try {
+        rewrapped = await rewrapRecord(record);
+        await store.put(rewrapped);
+      } catch (error) {
+        request.log.error(error, 'Rewrap failed');
+        await auditRequest(request, {
+          ...accessFor('rewrap', record),
+          outcome: 'failure',
+          reason: errorCodeOf(error)
+        });
+        return sendCryptoError(reply, error, 'Rewrap failed');
+      }
+
+      await auditRequest(request, { ...accessFor('rewrap', record), outcome: 'success' });
+      return reply.send(rewrapped);
+    }
+  );
+}
+
+/**
+ * Describes an operation on a record for access checks and auditing
+ */
+function accessFor(action: AuditAction, record: TxSecureRecord): PartyAccess {
+  return { action, partyId: record.partyId, recordId: record.id };
+}
+
+/**
+ * Validates an encrypt request and works out the record's expiry
+ * @throws Error with a client-facing message if the request is invalid
+ */
+export function parseEncryptRequest(
+  body: EncryptRequestBody | undefined,
+  retention: RetentionOptions,
+  compression: CompressionConfig = {}
+): EncryptRequest {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new Error('Expected a JSON object');
+  }
+
+  const { partyId, payload, fields, schema, requireFields, alg, ttlSeconds, passphrase, doubleWrap } =
+    body;
+
+  if (!partyId || typeof partyId !== 'string') {
+    throw new Error('partyId must be a string');
+  }
+
+  if (payload === undefined || payload === null) {
+    throw new Error('payload is required');
+  }
+
+  if (alg !== undefined && !isSupportedAlgorithm(alg)) {
+    throw new Error(`alg must be one of: ${supportedAlgorithms().join(', ')}`);
+  }
+
+  if (ttlSeconds !== undefined && !isValidTtl(ttlSeconds)) {
+    throw new Error('ttlSeconds must be a positive integer');
+  }
+
+  if (passphrase !== undefined && (typeof passphrase !== 'string' || passphrase.length === 0)) {
+    throw new Error('passphrase must be a non-empty string');
+  }
+
+  if (doubleWrap !== undefined && (typeof doubleWrap !== 'boolean' || passphrase === undefined)) {
+    throw new Error('doubleWrap must be a boolean, given with passphrase');
+  }
+
+  const selection = parseFieldSelection(fields, schema);
+  const requested = body.compression;
+
+  // Field-level records are never compressed, so the configured codec doesn't apply to them
+  if (selection !== undefined && requested !== undefined && requested !== 'none') {
+    throw new Error('compression cannot be combined with fields or schema');
+  }
+
+  return {
+    partyId,
+    payload,
+    alg,
+    fields: selection,
+    ...(requireFields && { requireFields }),
+    expiresAt: resolveExpiresAt(retention, partyId, ttlSeconds),
+    compression: selection === undefined ? resolveCompression(compression, requested) : undefined,
+    ...(passphrase !== undefined && { passphrase: { passphrase, doubleWrap } })
+  };
+}
+
+/**
+ * Validates the field selection of an encrypt request
+ * @throws Error with a client-facing message if the selection is invalid
+ */
+function parseFieldSelection(
+  fields: unknown,
+  schema: unknown
+): FieldSelection | undefined {
+  if (fields !== undefined && schema !== undefined) {
+    throw new Error('Specify either fields or schema, not both');
+  }
+
+  if (fields !== undefined) {
+    parsePaths(fields, 'fields');
+    return fields as string[];
+  }
+
+  if (schema !== undefined) {
+    if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+      throw new Error('schema must be an object');
+    }
+    if (pathsFromSchema(schema as FieldSchema).length === 0) {
+      throw new Error('schema must mark at least one field with "x-encrypt": true');
+    }
+    return schema as FieldSchema;
+  }
+
+  return undefined;
+}
+
+/**
+ * Validates a list of JSON paths
+ * @throws Error with a client-facing message if any path is invalid
+ */
+export function parsePaths(paths: unknown, name: string): void {
+  if (!Array.isArray(paths) || paths.length === 0) {
+    throw new Error(`${name} must be a non-empty array of JSON paths`);
+  }
+
+  for (const path of paths) {
+    if (typeof path !== 'string') {
+      throw new Error(`${name} must be a non-empty array of JSON paths`);
+    }
+    normalizePath(path);
+  }
 }
@@ -0,0 +1,291 @@
+import { Readable, Transform, pipeline } from 'node:stream';
+import multipart from '@fastify/multipart';
+import {
+  beginStreamEncryption,
+  openStreamDecryption,
+  isSupportedAlgorithm,
+  supportedAlgorithms,
+  TxSecureRecord,
+  errorCodeOf
+} from '@mirfa/crypto';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { BlobStore, TxStore } from '../store/index.js';
+import { ensurePartyAccess } from '../plugins/auth.js';
+import { ensureDecryptAllowed, recordDecryptFailure } from '../plugins/rate-limit.js';
+import { sendCryptoError, sendProblem } from '../plugins/problem.js';
+import { auditRequest } from '../audit/index.js';
+import { RetentionOptions, resolveExpiresAt } from '../plugins/retention.js';
+import { sendIfExpired, sendRecordMissing } from './erasure.js';
+import { problemResponses } from './schemas.js';
+
+interface UploadQuerystring {
+  partyId?: string;
+  filename?: string;
+  alg?: string;
+}
+
+interface TxParams {
+  id: string;
+}
+
+interface UploadRoutesOptions {
+  store: TxStore;
+  blobs: BlobStore;
+
+  /** Maximum upload size in bytes (defaults to `UPLOAD_MAX_BYTES`, else 100 MiB) */
+  maxBytes?: number;
+
+  /** Default TTLs for new records */
+  retention?: RetentionOptions;
+}
+
+const DEFAULT_MAX_BYTES = 100 * 1024 * 1024;
+
+class UploadTooLargeError extends Error {}
+
+/**
+ * Routes for content too large for the JSON API
+ *
+ * Uploads are encrypted on the fly in the chunked stream format and written
+ * to the blob store; neither the plaintext nor the ciphertext is buffered in
+ * memory as a whole.
+ */
+export async function registerUploadRoutes(
+  fastify: FastifyInstance,
+  { store, blobs, maxBytes = loadMaxBytes(), retention = {} }: UploadRoutesOptions
+) {
+  // Body parsers are scoped to this plugin so the JSON routes keep their limits
+  await fastify.register(async (instance) => {
+    await instance.register(multipart, { limits: { fileSize: maxBytes, files: 1 } });
+
+    instance.addContentTypeParser('application/octet-stream', (_request, payload, done) => {
+      done(null, payload);
+    });
+
+    // POST /tx/upload
+    instance.post<{ Querystring: UploadQuerystring }>(
+      '/tx/upload',
+      {
+        config: { operation: 'encrypt' },
+        schema: {
+          tags: ['uploads'],
+          summary: 'Stream-encrypt an uploaded file',
+          description:
+            'Send the file as multipart/form-data (field `file`) or as an ' +
+            'application/octet-stream body.',
+          querystring: {
+            type: 'object',
+            properties: {
+              partyId: { type: 'string', description: 'Required unless sent as a form field' },
+              filename: { type: 'string' },
+              alg: { type: 'string', enum: supportedAlgorithms() }
+            }
+          },
+          response: {
+            201: { description: 'The new record', $ref: 'TxSecureRecord#' },
+            ...problemResponses
+          }
+        }
+      },
+      async (request: FastifyRequest<{ Querystring: UploadQuerystring }>, reply: FastifyReply) => {
+        let upload: { partyId?: string; filename?: string; contentType: string; content: Readable };
+
+        if (request.isMultipart()) {
+          const file = await request.file();
+
+          if (!file) {
+            return sendProblem(reply, 400, 'file is required');
+          }
+
+          const partyField = file.fields.partyId;
+          upload = {
+            partyId:
+              request.query.partyId ??
+              (partyField && 'value' in partyField ? String(partyField.value) : undefined),
+            filename: file.filename || request.query.filename,
+            contentType: file.mimetype,
+            content: file.file
+          };
+        } else if (request.body instanceof Readable) {
+          upload = {
+            partyId: request.query.partyId,
+            filename: request.query.filename,
+            contentType: 'application/octet-stream',
+            content: request.body
+          };
+        } else {
+          return sendProblem(reply, 415, 'Expected multipart/form-data or application/octet-stream');
+        }
+
+        const { partyId } = upload;
+
+        if (!partyId || typeof partyId !== 'string') {
+          return sendProblem(reply, 400, 'partyId must be a string');
+        }
+
+        const { alg } = request.query;
+
+        if (alg !== undefined && !isSupportedAlgorithm(alg)) {
+          upload.content.resume();
+          return sendProblem(reply, 400, `alg must be one of: ${supportedAlgorithms().join(', ')}`);
+        }
+
+        if (!(await ensurePartyAccess(request, reply, { action: 'encrypt', partyId }))) {
+          upload.content.resume();
+          return reply;
+        }
+
+        let record: TxSecureRecord;
+        try {
+          const encryption = beginStreamEncryption(partyId, {
+            alg,
+            expiresAt: resolveExpiresAt(retention, partyId)
+          });
+          let size = 0;
+
+          const limiter = new Transform({
+            transform(chunk: Buffer, _encoding, callback) {
+              size += chunk.length;
+              callback(size > maxBytes ? new UploadTooLargeError() : null, chunk);
+            }
+          });
+
+          // Errors anywhere in the chain destroy the encrypted stream and
+          // reject the blob write below
+          const encrypted = pipeline(upload.content, limiter, encryption.stream, () => {});
+
+          await blobs.write(encryption.id, encrypted);
+
+          if ('truncated' in upload.content && upload.content.truncated) {
+            throw new UploadTooLargeError();
+          }
+
+          record = await encryption.finish({
+            size,
+            contentType: upload.contentType,
+            ...(upload.filename && { filename: upload.filename })
+          });
+          await store.put(record);
+        } catch (error) {
+          if (error instanceof UploadTooLargeError) {
+            return sendProblem(reply, 413, `Upload exceeds ${maxBytes} bytes`);
+          }
+
+          request.log.error(error, 'Upload encryption failed');
+          await auditRequest(request, {
+            action: 'encrypt',
+            outcome: 'failure',
+            partyId,
+            reason: errorCodeOf(error)
+          });
+          return sendCryptoError(reply, error, 'Encryption failed');
+        }
+
+        await auditRequest(request, {
+          action: 'encrypt',
+          outcome: 'success',
+          partyId,
+          recordId: record.id
+        });
+        return reply.code(201).send(record);
+      }
+    );
+  });
+
+  // GET /tx/:id/content
+  fastify.get<{ Params: TxParams }>(
+    '/tx/:id/content',
+    {
+      config: { operation: 'decrypt' },
+      schema: {
+        tags: ['uploads'],
+        summary: 'Stream the decrypted content of an upload',
+        params: { $ref: 'TxParams#' },
+        response: {
+          200: {
+            description: 'The content, with the Content-Type it was uploaded with',
+            type: 'string',
+            format: 'binary'
+          },
+          ...problemResponses
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: TxParams }>, reply: FastifyReply) => {
+      const { id } = request.params;
+
+      const record = await store.get(id);
+
+      if (!record) {
+        return sendRecordMissing(store, request, reply, id, 'decrypt');
+      }
+
+      const access = { action: 'decrypt' as const, partyId: record.partyId, recordId: id };
+
+      if (!(await ensurePartyAccess(request, reply, access))) {
+        return reply;
+      }
+
+      if (sendIfExpired(record, reply)) {
+        return reply;
+      }
+
+      if (record.mode !== 'stream') {
+        return sendProblem(reply, 400, 'Record has no streamed content');
+      }
+
+      if (!(await ensureDecryptAllowed(request, reply, record))) {
+        return reply;
+      }
+
+      const content = await blobs.read(id);
+
+      if (!content) {
+        return sendProblem(reply, 404, 'Content not found');
+      }
+
+      let opened: Awaited<ReturnType<typeof openStreamDecryption>>;
+      try {
+        opened = await openStreamDecryption(record);
+      } catch (error) {
+        content.destroy();
+        request.log.error(error, 'Decryption failed');
+        await auditRequest(request, { ...access, outcome: 'failure', reason: errorCodeOf(error) });
+        await recordDecryptFailure(request, record, errorCodeOf(error));
+        return sendCryptoError(reply, error, 'Decryption failed');
+      }
+
+      await auditRequest(request, { ...access, outcome: 'success' });
+
+      // Segments are authenticated before they are emitted; a tampered or
+      // truncated blob aborts the response part-way through
+      const plaintext = pipeline(content, opened.stream, (error) => {
+        if (error) {
+          request.log.error(error, 'Streamed decryption failed');
+          recordDecryptFailure(request, record, errorCodeOf(error)).catch((failure) =>
+            request.log.error(failure, 'Counting the decryption failure failed')
+          );
+        }
+      });
+
+      reply.type(opened.manifest.contentType ?? 'application/octet-stream');
+      if (opened.manifest.filename) {
+        reply.header(
+          'content-disposition',
+          `attachment; filename*=UTF-8''${encodeURIComponent(opened.manifest.filename)}`
+        );
+      }
+      return reply.send(plaintext);
+    }
+  );
+}
+
+function loadMaxBytes(env: NodeJS.ProcessEnv = process.env): number {
+  const value = Number(env.UPLOAD_MAX_BYTES ?? DEFAULT_MAX_BYTES);
+
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error('UPLOAD_MAX_BYTES must be a positive integer');
+  }
+
+  return value;
+}
@@ -0,0 +1,22 @@
+import 'dotenv/config';
+import { loadKeyring, startLocalKms } from '@mirfa/crypto';
+
+/**
+ * Runs a local KMS stand-in for development
+ *
+ * Serves the env keyring under `KMS_KEY_ID` (default `local`) so the API can
+ * be pointed at it with `KMS_PROVIDER=http` and `KMS_URL`.
+ */
+const keyId = process.env.KMS_KEY_ID ?? 'local';
+const port = Number(process.env.KMS_LOCAL_PORT ?? 8200);
+
+const server = await startLocalKms(
+  { [keyId]: loadKeyring() },
+  { port, token: process.env.KMS_TOKEN }
+);
+
+console.log(`Local KMS serving key '${keyId}' on http://127.0.0.1:${port}`);
+
+const shutdown = () => server.close(() => process.exit(0));
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
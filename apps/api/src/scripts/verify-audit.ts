@@ -0,0 +1,24 @@
+import 'dotenv/config';
+import { loadAuditConfig, streamEntries, verifyChain } from '../audit/index.js';
+
+/**
+ * Verifies the hash chain and signatures of the audit log file
+ *
+ * Reads `AUDIT_LOG_PATH` and `AUDIT_HMAC_KEY` like the API does, and exits
+ * non-zero if the chain is broken.
+ */
+const config = loadAuditConfig();
+
+if (!config.path) {
+  console.error('AUDIT_LOG_PATH is not set; nothing to verify');
+  process.exit(2);
+}
+
+const result = await verifyChain(streamEntries(config.path), config.key);
+
+if (result.valid) {
+  console.log(`Audit log OK: ${result.entries} entries verified`);
+} else {
+  console.error(`Audit log BROKEN at entry ${result.brokenAt}: ${result.reason}`);
+  process.exit(1);
+}
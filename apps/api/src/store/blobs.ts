@@ -0,0 +1,119 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { Readable, Writable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+
+/**
+ * Storage for encrypted stream content, keyed by record id
+ *
+ * Blobs only ever hold ciphertext in the chunked stream format.
+ */
+export interface BlobStore {
+  /**
+   * Streams content into a blob
+   * @returns Number of bytes written
+   */
+  write(id: string, content: Readable): Promise<number>;
+
+  /** Opens a blob for reading, or returns undefined if it doesn't exist */
+  read(id: string): Promise<Readable | undefined>;
+
+  /** Removes a blob if it exists */
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Creates a blob store that keeps content in process memory
+ */
+export function createMemoryBlobStore(): BlobStore {
+  const blobs = new Map<string, Buffer>();
+
+  return {
+    async write(id, content) {
+      const chunks: Buffer[] = [];
+      for await (const chunk of content) {
+        chunks.push(chunk as Buffer);
+      }
+      const blob = Buffer.concat(chunks);
+      blobs.set(id, blob);
+      return blob.length;
+    },
+
+    async read(id) {
+      const blob = blobs.get(id);
+      return blob ? Readable.from([blob]) : undefined;
+    },
+
+    async delete(id) {
+      blobs.delete(id);
+    }
+  };
+}
+
+/**
+ * Creates a blob store that writes one file per blob under a directory
+ *
+ * Content is written to a temporary file and renamed into place, so a
+ * failed upload never leaves a partial blob behind.
+ */
+export function createFileBlobStore(directory: string): BlobStore {
+  const blobPath = (id: string) => path.join(directory, `${assertSafeId(id)}.bin`);
+
+  return {
+    async write(id, content) {
+      await fs.promises.mkdir(directory, { recursive: true });
+
+      const target = blobPath(id);
+      const temporary = `${target}.partial`;
+      let bytes = 0;
+
+      try {
+        await pipeline(
+          content,
+          async function* (source: AsyncIterable<Buffer>) {
+            for await (const chunk of source) {
+              bytes += chunk.length;
+              yield chunk;
+            }
+          },
+          fs.createWriteStream(temporary) as Writable
+        );
+        await fs.promises.rename(temporary, target);
+      } catch (error) {
+        await fs.promises.rm(temporary, { force: true });
+        throw error;
+      }
+
+      return bytes;
+    },
+
+    async read(id) {
+      const file = blobPath(id);
+      try {
+        await fs.promises.access(file);
+      } catch {
+        return undefined;
+      }
+      return fs.createReadStream(file);
+    },
+
+    async delete(id) {
+      await fs.promises.rm(blobPath(id), { force: true });
+    }
+  };
+}
+
+/**
+ * Reads the blob store configuration from `BLOB_STORE_DIR`
+ * Content is kept in memory when it is not set.
+ */
+export function loadBlobStore(env: NodeJS.ProcessEnv = process.env): BlobStore {
+  return env.BLOB_STORE_DIR ? createFileBlobStore(env.BLOB_STORE_DIR) : createMemoryBlobStore();
+}
+
+function assertSafeId(id: string): string {
+  if (!/^[A-Za-z0-9-]+$/.test(id)) {
+    throw new Error(`Invalid blob id '${id}'`);
+  }
+  return id;
+}
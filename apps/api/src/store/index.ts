@@ -0,0 +1,60 @@
+import { createJsonlStore } from './jsonl.js';
+import { createMemoryStore } from './memory.js';
+import { createSqliteStore } from './sqlite.js';
+import { TxStore } from './types.js';
+
+export type { IdempotencyEntry, Tombstone, TxQuery, TxStore } from './types.js';
+export { createMemoryStore } from './memory.js';
+export { createJsonlStore } from './jsonl.js';
+export { createSqliteStore } from './sqlite.js';
+export {
+  type BlobStore,
+  createMemoryBlobStore,
+  createFileBlobStore,
+  loadBlobStore
+} from './blobs.js';
+
+/**
+ * Store backend selection
+ */
+export type StoreConfig =
+  | { type: 'memory' }
+  | { type: 'sqlite'; path: string }
+  | { type: 'jsonl'; path: string };
+
+/**
+ * Reads the store configuration from `TX_STORE` and `TX_STORE_PATH`
+ *
+ * Defaults to the in-memory store. File-backed stores default to a path
+ * under `./data`.
+ *
+ * @throws Error if `TX_STORE` names an unknown backend
+ */
+export function loadStoreConfig(env: NodeJS.ProcessEnv = process.env): StoreConfig {
+  const type = env.TX_STORE ?? 'memory';
+
+  switch (type) {
+    case 'memory':
+      return { type };
+    case 'sqlite':
+      return { type, path: env.TX_STORE_PATH ?? 'data/tx.sqlite' };
+    case 'jsonl':
+      return { type, path: env.TX_STORE_PATH ?? 'data/tx.jsonl' };
+    default:
+      throw new Error(`Unknown TX_STORE '${type}': expected memory, sqlite or jsonl`);
+  }
+}
+
+/**
+ * Opens the store described by a configuration
+ */
+export async function createStore(config: StoreConfig): Promise<TxStore> {
+  switch (config.type) {
+    case 'memory':
+      return createMemoryStore();
+    case 'sqlite':
+      return createSqliteStore(config.path);
+    case 'jsonl':
+      return createJsonlStore(config.path);
+  }
+}
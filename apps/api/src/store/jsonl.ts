@@ -0,0 +1,163 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { TxSecureRecord } from '@mirfa/crypto';
+import { RecordIndex, assertNotDeleted, purgeExpiredEntries } from './memory.js';
+import { IdempotencyEntry, Tombstone, TxStore } from './types.js';
+
+/**
+ * One line of the append-only log
+ */
+type LogEntry =
+  | { op: 'put'; record: TxSecureRecord; idempotency?: IdempotencyEntry }
+  | { op: 'delete'; tombstone: Tombstone }
+  | { op: 'idempotency'; entry: IdempotencyEntry };
+
+/**
+ * Creates a store backed by an append-only JSON-lines file
+ *
+ * Every write appends one line; the file is replayed into an in-memory index
+ * on startup, with later lines for the same id superseding earlier ones.
+ * Deleting records rewrites the log without them, since earlier lines would
+ * otherwise still hold their wrapped DEKs. Idempotency keys are written on
+ * the same line as their record and dropped when the log is rewritten after
+ * they expire.
+ *
+ * @param filePath - Log file, created if missing
+ * @throws Error if an existing log contains a malformed line
+ */
+export async function createJsonlStore(filePath: string): Promise<TxStore> {
+  const index = new RecordIndex();
+  const tombstones = new Map<string, Tombstone>();
+  const idempotency = new Map<string, IdempotencyEntry>();
+
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+  let contents = '';
+  try {
+    contents = await fs.promises.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+
+  contents.split('\n').forEach((line, lineNumber) => {
+    if (line.trim() === '') {
+      return;
+    }
+
+    let entry: LogEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      throw new Error(`Malformed entry in '${filePath}' at line ${lineNumber + 1}`);
+    }
+
+    if (entry.op === 'put') {
+      index.set(entry.record);
+      if (entry.idempotency) {
+        idempotency.set(entry.idempotency.key, entry.idempotency);
+      }
+    } else if (entry.op === 'delete') {
+      index.delete(entry.tombstone.id);
+      tombstones.set(entry.tombstone.id, entry.tombstone);
+    } else if (entry.op === 'idempotency') {
+      idempotency.set(entry.entry.key, entry.entry);
+    }
+  });
+
+  let handle = await fs.promises.open(filePath, 'a');
+
+  // Serialize appends so the log order matches the order of writes. A failed
+  // write rejects only its own caller; the next one still runs.
+  let pending: Promise<void> = Promise.resolve();
+
+  const enqueue = (write: () => Promise<void>): Promise<void> => {
+    const result = pending.then(write);
+    pending = result.catch(() => undefined);
+    return result;
+  };
+
+  const append = (entry: LogEntry): Promise<void> =>
+    enqueue(async () => {
+      await handle.appendFile(`${JSON.stringify(entry)}\n`, 'utf8');
+    });
+
+  // Replace the log with one line per live record, tombstone and idempotency key
+  const compact = (): Promise<void> =>
+    enqueue(async () => {
+      const entries: LogEntry[] = [
+        ...[...index.values()].map((record) => ({ op: 'put' as const, record })),
+        ...[...tombstones.values()].map((tombstone) => ({ op: 'delete' as const, tombstone })),
+        ...[...idempotency.values()].map((entry) => ({ op: 'idempotency' as const, entry }))
+      ];
+      const tempPath = `${filePath}.compact`;
+
+      await fs.promises.writeFile(
+        tempPath,
+        entries.map((entry) => `${JSON.stringify(entry)}\n`).join(''),
+        'utf8'
+      );
+      try {
+        await handle.close();
+        await fs.promises.rename(tempPath, filePath);
+      } finally {
+        // Reopen even if the swap failed, so later appends still have a handle
+        handle = await fs.promises.open(filePath, 'a');
+      }
+    });
+
+  return {
+    async get(id) {
+      return index.get(id);
+    },
+
+    async put(record, entry) {
+      assertNotDeleted(tombstones, record.id);
+      await append({ op: 'put', record, ...(entry && { idempotency: entry }) });
+      index.set(record);
+      if (entry) {
+        idempotency.set(entry.key, entry);
+      }
+    },
+
+    async delete(deleted) {
+      for (const tombstone of deleted) {
+        index.delete(tombstone.id);
+        if (!tombstones.has(tombstone.id)) {
+          tombstones.set(tombstone.id, tombstone);
+        }
+      }
+      await compact();
+    },
+
+    async getTombstone(id) {
+      return tombstones.get(id);
+    },
+
+    async getIdempotencyEntry(key) {
+      return idempotency.get(key);
+    },
+
+    async purgeIdempotencyEntries(before) {
+      const purged = purgeExpiredEntries(idempotency, before);
+      if (purged > 0) {
+        await compact();
+      }
+      return purged;
+    },
+
+    async list(query) {
+      return index.query(query);
+    },
+
+    async *scan() {
+      yield* [...index.values()];
+    },
+
+    async close() {
+      await pending;
+      await handle.close();
+    }
+  };
+}
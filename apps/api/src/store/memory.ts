@@ -0,0 +1,223 @@
+import { TxSecureRecord } from '@mirfa/crypto';
+import { IdempotencyEntry, Tombstone, TxQuery, TxStore } from './types.js';
+
+/**
+ * In-memory record index shared by the memory and JSON-lines stores
+ *
+ * Keeps a per-party id index and a list of ids sorted by `createdAt` so that
+ * queries don't have to scan every record.
+ */
+export class RecordIndex {
+  private readonly records = new Map<string, TxSecureRecord>();
+  private readonly byParty = new Map<string, Set<string>>();
+  private readonly byCreatedAt: string[] = [];
+
+  get(id: string): TxSecureRecord | undefined {
+    return this.records.get(id);
+  }
+
+  set(record: TxSecureRecord): void {
+    const existing = this.records.get(record.id);
+
+    if (existing) {
+      this.unindex(existing);
+    }
+
+    this.records.set(record.id, record);
+
+    let partyIds = this.byParty.get(record.partyId);
+    if (!partyIds) {
+      partyIds = new Set();
+      this.byParty.set(record.partyId, partyIds);
+    }
+    partyIds.add(record.id);
+
+    this.byCreatedAt.splice(this.insertionPoint(record), 0, record.id);
+  }
+
+  delete(id: string): void {
+    const existing = this.records.get(id);
+
+    if (existing) {
+      this.unindex(existing);
+      this.records.delete(id);
+    }
+  }
+
+  query(query: TxQuery = {}): TxSecureRecord[] {
+    const { partyId, createdFrom, createdTo, alg, mkVersion, expiresBefore, after, limit } = query;
+    const results: TxSecureRecord[] = [];
+    const partyIds = partyId === undefined ? undefined : this.byParty.get(partyId);
+
+    if (partyId !== undefined && !partyIds) {
+      return results;
+    }
+
+    for (const id of this.byCreatedAt) {
+      if (limit !== undefined && results.length >= limit) {
+        break;
+      }
+
+      if (partyIds && !partyIds.has(id)) {
+        continue;
+      }
+
+      const record = this.records.get(id)!;
+
+      if (createdFrom !== undefined && record.createdAt < createdFrom) {
+        continue;
+      }
+
+      if (createdTo !== undefined && record.createdAt >= createdTo) {
+        break;
+      }
+
+      if (after !== undefined && compareRecords(record, after) <= 0) {
+        continue;
+      }
+
+      if (alg !== undefined && record.alg !== alg) {
+        continue;
+      }
+
+      if (mkVersion !== undefined && record.mk_version !== mkVersion) {
+        continue;
+      }
+
+      if (
+        expiresBefore !== undefined &&
+        (record.expiresAt === undefined || record.expiresAt > expiresBefore)
+      ) {
+        continue;
+      }
+
+      results.push(record);
+    }
+
+    return results;
+  }
+
+  values(): IterableIterator<TxSecureRecord> {
+    return this.records.values();
+  }
+
+  private unindex(record: TxSecureRecord): void {
+    this.byParty.get(record.partyId)?.delete(record.id);
+
+    const position = this.byCreatedAt.indexOf(record.id);
+    if (position !== -1) {
+      this.byCreatedAt.splice(position, 1);
+    }
+  }
+
+  /** Binary search for the sorted position of a record */
+  private insertionPoint(record: TxSecureRecord): number {
+    let low = 0;
+    let high = this.byCreatedAt.length;
+
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      const other = this.records.get(this.byCreatedAt[mid]!)!;
+
+      if (compareRecords(other, record) < 0) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    return low;
+  }
+}
+
+/**
+ * Creates a store that keeps records in process memory
+ * Records are lost on restart.
+ */
+export function createMemoryStore(): TxStore {
+  const index = new RecordIndex();
+  const tombstones = new Map<string, Tombstone>();
+  const idempotency = new Map<string, IdempotencyEntry>();
+
+  return {
+    async get(id) {
+      return index.get(id);
+    },
+
+    async put(record, entry) {
+      assertNotDeleted(tombstones, record.id);
+      index.set(record);
+      if (entry) {
+        idempotency.set(entry.key, entry);
+      }
+    },
+
+    async delete(deleted) {
+      for (const tombstone of deleted) {
+        index.delete(tombstone.id);
+        if (!tombstones.has(tombstone.id)) {
+          tombstones.set(tombstone.id, tombstone);
+        }
+      }
+    },
+
+    async getTombstone(id) {
+      return tombstones.get(id);
+    },
+
+    async getIdempotencyEntry(key) {
+      return idempotency.get(key);
+    },
+
+    async purgeIdempotencyEntries(before) {
+      return purgeExpiredEntries(idempotency, before);
+    },
+
+    async list(query) {
+      return index.query(query);
+    },
+
+    async *scan() {
+      yield* [...index.values()];
+    },
+
+    async close() {}
+  };
+}
+
+/**
+ * Guards against resurrecting a shredded record, e.g. by a concurrent rewrap
+ * @throws Error if the id has a tombstone
+ */
+export function assertNotDeleted(tombstones: ReadonlyMap<string, Tombstone>, id: string): void {
+  if (tombstones.has(id)) {
+    throw new Error(`Record ${id} has been deleted`);
+  }
+}
+
+/**
+ * Removes idempotency entries that expired at or before `before`
+ * @returns Number of entries removed
+ */
+export function purgeExpiredEntries(entries: Map<string, IdempotencyEntry>, before: string): number {
+  let purged = 0;
+
+  for (const [key, entry] of entries) {
+    if (entry.expiresAt <= before) {
+      entries.delete(key);
+      purged++;
+    }
+  }
+
+  return purged;
+}
+
+function compareRecords(
+  a: Pick<TxSecureRecord, 'createdAt' | 'id'>,
+  b: Pick<TxSecureRecord, 'createdAt' | 'id'>
+): number {
+  if (a.createdAt !== b.createdAt) {
+    return a.createdAt < b.createdAt ? -1 : 1;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
@@ -0,0 +1,232 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import { TxSecureRecord } from '@mirfa/crypto';
+import { IdempotencyEntry, Tombstone, TxStore } from './types.js';
+
+/** Rows fetched per page when scanning */
+const SCAN_PAGE_SIZE = 500;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS tx_records (
+    id         TEXT PRIMARY KEY,
+    party_id   TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    record     TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS tx_records_party_id ON tx_records (party_id, created_at, id);
+  CREATE INDEX IF NOT EXISTS tx_records_created_at ON tx_records (created_at, id);
+  CREATE TABLE IF NOT EXISTS tx_tombstones (
+    id         TEXT PRIMARY KEY,
+    party_id   TEXT NOT NULL,
+    deleted_at TEXT NOT NULL,
+    reason     TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS tx_idempotency (
+    key          TEXT PRIMARY KEY,
+    request_hash TEXT NOT NULL,
+    record_id    TEXT NOT NULL,
+    status_code  INTEGER NOT NULL,
+    expires_at   TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS tx_idempotency_expires_at ON tx_idempotency (expires_at);
+`;
+
+/**
+ * Creates a store backed by a SQLite database
+ *
+ * Records are kept as JSON alongside indexed `party_id` and `created_at`
+ * columns. Use `:memory:` for a throwaway database. Deleted rows are
+ * overwritten on disk (`secure_delete`) and the WAL is checkpointed after
+ * each delete so shredded DEKs don't survive in free pages or the log.
+ *
+ * @param filePath - Database file, created if missing
+ */
+export function createSqliteStore(filePath: string): TxStore {
+  if (filePath !== ':memory:') {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  const db = new Database(filePath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('secure_delete = ON');
+  db.exec(SCHEMA);
+
+  const getStmt = db.prepare<[string], { record: string }>(
+    'SELECT record FROM tx_records WHERE id = ?'
+  );
+  const putStmt = db.prepare(
+    `INSERT INTO tx_records (id, party_id, created_at, record)
+     VALUES (@id, @partyId, @createdAt, @record)
+     ON CONFLICT (id) DO UPDATE SET
+       party_id = excluded.party_id,
+       created_at = excluded.created_at,
+       record = excluded.record`
+  );
+  const deleteStmt = db.prepare('DELETE FROM tx_records WHERE id = ?');
+  const tombstoneStmt = db.prepare(
+    `INSERT INTO tx_tombstones (id, party_id, deleted_at, reason)
+     VALUES (@id, @partyId, @deletedAt, @reason)
+     ON CONFLICT (id) DO NOTHING`
+  );
+  const getTombstoneStmt = db.prepare<
+    [string],
+    { id: string; partyId: string; deletedAt: string; reason: string }
+  >(
+    `SELECT id, party_id AS partyId, deleted_at AS deletedAt, reason
+     FROM tx_tombstones WHERE id = ?`
+  );
+  const idempotencyStmt = db.prepare(
+    `INSERT INTO tx_idempotency (key, request_hash, record_id, status_code, expires_at)
+     VALUES (@key, @requestHash, @recordId, @statusCode, @expiresAt)
+     ON CONFLICT (key) DO UPDATE SET
+       request_hash = excluded.request_hash,
+       record_id = excluded.record_id,
+       status_code = excluded.status_code,
+       expires_at = excluded.expires_at`
+  );
+  const getIdempotencyStmt = db.prepare<[string], IdempotencyEntry>(
+    `SELECT key, request_hash AS requestHash, record_id AS recordId,
+            status_code AS statusCode, expires_at AS expiresAt
+     FROM tx_idempotency WHERE key = ?`
+  );
+  const purgeIdempotencyStmt = db.prepare<[string]>(
+    'DELETE FROM tx_idempotency WHERE expires_at <= ?'
+  );
+  const scanStmt = db.prepare<[string, string, number], { record: string }>(
+    `SELECT record FROM tx_records
+     WHERE (created_at, id) > (?, ?)
+     ORDER BY created_at, id
+     LIMIT ?`
+  );
+
+  const parse = (row: { record: string }): TxSecureRecord => JSON.parse(row.record);
+
+  const putRecord = db.transaction((record: TxSecureRecord, entry?: IdempotencyEntry) => {
+    if (getTombstoneStmt.get(record.id)) {
+      throw new Error(`Record ${record.id} has been deleted`);
+    }
+    putStmt.run({
+      id: record.id,
+      partyId: record.partyId,
+      createdAt: record.createdAt,
+      record: JSON.stringify(record)
+    });
+    if (entry) {
+      idempotencyStmt.run(entry);
+    }
+  });
+
+  const deleteRecords = db.transaction((tombstones: Tombstone[]) => {
+    for (const tombstone of tombstones) {
+      deleteStmt.run(tombstone.id);
+      tombstoneStmt.run(tombstone);
+    }
+  });
+
+  return {
+    async get(id) {
+      const row = getStmt.get(id);
+      return row ? parse(row) : undefined;
+    },
+
+    async put(record, entry) {
+      putRecord(record, entry);
+    },
+
+    async delete(tombstones) {
+      deleteRecords(tombstones);
+      db.pragma('wal_checkpoint(TRUNCATE)');
+    },
+
+    async getTombstone(id) {
+      return getTombstoneStmt.get(id);
+    },
+
+    async getIdempotencyEntry(key) {
+      return getIdempotencyStmt.get(key);
+    },
+
+    async purgeIdempotencyEntries(before) {
+      return purgeIdempotencyStmt.run(before).changes;
+    },
+
+    async list(query = {}) {
+      const conditions: string[] = [];
+      const params: Record<string, string | number> = {};
+
+      if (query.partyId !== undefined) {
+        conditions.push('party_id = @partyId');
+        params.partyId = query.partyId;
+      }
+
+      if (query.createdFrom !== undefined) {
+        conditions.push('created_at >= @createdFrom');
+        params.createdFrom = query.createdFrom;
+      }
+
+      if (query.createdTo !== undefined) {
+        conditions.push('created_at < @createdTo');
+        params.createdTo = query.createdTo;
+      }
+
+      if (query.after !== undefined) {
+        conditions.push('(created_at, id) > (@afterCreatedAt, @afterId)');
+        params.afterCreatedAt = query.after.createdAt;
+        params.afterId = query.after.id;
+      }
+
+      if (query.alg !== undefined) {
+        conditions.push("json_extract(record, '$.alg') = @alg");
+        params.alg = query.alg;
+      }
+
+      if (query.mkVersion !== undefined) {
+        conditions.push("json_extract(record, '$.mk_version') = @mkVersion");
+        params.mkVersion = query.mkVersion;
+      }
+
+      if (query.expiresBefore !== undefined) {
+        conditions.push("json_extract(record, '$.expiresAt') <= @expiresBefore");
+        params.expiresBefore = query.expiresBefore;
+      }
+
+      let sql = 'SELECT record FROM tx_records';
+      if (conditions.length > 0) {
+        sql += ` WHERE ${conditions.join(' AND ')}`;
+      }
+      sql += ' ORDER BY created_at, id';
+
+      if (query.limit !== undefined) {
+        sql += ' LIMIT @limit';
+        params.limit = query.limit;
+      }
+
+      return db.prepare<[Record<string, string | number>], { record: string }>(sql)
+        .all(params)
+        .map(parse);
+    },
+
+    async *scan() {
+      // Page through with a keyset cursor rather than holding an open
+      // iterator, so callers can write to the store while scanning
+      let after = { createdAt: '', id: '' };
+
+      for (;;) {
+        const page = scanStmt.all(after.createdAt, after.id, SCAN_PAGE_SIZE).map(parse);
+
+        yield* page;
+
+        const last = page[page.length - 1];
+        if (!last || page.length < SCAN_PAGE_SIZE) {
+          return;
+        }
+        after = { createdAt: last.createdAt, id: last.id };
+      }
+    },
+
+    async close() {
+      db.close();
+    }
+  };
+}
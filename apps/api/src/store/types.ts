@@ -0,0 +1,112 @@
+import { TxSecureRecord } from '@mirfa/crypto';
+
+/**
+ * Filters for listing stored records
+ * Results are ordered by `createdAt`, then `id`
+ */
+export interface TxQuery {
+  /** Only records belonging to this party */
+  partyId?: string;
+
+  /** Only records created at or after this ISO 8601 timestamp */
+  createdFrom?: string;
+
+  /** Only records created before this ISO 8601 timestamp */
+  createdTo?: string;
+
+  /** Only records encrypted with this algorithm */
+  alg?: string;
+
+  /** Only records whose DEK is wrapped under this master key version */
+  mkVersion?: number;
+
+  /** Only records with an `expiresAt` at or before this ISO 8601 timestamp */
+  expiresBefore?: string;
+
+  /** Only records strictly after this position in `createdAt`, `id` order */
+  after?: { createdAt: string; id: string };
+
+  /** Maximum number of records to return */
+  limit?: number;
+}
+
+/**
+ * What remains of a record after it has been shredded
+ */
+export interface Tombstone {
+  id: string;
+  partyId: string;
+
+  /** When the record was shredded (ISO 8601) */
+  deletedAt: string;
+
+  /** Why the record was shredded, e.g. `erasure_request` */
+  reason: string;
+}
+
+/**
+ * Remembers the record created for an `Idempotency-Key` so that retries of
+ * the same request get the same response
+ */
+export interface IdempotencyEntry {
+  /** The key, scoped to the caller that sent it */
+  key: string;
+
+  /** SHA-256 of the request body (hex) */
+  requestHash: string;
+
+  /** Record created by the original request */
+  recordId: string;
+
+  /** Status of the original response */
+  statusCode: number;
+
+  /** When the key stops being honoured (ISO 8601) */
+  expiresAt: string;
+}
+
+/**
+ * Persistence backend for encrypted transaction records
+ *
+ * Stores only ever see ciphertext; encryption happens before `put`.
+ */
+export interface TxStore {
+  /** Fetches a record by id */
+  get(id: string): Promise<TxSecureRecord | undefined>;
+
+  /**
+   * Inserts or replaces a record, together with the idempotency key it was
+   * created under, if any
+   * @throws Error if the record has been deleted
+   */
+  put(record: TxSecureRecord, idempotency?: IdempotencyEntry): Promise<void>;
+
+  /**
+   * Removes records, wrapped DEK included, leaving a tombstone for each
+   *
+   * Backends must not keep recoverable copies of the removed records; an
+   * existing tombstone for the same id is kept as-is.
+   */
+  delete(tombstones: Tombstone[]): Promise<void>;
+
+  /** Fetches the tombstone of a deleted record */
+  getTombstone(id: string): Promise<Tombstone | undefined>;
+
+  /** Fetches an idempotency key's entry, expired or not */
+  getIdempotencyEntry(key: string): Promise<IdempotencyEntry | undefined>;
+
+  /**
+   * Forgets idempotency keys that expired at or before a time (ISO 8601)
+   * @returns Number of keys removed
+   */
+  purgeIdempotencyEntries(before: string): Promise<number>;
+
+  /** Lists records matching a query, using the partyId/createdAt indexes */
+  list(query?: TxQuery): Promise<TxSecureRecord[]>;
+
+  /** Iterates over every stored record */
+  scan(): AsyncIterable<TxSecureRecord>;
+
+  /** Releases any underlying resources */
+  close(): Promise<void>;
+}
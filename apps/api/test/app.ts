@@ -0,0 +1,74 @@
+import crypto from 'node:crypto';
+import { FastifyInstance } from 'fastify';
+import { AppOptions, buildApp } from '../src/app.js';
+
+// Key providers read the master key from the environment when they wrap
+process.env.MASTER_KEY ??= crypto.randomBytes(32).toString('hex');
+
+/** API key allowed to act for `party-a` and `party-b` only */
+export const API_KEY = 'test-key';
+
+/** API key allowed to act for every party */
+export const ADMIN_KEY = 'admin-key';
+
+export const JWT_SECRET = crypto.randomBytes(32).toString('hex');
+
+export const headers = { 'x-api-key': API_KEY };
+export const adminHeaders = { 'x-api-key': ADMIN_KEY };
+
+/**
+ * Builds the API with in-memory storage, a memory-only audit log and two
+ * API keys; `options` override any of these
+ */
+export async function createTestApp(options: AppOptions = {}): Promise<FastifyInstance> {
+  return buildApp({
+    store: { type: 'memory' },
+    audit: { key: crypto.randomBytes(32) },
+    auth: {
+      apiKeys: {
+        [API_KEY]: { id: 'tester', parties: ['party-a', 'party-b'] },
+        [ADMIN_KEY]: { id: 'admin', parties: ['*'] }
+      },
+      jwtSecret: JWT_SECRET
+    },
+    rateLimits: {},
+    corsOrigins: [],
+    docs: false,
+    logger: false,
+    ...options
+  });
+}
+
+/**
+ * Encrypts a payload through `POST /tx/encrypt` and returns the record
+ */
+export async function encrypt(
+  app: FastifyInstance,
+  body: Record<string, unknown> = {}
+): Promise<{ id: string; [field: string]: unknown }> {
+  const response = await app.inject({
+    method: 'POST',
+    url: '/tx/encrypt',
+    headers,
+    payload: { partyId: 'party-a', payload: { amount: 100 }, ...body }
+  });
+
+  if (response.statusCode !== 201) {
+    throw new Error(`Encrypt failed with ${response.statusCode}: ${response.body}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Signs an HS256 JWT with the test secret
+ */
+export function signJwt(
+  claims: Record<string, unknown>,
+  header: unknown = { alg: 'HS256', typ: 'JWT' }
+): string {
+  const encode = (part: unknown) => Buffer.from(JSON.stringify(part)).toString('base64url');
+  const unsigned = `${encode(header)}.${encode(claims)}`;
+  const signature = crypto.createHmac('sha256', JWT_SECRET).update(unsigned).digest('base64url');
+  return `${unsigned}.${signature}`;
+}
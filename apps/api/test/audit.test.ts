@@ -0,0 +1,106 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createAuditLog, verifyChain } from '../src/audit/index.js';
+import { adminHeaders, createTestApp, encrypt } from './app.js';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mirfa-audit-'));
+const key = crypto.randomBytes(32);
+
+after(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('audit log', () => {
+  it('continues the chain from the file after a restart', async () => {
+    const file = path.join(dir, 'restart.jsonl');
+
+    const first = await createAuditLog({ key, path: file });
+    await first.record({ action: 'encrypt', outcome: 'success', partyId: 'party-a' });
+    await first.close();
+
+    const second = await createAuditLog({ key, path: file });
+    const entry = await second.record({ action: 'decrypt', outcome: 'success', partyId: 'party-a' });
+
+    assert.equal(entry.seq, 2);
+    assert.deepEqual(await second.verify(), { valid: true, entries: 2 });
+    await second.close();
+  });
+
+  it('returns the most recent matches up to the limit', async () => {
+    const log = await createAuditLog({ key, path: path.join(dir, 'query.jsonl') });
+
+    for (const partyId of ['party-a', 'party-b', 'party-a', 'party-a']) {
+      await log.record({ action: 'fetch', outcome: 'success', partyId });
+    }
+
+    const entries = await log.query({ partyId: 'party-a', limit: 2 });
+    assert.deepEqual(entries.map((entry) => entry.seq), [3, 4]);
+    await log.close();
+  });
+
+  for (const [name, edit] of [
+    ['an edited entry', (line: string) => line.replace('"success"', '"failure"')],
+    [
+      'a forged signature',
+      (line: string) => line.replace(/"signature":"[0-9a-f]+"/, `"signature":"${'0'.repeat(64)}"`)
+    ]
+  ] as const) {
+    it(`reports ${name} as a broken chain`, async () => {
+      const file = path.join(dir, `${crypto.randomUUID()}.jsonl`);
+      const log = await createAuditLog({ key, path: file });
+
+      for (let i = 0; i < 3; i++) {
+        await log.record({ action: 'fetch', outcome: 'success', partyId: 'party-a' });
+      }
+      await log.close();
+
+      const lines = fs.readFileSync(file, 'utf8').split('\n');
+      lines[1] = edit(lines[1]!);
+      fs.writeFileSync(file, lines.join('\n'));
+
+      const reopened = await createAuditLog({ key, path: file });
+      const verification = await reopened.verify();
+      assert.equal(verification.valid, false);
+      assert.equal(verification.brokenAt, 2);
+      await reopened.close();
+    });
+  }
+
+  it('reports a removed entry as a sequence gap', async () => {
+    const log = await createAuditLog({ key });
+
+    for (let i = 0; i < 3; i++) {
+      await log.record({ action: 'fetch', outcome: 'success' });
+    }
+
+    const entries = await log.query();
+    const verification = await verifyChain([entries[0]!, entries[2]!], key);
+    assert.equal(verification.reason, 'sequence gap');
+    await log.close();
+  });
+
+  it('records API operations, readable through GET /audit', async () => {
+    const app = await createTestApp();
+    const record = await encrypt(app);
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/audit?partyId=party-a&recordId=${record.id}`,
+      headers: adminHeaders
+    });
+    const verify = await app.inject({ method: 'GET', url: '/audit/verify', headers: adminHeaders });
+
+    const entries: { action: string; outcome: string }[] = response.json().entries;
+
+    assert.deepEqual(
+      entries.map((entry) => [entry.action, entry.outcome]),
+      [['encrypt', 'success']]
+    );
+    assert.equal(verify.json().valid, true);
+    await app.close();
+  });
+});
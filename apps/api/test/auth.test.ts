@@ -0,0 +1,149 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FastifyInstance } from 'fastify';
+import { loadAuthConfig } from '../src/plugins/auth.js';
+import { adminHeaders, createTestApp, encrypt, headers, signJwt } from './app.js';
+
+describe('authentication', () => {
+  let app: FastifyInstance;
+
+  before(async () => {
+    app = await createTestApp();
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  it('rejects requests without credentials as problem+json', async () => {
+    const response = await app.inject({ method: 'GET', url: '/tx' });
+
+    assert.equal(response.statusCode, 401);
+    assert.match(response.headers['content-type'] as string, /^application\/problem\+json/);
+  });
+
+  it('rejects unknown API keys', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/tx',
+      headers: { 'x-api-key': 'not-a-key' }
+    });
+
+    assert.equal(response.statusCode, 401);
+  });
+
+  it('lets routes opt out of authentication', async () => {
+    const response = await app.inject({ method: 'GET', url: '/healthz' });
+
+    assert.equal(response.statusCode, 200);
+  });
+
+  it('accepts a valid HS256 JWT', async () => {
+    const token = signJwt({ sub: 'jwt-user', parties: ['party-a'] });
+    const response = await app.inject({
+      method: 'POST',
+      url: '/tx/encrypt',
+      headers: { authorization: `Bearer ${token}` },
+      payload: { partyId: 'party-a', payload: { amount: 1 } }
+    });
+
+    assert.equal(response.statusCode, 201);
+  });
+
+  for (const [name, token] of [
+    ['a forged signature', `${signJwt({ sub: 'x', parties: ['party-a'] }).slice(0, -4)}AAAA`],
+    ['an expired token', signJwt({ sub: 'x', parties: ['party-a'], exp: 1 })],
+    ['a non-HS256 header', signJwt({ sub: 'x', parties: ['party-a'] }, { alg: 'none' })],
+    ['a null header', signJwt({ sub: 'x', parties: ['party-a'] }, null)],
+    ['a numeric header', signJwt({ sub: 'x', parties: ['party-a'] }, 1)],
+    ['an array header', signJwt({ sub: 'x', parties: ['party-a'] }, [])],
+    ['claims without parties', signJwt({ sub: 'x' })]
+  ] as const) {
+    it(`rejects a JWT with ${name}`, async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/tx',
+        headers: { authorization: `Bearer ${token}` }
+      });
+
+      assert.equal(response.statusCode, 401);
+    });
+  }
+
+  it('refuses to act for parties outside the caller\'s list', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/tx/encrypt',
+      headers,
+      payload: { partyId: 'party-c', payload: { amount: 1 } }
+    });
+
+    assert.equal(response.statusCode, 403);
+  });
+
+  it('hides records of other parties and audits the denial', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/tx/encrypt',
+      headers: adminHeaders,
+      payload: { partyId: 'party-c', payload: { amount: 1 } }
+    });
+    const record = response.json();
+
+    for (const request of [
+      { method: 'GET' as const, url: `/tx/${record.id}` },
+      { method: 'POST' as const, url: `/tx/${record.id}/decrypt` }
+    ]) {
+      assert.equal((await app.inject({ ...request, headers })).statusCode, 403);
+    }
+
+    const audit = await app.inject({
+      method: 'GET',
+      url: `/audit?recordId=${record.id}`,
+      headers: adminHeaders
+    });
+    assert.ok(
+      audit
+        .json()
+        .entries.some(
+          (entry: { outcome: string; reason?: string }) =>
+            entry.outcome === 'denied' && entry.reason === 'cross_party'
+        )
+    );
+  });
+
+  it('lets callers read their own records', async () => {
+    const record = await encrypt(app);
+    const response = await app.inject({ method: 'POST', url: `/tx/${record.id}/decrypt`, headers });
+
+    assert.equal(response.statusCode, 200);
+    assert.deepEqual(response.json(), { payload: { amount: 100 } });
+  });
+});
+
+describe('loadAuthConfig', () => {
+  it('reads API keys from AUTH_API_KEYS', () => {
+    const config = loadAuthConfig({
+      AUTH_API_KEYS: JSON.stringify({ key: { id: 'svc', parties: ['party-a'] } })
+    });
+
+    assert.deepEqual(config.apiKeys, { key: { id: 'svc', parties: ['party-a'] } });
+  });
+
+  for (const value of [
+    'not json',
+    '[]',
+    JSON.stringify({ key: null }),
+    JSON.stringify({ key: { parties: ['party-a'] } }),
+    JSON.stringify({ key: { id: 'svc', parties: 'party-a' } }),
+    JSON.stringify({ key: { id: 'svc', parties: [1] } })
+  ]) {
+    it(`rejects AUTH_API_KEYS=${value}`, () => {
+      assert.throws(() => loadAuthConfig({ AUTH_API_KEYS: value }), /AUTH_API_KEYS/);
+    });
+  }
+
+  it('refuses to start without any authentication configured', async () => {
+    await assert.rejects(createTestApp({ auth: {} }), /No authentication configured/);
+  });
+});
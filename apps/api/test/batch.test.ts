@@ -0,0 +1,138 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FastifyInstance } from 'fastify';
+import { adminHeaders, createTestApp, encrypt, headers } from './app.js';
+
+describe('batch routes', () => {
+  let app: FastifyInstance;
+
+  before(async () => {
+    app = await createTestApp({ batch: { maxItems: 3 } });
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  function batch(operation: 'encrypt' | 'decrypt', items: unknown, requestHeaders = headers) {
+    return app.inject({
+      method: 'POST',
+      url: `/tx/batch/${operation}`,
+      headers: requestHeaders,
+      payload: { items }
+    });
+  }
+
+  it('encrypts each item and decrypts them back in order', async () => {
+    const encrypted = await batch('encrypt', [
+      { partyId: 'party-a', payload: { n: 1 } },
+      { partyId: 'party-b', payload: { n: 2 } }
+    ]);
+    const records = encrypted
+      .json()
+      .results.map((result: { record: { id: string } }) => result.record);
+
+    assert.equal(encrypted.statusCode, 200);
+    assert.deepEqual(
+      records.map((record: { partyId: string }) => record.partyId),
+      ['party-a', 'party-b']
+    );
+
+    const decrypted = await batch('decrypt', records.map(({ id }: { id: string }) => ({ id })));
+
+    assert.deepEqual(decrypted.json().results, [
+      { id: records[0].id, ok: true, payload: { n: 1 } },
+      { id: records[1].id, ok: true, payload: { n: 2 } }
+    ]);
+  });
+
+  it('fails encrypt items one by one', async () => {
+    const response = await batch('encrypt', [
+      { partyId: 'party-a', payload: { n: 1 } },
+      { partyId: 'party-z', payload: { n: 2 } },
+      { partyId: 'party-a', payload: { n: 3 }, passphrase: 'correct horse battery staple' }
+    ]);
+    const results = response.json().results;
+
+    assert.equal(response.statusCode, 200);
+    assert.equal(results[0].ok, true);
+    assert.deepEqual(
+      results.slice(1).map((result: { code: string }) => result.code),
+      ['forbidden', 'invalid_request']
+    );
+  });
+
+  it('fails decrypt items one by one', async () => {
+    const kept = await encrypt(app);
+    const deleted = await encrypt(app);
+    await app.inject({ method: 'DELETE', url: `/tx/${deleted.id}`, headers });
+
+    const foreign = await app.inject({
+      method: 'POST',
+      url: '/tx/encrypt',
+      headers: adminHeaders,
+      payload: { partyId: 'party-z', payload: {} }
+    });
+
+    const response = await batch('decrypt', [
+      { id: kept.id, paths: ['$.amount'] },
+      { id: deleted.id },
+      { id: foreign.json().id }
+    ]);
+    const missing = await batch('decrypt', [{ id: 'unknown' }, { id: 7 }]);
+
+    assert.deepEqual(
+      response.json().results.map((result: { code?: string }) => result.code),
+      ['invalid_field_selection', 'deleted', 'forbidden']
+    );
+    assert.deepEqual(
+      missing.json().results.map((result: { code?: string }) => result.code),
+      ['not_found', 'invalid_request']
+    );
+  });
+
+  it('rejects empty and oversized batches as a whole', async () => {
+    const empty = await batch('encrypt', []);
+    const oversized = await batch('decrypt', ['a', 'b', 'c', 'd'].map((id) => ({ id })));
+
+    assert.equal(empty.statusCode, 400);
+    assert.equal(oversized.statusCode, 413);
+  });
+});
+
+describe('batch routes on worker threads', () => {
+  let app: FastifyInstance;
+
+  before(async () => {
+    app = await createTestApp({ batch: { workers: 1 } });
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  it('encrypts and decrypts through the pool', async () => {
+    const items = [1, 2, 3].map((n) => ({ partyId: 'party-a', payload: { n } }));
+    const encrypted = await app.inject({
+      method: 'POST',
+      url: '/tx/batch/encrypt',
+      headers,
+      payload: { items }
+    });
+    const ids = encrypted.json().results.map((result: { record: { id: string } }) => ({
+      id: result.record.id
+    }));
+
+    const decrypted = await app.inject({
+      method: 'POST',
+      url: '/tx/batch/decrypt',
+      headers,
+      payload: { items: ids }
+    });
+
+    assert.deepEqual(
+      decrypted.json().results.map((result: { payload: unknown }) => result.payload),
+      [{ n: 1 }, { n: 2 }, { n: 3 }]
+    );
+  });
+});
@@ -0,0 +1,178 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { FastifyInstance } from 'fastify';
+import { TxSecureRecord, createEnvKeyProvider, createKeyring, encryptPayload } from '@mirfa/crypto';
+import { RecordBundle, createBundle, verifyBundle } from '../src/routes/bundle.js';
+import { adminHeaders, createTestApp, encrypt, headers } from './app.js';
+
+const SIGNING_KEY = crypto.randomBytes(32);
+
+describe('record bundles', () => {
+  let source: FastifyInstance;
+  let target: FastifyInstance;
+
+  before(async () => {
+    source = await createTestApp({ bundle: { signingKey: SIGNING_KEY } });
+    target = await createTestApp({
+      bundle: { signingKey: SIGNING_KEY },
+      retention: { defaultTtls: { 'party-b': 3600 }, sweepIntervalMs: 0 }
+    });
+  });
+
+  after(async () => {
+    await Promise.all([source.close(), target.close()]);
+  });
+
+  async function exportBundle(query = ''): Promise<RecordBundle> {
+    const response = await source.inject({ method: 'GET', url: `/tx/export${query}`, headers });
+    assert.equal(response.statusCode, 200);
+    return response.json();
+  }
+
+  function importBundle(bundle: RecordBundle, body: Record<string, unknown> = {}, as = headers) {
+    return target.inject({
+      method: 'POST',
+      url: '/tx/import',
+      headers: as,
+      payload: { bundle, ...body }
+    });
+  }
+
+  async function fetchRecord(
+    app: FastifyInstance,
+    id: string,
+    as: Record<string, string> = headers
+  ): Promise<TxSecureRecord> {
+    return (await app.inject({ method: 'GET', url: `/tx/${id}`, headers: as })).json();
+  }
+
+  it('moves records to another deployment', async () => {
+    const { id } = await encrypt(source, { payload: { amount: 7 } });
+    const bundle = await exportBundle('?partyId=party-a');
+
+    assert.equal(verifyBundle(bundle, SIGNING_KEY), undefined);
+    assert.ok(bundle.records.some((record) => record.id === id));
+
+    const imported = await importBundle(bundle);
+    const decrypted = await target.inject({ method: 'POST', url: `/tx/${id}/decrypt`, headers });
+
+    assert.equal(imported.statusCode, 200);
+    assert.deepEqual(imported.json(), {
+      imported: bundle.records.length,
+      rewrapped: 0,
+      duplicates: [],
+      failed: []
+    });
+    assert.deepEqual(decrypted.json().payload, { amount: 7 });
+
+    const again = await importBundle(bundle);
+    assert.deepEqual(again.json().duplicates, bundle.records.map((record) => record.id));
+  });
+
+  it('rejects bundles that were altered after signing', async () => {
+    await encrypt(source);
+    const bundle = await exportBundle('?partyId=party-a');
+    const [record] = bundle.records;
+
+    for (const altered of [
+      { ...bundle, signature: createBundle([], {}, crypto.randomBytes(32)).signature },
+      { ...bundle, manifest: { ...bundle.manifest, exportedAt: new Date(0).toISOString() } },
+      { ...bundle, records: [{ ...record!, partyId: 'party-b' }, ...bundle.records.slice(1)] },
+      { ...bundle, records: bundle.records.slice(1) }
+    ]) {
+      const response = await importBundle(altered);
+
+      assert.equal(response.statusCode, 422);
+      assert.equal(response.json().code, 'invalid_bundle');
+    }
+  });
+
+  it('needs access to every party in the bundle', async () => {
+    const created = await source.inject({
+      method: 'POST',
+      url: '/tx/encrypt',
+      headers: adminHeaders,
+      payload: { partyId: 'party-z', payload: {} }
+    });
+    const record = await fetchRecord(source, created.json().id, adminHeaders);
+
+    const response = await importBundle(createBundle([record], {}, SIGNING_KEY));
+
+    assert.equal(response.statusCode, 403);
+  });
+
+  it('leaves out records that expired after they were exported', async () => {
+    const { id } = await encrypt(source, { ttlSeconds: 1 });
+    const record = await fetchRecord(source, id);
+
+    await sleep(1100);
+    const response = await importBundle(createBundle([record], {}, SIGNING_KEY));
+    const fetched = await target.inject({ method: 'GET', url: `/tx/${id}`, headers });
+
+    assert.equal(response.json().imported, 0);
+    assert.deepEqual(
+      response.json().failed.map(({ code }: { code: string }) => code),
+      ['record_expired']
+    );
+    assert.equal(fetched.statusCode, 404);
+  });
+
+  it("holds records to the party's retention here", async () => {
+    const kept = await encrypt(source, { partyId: 'party-b', ttlSeconds: 60 });
+    const forever = await encrypt(source, { partyId: 'party-b' });
+    const tooLong = await encrypt(source, { partyId: 'party-b', ttlSeconds: 7200 });
+    const ids = [kept.id, forever.id, tooLong.id];
+    const records = await Promise.all(ids.map((id) => fetchRecord(source, id)));
+
+    const response = await importBundle(createBundle(records, {}, SIGNING_KEY));
+    const { imported, failed } = response.json();
+
+    assert.equal(imported, 1);
+    assert.deepEqual(
+      failed.map(({ id, code }: { id: string; code: string }) => ({ id, code })),
+      [
+        { id: forever.id, code: 'invalid_record' },
+        { id: tooLong.id, code: 'invalid_record' }
+      ]
+    );
+    assert.match(failed[0].error, /expiresAt is required/);
+    assert.match(failed[1].error, /expiresAt must be no later than/);
+  });
+
+  it("rewraps DEKs under the exporting deployment's master key", async () => {
+    const sourceKey = crypto.randomBytes(32).toString('hex');
+    const provider = createEnvKeyProvider(createKeyring(1, { 1: sourceKey }));
+    const record = await encryptPayload('party-a', { amount: 9 }, { provider });
+    const bundle = createBundle([record], {}, SIGNING_KEY);
+
+    const unwrappable = await importBundle(bundle);
+    assert.equal(unwrappable.json().imported, 0);
+    assert.equal(unwrappable.json().failed[0].id, record.id);
+
+    const denied = await importBundle(bundle, { sourceKeys: { 1: sourceKey } });
+    assert.equal(denied.statusCode, 403);
+
+    const response = await importBundle(bundle, { sourceKeys: { 1: sourceKey } }, adminHeaders);
+    const decrypted = await target.inject({
+      method: 'POST',
+      url: `/tx/${record.id}/decrypt`,
+      headers
+    });
+
+    assert.equal(response.json().rewrapped, 1);
+    assert.deepEqual(decrypted.json().payload, { amount: 9 });
+  });
+
+  it('is unavailable without a signing key', async () => {
+    const app = await createTestApp({ bundle: {} });
+
+    try {
+      const response = await app.inject({ method: 'GET', url: '/tx/export', headers });
+      assert.equal(response.statusCode, 503);
+    } finally {
+      await app.close();
+    }
+  });
+});
@@ -0,0 +1,86 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FastifyInstance } from 'fastify';
+import { createTestApp, encrypt, headers } from './app.js';
+
+const payload = {
+  items: Array.from({ length: 200 }, (_, i) => ({ sku: `SKU-${i % 5}`, amount: 100 }))
+};
+
+describe('payload compression', () => {
+  let app: FastifyInstance;
+
+  before(async () => {
+    app = await createTestApp({
+      compression: { algorithm: 'gzip', minBytes: 1024, maxInflatedBytes: 64 * 1024 }
+    });
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  function decrypt(id: string) {
+    return app.inject({ method: 'POST', url: `/tx/${id}/decrypt`, headers });
+  }
+
+  it('compresses with the configured codec unless the request picks another', async () => {
+    const configured = await encrypt(app, { payload });
+    const requested = await encrypt(app, { payload, compression: 'br' });
+    const optedOut = await encrypt(app, { payload, compression: 'none' });
+    const small = await encrypt(app);
+
+    assert.equal(configured.compression, 'gzip');
+    assert.equal(requested.compression, 'br');
+    assert.equal(optedOut.compression, undefined);
+    assert.equal(small.compression, undefined);
+
+    for (const { id } of [configured, requested, optedOut]) {
+      assert.deepEqual((await decrypt(id)).json().payload, payload);
+    }
+  });
+
+  it('answers 422 for payloads that inflate beyond the limit', async () => {
+    const { id } = await encrypt(app, { payload: { text: 'a'.repeat(100_000) } });
+    const response = await decrypt(id);
+
+    assert.equal(response.statusCode, 422);
+    assert.equal(response.json().code, 'payload_too_large');
+  });
+
+  it('does not compress field-level records', async () => {
+    const record = await encrypt(app, { payload, fields: ['$.items[*].amount'] });
+
+    assert.equal(record.compression, undefined);
+    assert.equal(record.mode, 'fields');
+  });
+
+  it('rejects a codec requested with fields or schema', async () => {
+    const schema = { properties: { items: { 'x-encrypt': true } } };
+
+    for (const selection of [{ fields: ['$.items'] }, { schema }]) {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/tx/encrypt',
+        headers,
+        payload: { partyId: 'party-a', payload, compression: 'gzip', ...selection }
+      });
+
+      assert.equal(response.statusCode, 400);
+      assert.match(response.json().detail, /compression/);
+    }
+  });
+
+  it('rejects a codec requested with fields in a batch item', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/tx/batch/encrypt',
+      headers,
+      payload: {
+        items: [{ partyId: 'party-a', payload, fields: ['$.items'], compression: 'br' }]
+      }
+    });
+
+    assert.equal(response.json().results[0].code, 'invalid_request');
+  });
+});
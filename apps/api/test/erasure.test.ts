@@ -0,0 +1,150 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { FastifyInstance } from 'fastify';
+import { KeyUnavailableError, TxSecureRecord, decryptPayload } from '@mirfa/crypto';
+import { adminHeaders, createTestApp, encrypt, headers } from './app.js';
+
+describe('record deletion', () => {
+  let app: FastifyInstance;
+
+  before(async () => {
+    app = await createTestApp();
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  it('replaces a record with its tombstone', async () => {
+    const { id } = await encrypt(app);
+
+    const deleted = await app.inject({
+      method: 'DELETE',
+      url: `/tx/${id}`,
+      headers,
+      payload: { reason: 'customer_request' }
+    });
+    const tombstone = deleted.json();
+
+    assert.equal(deleted.statusCode, 200);
+    assert.equal(tombstone.id, id);
+    assert.equal(tombstone.partyId, 'party-a');
+    assert.equal(tombstone.reason, 'customer_request');
+
+    for (const [method, url] of [
+      ['GET', `/tx/${id}`],
+      ['POST', `/tx/${id}/decrypt`],
+      ['DELETE', `/tx/${id}`]
+    ] as const) {
+      const response = await app.inject({ method, url, headers });
+
+      assert.equal(response.statusCode, 410, `${method} ${url}`);
+      assert.equal(response.json().code, 'record_deleted');
+      assert.equal(response.json().reason, 'customer_request');
+    }
+  });
+
+  it('defaults the reason and rejects invalid ones', async () => {
+    const { id } = await encrypt(app);
+
+    const invalid = await app.inject({
+      method: 'DELETE',
+      url: `/tx/${id}`,
+      headers,
+      payload: { reason: '' }
+    });
+    const deleted = await app.inject({ method: 'DELETE', url: `/tx/${id}`, headers });
+
+    assert.equal(invalid.statusCode, 400);
+    assert.equal(deleted.json().reason, 'erasure_request');
+  });
+
+  it('only reveals tombstones to callers with access to the party', async () => {
+    const created = await app.inject({
+      method: 'POST',
+      url: '/tx/encrypt',
+      headers: adminHeaders,
+      payload: { partyId: 'party-z', payload: { amount: 1 } }
+    });
+    const recordId = created.json().id;
+
+    const denied = await app.inject({ method: 'DELETE', url: `/tx/${recordId}`, headers });
+    assert.equal(denied.statusCode, 403);
+
+    await app.inject({ method: 'DELETE', url: `/tx/${recordId}`, headers: adminHeaders });
+
+    const hidden = await app.inject({ method: 'GET', url: `/tx/${recordId}`, headers });
+    assert.equal(hidden.statusCode, 403);
+  });
+
+  it('returns 404 for an id that never existed', async () => {
+    const response = await app.inject({ method: 'DELETE', url: '/tx/unknown', headers });
+
+    assert.equal(response.statusCode, 404);
+  });
+
+  it('shreds every record of a party', async () => {
+    const ids = [
+      (await encrypt(app, { partyId: 'party-b' })).id,
+      (await encrypt(app, { partyId: 'party-b' })).id
+    ];
+    const kept = await encrypt(app, { partyId: 'party-a' });
+
+    const response = await app.inject({ method: 'DELETE', url: '/parties/party-b', headers });
+
+    assert.equal(response.statusCode, 200);
+    assert.equal(response.json().deleted, 2);
+    assert.equal(response.json().keyShredded, false);
+
+    for (const id of ids) {
+      const fetched = await app.inject({ method: 'GET', url: `/tx/${id}`, headers });
+      assert.equal(fetched.statusCode, 410);
+    }
+
+    const other = await app.inject({ method: 'GET', url: `/tx/${kept.id}`, headers });
+    assert.equal(other.statusCode, 200);
+  });
+
+  it('refuses to delete another party', async () => {
+    const response = await app.inject({ method: 'DELETE', url: '/parties/party-z', headers });
+
+    assert.equal(response.statusCode, 403);
+  });
+});
+
+describe('party key shredding', () => {
+  let app: FastifyInstance;
+  let dir: string;
+  const env = { ...process.env };
+
+  before(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mirfa-erasure-'));
+    process.env.KMS_PROVIDER = 'party';
+    process.env.PARTY_KEYS_PATH = path.join(dir, 'party-keys.json');
+    app = await createTestApp();
+  });
+
+  after(async () => {
+    await app.close();
+    process.env = env;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('leaves copies of a deleted party undecryptable', async () => {
+    const { id } = await encrypt(app);
+    const fetched = await app.inject({ method: 'GET', url: `/tx/${id}`, headers });
+    const copy = fetched.json() as TxSecureRecord;
+
+    assert.equal(copy.kms_provider, 'party');
+    assert.deepEqual(await decryptPayload(copy), { amount: 100 });
+
+    const response = await app.inject({ method: 'DELETE', url: '/parties/party-a', headers });
+
+    assert.equal(response.statusCode, 200);
+    assert.equal(response.json().keyShredded, true);
+    await assert.rejects(decryptPayload(copy), KeyUnavailableError);
+  });
+});
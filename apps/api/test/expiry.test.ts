@@ -0,0 +1,131 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { FastifyInstance } from 'fastify';
+import { encryptPayload } from '@mirfa/crypto';
+import { createMemoryBlobStore, createMemoryStore } from '../src/store/index.js';
+import { EXPIRED_REASON, runExpirySweep } from '../src/routes/erasure.js';
+import { loadRetentionConfig, resolveExpiresAt } from '../src/plugins/retention.js';
+import { adminHeaders, createTestApp, encrypt, headers } from './app.js';
+
+describe('record expiry', () => {
+  let app: FastifyInstance;
+
+  before(async () => {
+    app = await createTestApp({
+      retention: { defaultTtls: { 'party-b': 3600, '*': 60 }, sweepIntervalMs: 0 }
+    });
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  // expiresAt is computed just before createdAt, so round off the difference
+  function expiresIn(record: Record<string, unknown>): number {
+    const ms = Date.parse(record.expiresAt as string) - Date.parse(record.createdAt as string);
+    return Math.round(ms / 1000);
+  }
+
+  it('applies the requested TTL, else the party default, else the fallback', async () => {
+    assert.equal(expiresIn(await encrypt(app, { ttlSeconds: 5 })), 5);
+    assert.equal(expiresIn(await encrypt(app, { partyId: 'party-b' })), 3600);
+    assert.equal(expiresIn(await encrypt(app, { partyId: 'party-a' })), 60);
+  });
+
+  it('rejects a TTL that is not a positive integer', async () => {
+    for (const ttlSeconds of [0, -1, 1.5]) {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/tx/encrypt',
+        headers,
+        payload: { partyId: 'party-a', payload: {}, ttlSeconds }
+      });
+
+      assert.equal(response.statusCode, 400, `ttlSeconds ${ttlSeconds}`);
+    }
+  });
+
+  it('answers 410 for an expired record until the sweep shreds it', async () => {
+    const { id } = await encrypt(app, { ttlSeconds: 1 });
+
+    await sleep(1100);
+
+    for (const [method, url] of [
+      ['GET', `/tx/${id}`],
+      ['POST', `/tx/${id}/decrypt`]
+    ] as const) {
+      const response = await app.inject({ method, url, headers });
+
+      assert.equal(response.statusCode, 410, `${method} ${url}`);
+      assert.equal(response.json().code, 'record_expired');
+    }
+
+    const denied = await app.inject({ method: 'POST', url: '/tx/sweep', headers });
+    assert.equal(denied.statusCode, 403);
+
+    const swept = await app.inject({ method: 'POST', url: '/tx/sweep', headers: adminHeaders });
+    assert.equal(swept.statusCode, 200);
+    assert.equal(swept.json().purged, 1);
+
+    const fetched = await app.inject({ method: 'GET', url: `/tx/${id}`, headers });
+    assert.equal(fetched.json().code, 'record_deleted');
+    assert.equal(fetched.json().reason, EXPIRED_REASON);
+  });
+});
+
+describe('expiry sweep', () => {
+  it('shreds only records expiring by the given time', async () => {
+    const store = createMemoryStore();
+    const blobs = createMemoryBlobStore();
+    const inOneMinute = new Date(Date.now() + 60_000);
+    const inTwoMinutes = new Date(Date.now() + 120_000);
+    const inOneHour = new Date(Date.now() + 3_600_000);
+
+    const soon = await encryptPayload('party-a', {}, { expiresAt: inOneMinute });
+    const later = await encryptPayload('party-a', {}, { expiresAt: inOneHour });
+    const never = await encryptPayload('party-a', {});
+
+    for (const record of [soon, later, never]) {
+      await store.put(record);
+    }
+
+    const purged: string[] = [];
+    const count = await runExpirySweep(store, blobs, inTwoMinutes, async (record) => {
+      purged.push(record.id);
+    });
+
+    assert.equal(count, 1);
+    assert.deepEqual(purged, [soon.id]);
+    assert.equal((await store.getTombstone(soon.id))?.reason, EXPIRED_REASON);
+    assert.ok(await store.get(later.id));
+    assert.ok(await store.get(never.id));
+  });
+});
+
+describe('retention settings', () => {
+  it('reads TTL defaults and the sweep interval', () => {
+    const options = loadRetentionConfig({
+      TX_TTL_DEFAULTS: '{"party-a": 30, "*": 90}',
+      TX_SWEEP_INTERVAL_MS: '0'
+    });
+    const now = new Date('2026-01-01T00:00:00Z');
+
+    assert.equal(options.sweepIntervalMs, 0);
+    assert.equal(
+      resolveExpiresAt(options, 'party-a', undefined, now)?.toISOString(),
+      '2026-01-01T00:00:30.000Z'
+    );
+    assert.equal(
+      resolveExpiresAt(options, 'party-z', undefined, now)?.toISOString(),
+      '2026-01-01T00:01:30.000Z'
+    );
+    assert.equal(resolveExpiresAt({}, 'party-a', undefined, now), undefined);
+  });
+
+  it('rejects malformed settings', () => {
+    assert.throws(() => loadRetentionConfig({ TX_TTL_DEFAULTS: '[]' }), /JSON object/);
+    assert.throws(() => loadRetentionConfig({ TX_TTL_DEFAULTS: '{"*": 0}' }), /positive integer/);
+    assert.throws(() => loadRetentionConfig({ TX_SWEEP_INTERVAL_MS: '-1' }), /non-negative/);
+  });
+});
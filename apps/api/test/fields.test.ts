@@ -0,0 +1,95 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FastifyInstance } from 'fastify';
+import { createTestApp, encrypt, headers } from './app.js';
+
+const payload = { customer: 'Ada', card: { pan: '4111111111111111' }, items: [{ s: 1 }, { s: 2 }] };
+
+describe('field-level encryption routes', () => {
+  let app: FastifyInstance;
+
+  before(async () => {
+    app = await createTestApp();
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  it('stores selected fields encrypted and decrypts a subset by wildcard', async () => {
+    const record = await encrypt(app, { payload, fields: ['$.card.pan', '$.items[*].s'] });
+
+    assert.deepEqual(record.payload_clear, {
+      customer: 'Ada',
+      card: { pan: null },
+      items: [{ s: null }, { s: null }]
+    });
+
+    const response = await app.inject({
+      method: 'POST',
+      url: `/tx/${record.id}/decrypt`,
+      headers,
+      payload: { paths: ['$.items[*].s'] }
+    });
+    assert.equal(response.statusCode, 200);
+    assert.deepEqual(response.json().payload, { ...payload, card: { pan: null } });
+  });
+
+  for (const [name, fields, extra] of [
+    ['matches nothing', ['$.missing'], {}],
+    ['misses a required path', ['$.card.pan', '$.missing'], { requireFields: true }],
+    ['is not rooted at $', ['card.pan'], {}],
+    ['overlaps', ['$.card', '$.card.pan'], {}]
+  ] as const) {
+    it(`answers 400 to a selection that ${name}`, async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/tx/encrypt',
+        headers,
+        payload: { partyId: 'party-a', payload, fields, ...extra }
+      });
+
+      assert.equal(response.statusCode, 400);
+    });
+  }
+
+  it('fails only the batch items with an invalid selection', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/tx/batch/encrypt',
+      headers,
+      payload: {
+        items: [
+          { partyId: 'party-a', payload, fields: ['$.a', '$.a.b'] },
+          { partyId: 'party-a', payload, fields: ['$.card.pan'] },
+          { partyId: 'party-a', payload: { a: { b: 1 } }, fields: ['$.a', '$.a.b'] }
+        ]
+      }
+    });
+    const results: { ok: boolean; code?: string }[] = response.json().results;
+
+    assert.equal(response.statusCode, 200);
+    assert.deepEqual(
+      results.map((result) => (result.ok ? 'ok' : result.code)),
+      ['invalid_field_selection', 'ok', 'invalid_field_selection']
+    );
+  });
+
+  for (const [name, fields, paths] of [
+    ['a path matching no encrypted field', ['$.card.pan'], ['$.nope']],
+    ['paths on a whole-payload record', undefined, ['$.card.pan']]
+  ] as const) {
+    it(`answers 400 to decrypt ${name}`, async () => {
+      const record = await encrypt(app, { payload, fields });
+      const response = await app.inject({
+        method: 'POST',
+        url: `/tx/${record.id}/decrypt`,
+        headers,
+        payload: { paths }
+      });
+
+      assert.equal(response.statusCode, 400);
+      assert.equal(response.json().code, 'invalid_field_selection');
+    });
+  }
+});
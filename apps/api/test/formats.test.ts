@@ -0,0 +1,63 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FastifyInstance } from 'fastify';
+import { parseRecord, parseRecordCompact } from '@mirfa/crypto';
+import { createTestApp, encrypt, headers } from './app.js';
+
+describe('record content negotiation', () => {
+  let app: FastifyInstance;
+  let record: Awaited<ReturnType<typeof encrypt>>;
+
+  before(async () => {
+    app = await createTestApp();
+    record = await encrypt(app);
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  function fetch(accept: string) {
+    return app.inject({ method: 'GET', url: `/tx/${record.id}`, headers: { ...headers, accept } });
+  }
+
+  it('answers hex JSON by default', async () => {
+    const response = await fetch('*/*');
+
+    assert.match(response.headers['content-type'] as string, /^application\/json/);
+    assert.deepEqual(response.json(), record);
+  });
+
+  it('answers the base64url envelope for application/vnd.mirfa.envelope+json', async () => {
+    const response = await fetch('application/vnd.mirfa.envelope+json');
+    const body = response.json();
+
+    assert.equal(body.id, record.id);
+    assert.deepEqual(parseRecordCompact(body.envelope), record);
+  });
+
+  it('answers the binary envelope for application/octet-stream', async () => {
+    const response = await fetch('text/html;q=0.9, application/octet-stream');
+
+    assert.equal(response.headers['content-type'], 'application/octet-stream');
+    assert.deepEqual(parseRecord(response.rawPayload), record);
+  });
+
+  it('negotiates the response of POST /tx/encrypt too', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/tx/encrypt',
+      headers: { ...headers, accept: 'application/octet-stream' },
+      payload: { partyId: 'party-a', payload: { amount: 1 } }
+    });
+
+    assert.equal(response.statusCode, 201);
+    assert.equal(parseRecord(response.rawPayload).partyId, 'party-a');
+  });
+
+  it('answers 406 when no representation is acceptable', async () => {
+    const response = await fetch('text/html');
+
+    assert.equal(response.statusCode, 406);
+  });
+});
@@ -0,0 +1,101 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FastifyInstance } from 'fastify';
+import { hashRequestBody } from '../src/routes/idempotency.js';
+import { adminHeaders, createTestApp, headers } from './app.js';
+
+describe('idempotent encryption', () => {
+  let app: FastifyInstance;
+
+  before(async () => {
+    app = await createTestApp();
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  function encrypt(key: string, payload: Record<string, unknown>, requestHeaders = headers) {
+    return app.inject({
+      method: 'POST',
+      url: '/tx/encrypt',
+      headers: { ...requestHeaders, 'idempotency-key': key },
+      payload
+    });
+  }
+
+  it('replays the original record for a retry', async () => {
+    const first = await encrypt('retry-1', { partyId: 'party-a', payload: { amount: 100 } });
+    const retry = await encrypt('retry-1', { payload: { amount: 100 }, partyId: 'party-a' });
+
+    assert.equal(first.statusCode, 201);
+    assert.equal(first.headers['idempotent-replayed'], undefined);
+    assert.equal(retry.statusCode, 201);
+    assert.equal(retry.headers['idempotent-replayed'], 'true');
+    assert.equal(retry.json().id, first.json().id);
+  });
+
+  it('creates one record for concurrent requests with the same key', async () => {
+    const body = { partyId: 'party-a', payload: { amount: 5 } };
+    const responses = await Promise.all([1, 2, 3].map(() => encrypt('concurrent', body)));
+    const ids = new Set(responses.map((response) => response.json().id));
+
+    assert.equal(ids.size, 1);
+  });
+
+  it('refuses a key reused for a different request', async () => {
+    await encrypt('reused', { partyId: 'party-a', payload: { amount: 100 } });
+    const response = await encrypt('reused', { partyId: 'party-a', payload: { amount: 999 } });
+
+    assert.equal(response.statusCode, 422);
+    assert.equal(response.json().code, 'idempotency_key_reused');
+  });
+
+  it('tells retries apart by passphrase', async () => {
+    const body = { partyId: 'party-a', payload: { amount: 100 } };
+    const passphrase = 'correct horse battery staple';
+
+    const first = await encrypt('passphrase', { ...body, passphrase });
+    const same = await encrypt('passphrase', { ...body, passphrase });
+    const other = await encrypt('passphrase', { ...body, passphrase: `${passphrase}!` });
+
+    assert.equal(same.json().id, first.json().id);
+    assert.equal(other.statusCode, 422);
+  });
+
+  it('scopes keys to the caller', async () => {
+    const body = { partyId: 'party-a', payload: { amount: 100 } };
+
+    const mine = await encrypt('shared', body);
+    const theirs = await encrypt('shared', body, adminHeaders);
+
+    assert.equal(theirs.statusCode, 201);
+    assert.notEqual(theirs.json().id, mine.json().id);
+  });
+
+  it('rejects malformed keys', async () => {
+    for (const key of ['has space', 'x'.repeat(256)]) {
+      const response = await encrypt(key, { partyId: 'party-a', payload: {} });
+
+      assert.equal(response.statusCode, 400);
+    }
+  });
+});
+
+describe('request hashes', () => {
+  it('ignore key order and absent fields', () => {
+    assert.equal(
+      hashRequestBody({ partyId: 'party-a', payload: { b: 1, a: [1, { d: 2, c: 3 }] } }),
+      hashRequestBody({ payload: { a: [1, { c: 3, d: 2 }], b: 1 }, partyId: 'party-a' })
+    );
+    assert.equal(
+      hashRequestBody({ partyId: 'party-a', passphrase: undefined }),
+      hashRequestBody({ partyId: 'party-a' })
+    );
+  });
+
+  it('differ for different values', () => {
+    assert.notEqual(hashRequestBody({ amount: 1 }), hashRequestBody({ amount: '1' }));
+    assert.notEqual(hashRequestBody([1, 2]), hashRequestBody([2, 1]));
+  });
+});
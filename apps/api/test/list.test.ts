@@ -0,0 +1,89 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FastifyInstance } from 'fastify';
+import { adminHeaders, createTestApp, encrypt, headers } from './app.js';
+
+describe('record listing', () => {
+  let app: FastifyInstance;
+  const created: string[] = [];
+
+  before(async () => {
+    app = await createTestApp();
+
+    for (let i = 0; i < 5; i++) {
+      created.push((await encrypt(app, { partyId: 'party-b', payload: { i } })).id);
+    }
+    await encrypt(app, { partyId: 'party-a' });
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  it('pages through a party\'s records with the cursor', async () => {
+    const seen: string[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const query: string = cursor ? `&cursor=${encodeURIComponent(cursor)}` : '';
+      const response = await app.inject({
+        method: 'GET',
+        url: `/parties/party-b/tx?limit=2${query}`,
+        headers
+      });
+      const page = response.json();
+
+      assert.equal(response.statusCode, 200);
+      assert.ok(page.records.length <= 2);
+      seen.push(...page.records.map((record: { id: string }) => record.id));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    assert.deepEqual(seen.sort(), [...created].sort());
+  });
+
+  it('returns summaries unless ciphertext is requested', async () => {
+    const summary = await app.inject({ method: 'GET', url: '/parties/party-b/tx?limit=1', headers });
+    const full = await app.inject({
+      method: 'GET',
+      url: '/parties/party-b/tx?limit=1&include=ciphertext',
+      headers
+    });
+
+    assert.equal(summary.json().records[0].payload_ct, undefined);
+    assert.equal(typeof full.json().records[0].payload_ct, 'string');
+  });
+
+  it('needs access to every party to list without a party filter', async () => {
+    const denied = await app.inject({ method: 'GET', url: '/tx', headers });
+    const allowed = await app.inject({ method: 'GET', url: '/tx', headers: adminHeaders });
+
+    assert.equal(denied.statusCode, 403);
+    assert.equal(allowed.json().records.length, 6);
+  });
+
+  it('refuses to list other parties', async () => {
+    const response = await app.inject({ method: 'GET', url: '/parties/party-c/tx', headers });
+
+    assert.equal(response.statusCode, 403);
+  });
+
+  for (const query of [
+    'limit=0',
+    'limit=201',
+    'createdFrom=yesterday',
+    'mk_version=0',
+    'cursor=nope',
+    'include=all'
+  ]) {
+    it(`answers 400 to ${query}`, async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/parties/party-b/tx?${query}`,
+        headers
+      });
+
+      assert.equal(response.statusCode, 400);
+    });
+  }
+});
@@ -0,0 +1,56 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FastifyInstance } from 'fastify';
+import { createTestApp, encrypt, headers } from './app.js';
+
+const PASSPHRASE = 'correct horse battery staple';
+
+describe('passphrase-protected records', () => {
+  let app: FastifyInstance;
+
+  before(async () => {
+    app = await createTestApp();
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  function decrypt(id: string, passphrase?: string) {
+    return app.inject({
+      method: 'POST',
+      url: `/tx/${id}/decrypt`,
+      headers,
+      payload: passphrase === undefined ? {} : { passphrase }
+    });
+  }
+
+  for (const doubleWrap of [false, true]) {
+    it(`decrypt only with the passphrase${doubleWrap ? ', double-wrapped' : ''}`, async () => {
+      const { id } = await encrypt(app, { passphrase: PASSPHRASE, doubleWrap });
+
+      const missing = await decrypt(id);
+      const wrong = await decrypt(id, 'wrong horse');
+      const right = await decrypt(id, PASSPHRASE);
+
+      assert.equal(missing.statusCode, 400);
+      assert.equal(missing.json().code, 'passphrase_required');
+      assert.equal(wrong.statusCode, 422);
+      assert.equal(wrong.json().code, 'authentication_failed');
+      assert.deepEqual(right.json().payload, { amount: 100 });
+    });
+  }
+
+  it('rejects malformed passphrase options', async () => {
+    for (const body of [{ passphrase: '' }, { doubleWrap: true }]) {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/tx/encrypt',
+        headers,
+        payload: { partyId: 'party-a', payload: {}, ...body }
+      });
+
+      assert.equal(response.statusCode, 400, JSON.stringify(body));
+    }
+  });
+});
@@ -0,0 +1,152 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FastifyInstance } from 'fastify';
+import {
+  RateLimitOptions,
+  createMemoryRateLimitStore,
+  loadRateLimitConfig
+} from '../src/plugins/rate-limit.js';
+import { adminHeaders, createTestApp, encrypt, headers } from './app.js';
+
+const PASSPHRASE = 'correct horse battery staple';
+const MINUTE_MS = 60_000;
+
+describe('decryption rate limits and lockouts', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  async function start(rateLimits: RateLimitOptions) {
+    app = await createTestApp({ rateLimits });
+  }
+
+  function decrypt(id: string, as = headers, body: Record<string, unknown> = {}) {
+    return app.inject({ method: 'POST', url: `/tx/${id}/decrypt`, headers: as, payload: body });
+  }
+
+  it('limits decryptions per caller', async () => {
+    await start({ caller: { limit: 2, intervalMs: MINUTE_MS } });
+    const { id } = await encrypt(app);
+
+    const allowed = [(await decrypt(id)).statusCode, (await decrypt(id)).statusCode];
+    const limited = await decrypt(id);
+    const other = await decrypt(id, adminHeaders);
+
+    assert.deepEqual(allowed, [200, 200]);
+    assert.equal(limited.statusCode, 429);
+    assert.equal(limited.json().code, 'rate_limited');
+    assert.ok(Number(limited.headers['retry-after']) > 0);
+    assert.equal(other.statusCode, 200);
+  });
+
+  it('limits decryptions per party', async () => {
+    await start({ party: { limit: 2, intervalMs: MINUTE_MS } });
+    const a = await encrypt(app);
+    const b = await encrypt(app, { partyId: 'party-b' });
+
+    await decrypt(a.id);
+    await decrypt(a.id, adminHeaders);
+    const limited = await decrypt(a.id, adminHeaders);
+    const other = await decrypt(b.id);
+
+    assert.equal(limited.statusCode, 429);
+    assert.equal(limited.json().detail, 'Party decryption rate limit exceeded');
+    assert.equal(other.statusCode, 200);
+  });
+
+  it('locks out the caller and the record after repeated authentication failures', async () => {
+    await start({ lockout: { maxFailures: 3, windowMs: MINUTE_MS, durationMs: MINUTE_MS } });
+    const target = await encrypt(app, { passphrase: PASSPHRASE });
+    const other = await encrypt(app);
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const failed = await decrypt(target.id, headers, { passphrase: 'wrong horse' });
+      assert.equal(failed.json().code, 'authentication_failed');
+    }
+
+    const caller = await decrypt(other.id);
+    const record = await decrypt(target.id, adminHeaders, { passphrase: PASSPHRASE });
+    const unrelated = await decrypt(other.id, adminHeaders);
+
+    assert.equal(caller.statusCode, 429);
+    assert.equal(caller.json().code, 'locked_out');
+    assert.ok(Number(caller.headers['retry-after']) > 50);
+    assert.equal(record.statusCode, 429);
+    assert.match(record.json().detail, /^Record is locked out/);
+    assert.equal(unrelated.statusCode, 200);
+  });
+
+  it('only counts authentication failures towards a lockout', async () => {
+    await start({ lockout: { maxFailures: 2, windowMs: MINUTE_MS, durationMs: MINUTE_MS } });
+    const { id } = await encrypt(app, { passphrase: PASSPHRASE });
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      assert.equal((await decrypt(id)).json().code, 'passphrase_required');
+    }
+
+    const response = await decrypt(id, headers, { passphrase: PASSPHRASE });
+    assert.equal(response.statusCode, 200);
+  });
+});
+
+describe('createMemoryRateLimitStore', () => {
+  it('refills buckets over time', async () => {
+    const store = createMemoryRateLimitStore();
+    const bucket = { limit: 2, intervalMs: 1000 };
+
+    assert.equal((await store.take('k', bucket, 1, 0)).remaining, 1);
+    assert.equal((await store.take('k', bucket, 1, 0)).remaining, 0);
+
+    const denied = await store.take('k', bucket, 1, 0);
+    assert.equal(denied.allowed, false);
+    assert.equal(denied.retryAfterMs, 500);
+
+    assert.equal((await store.take('k', bucket, 1, 500)).allowed, true);
+  });
+
+  it('keeps the later of two locks until it ends', async () => {
+    const store = createMemoryRateLimitStore();
+
+    await store.lock('k', 2000);
+    await store.lock('k', 1000);
+
+    assert.equal(await store.lockedUntil('k', 1500), 2000);
+    assert.equal(await store.lockedUntil('k', 2000), undefined);
+    assert.equal(await store.lockedUntil('other', 0), undefined);
+  });
+});
+
+describe('loadRateLimitConfig', () => {
+  it('applies defaults', () => {
+    assert.deepEqual(loadRateLimitConfig({}), {
+      caller: { limit: 600, intervalMs: MINUTE_MS },
+      party: { limit: 1200, intervalMs: MINUTE_MS },
+      lockout: { maxFailures: 5, windowMs: 5 * MINUTE_MS, durationMs: 15 * MINUTE_MS }
+    });
+  });
+
+  it('turns limits and lockouts off', () => {
+    assert.deepEqual(
+      loadRateLimitConfig({
+        RATE_LIMIT_CALLER: 'off',
+        RATE_LIMIT_PARTY: 'off',
+        LOCKOUT_MAX_FAILURES: '0'
+      }),
+      { caller: undefined, party: undefined, lockout: undefined }
+    );
+  });
+
+  it('rejects malformed settings', () => {
+    for (const env of [
+      { RATE_LIMIT_CALLER: '10' },
+      { RATE_LIMIT_PARTY: '0/60' },
+      { LOCKOUT_MAX_FAILURES: '-1' },
+      { LOCKOUT_WINDOW_SECONDS: '0' },
+      { LOCKOUT_SECONDS: 'soon' }
+    ]) {
+      assert.throws(() => loadRateLimitConfig(env), Error, JSON.stringify(env));
+    }
+  });
+});
@@ -0,0 +1,167 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { FastifyInstance } from 'fastify';
+import { TxSecureRecord } from '@mirfa/crypto';
+import { RecipientKey, encryptPayload } from '@mirfa/crypto/browser';
+import { parseSealedRecord } from '../src/routes/sealed.js';
+import { createTestApp, headers } from './app.js';
+
+const MINUTE_MS = 60_000;
+
+describe('sealed records', () => {
+  let app: FastifyInstance;
+  let dir: string;
+  let recipient: RecipientKey;
+  const env = { ...process.env };
+
+  before(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mirfa-sealed-'));
+    process.env.ECDH_KEYSTORE_PATH = path.join(dir, 'ecdh-keys.json');
+
+    const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const pem = privateKey.export({ type: 'pkcs8', format: 'pem' });
+    fs.writeFileSync(
+      process.env.ECDH_KEYSTORE_PATH,
+      JSON.stringify({ keyId: 'recipient', activeVersion: 1, keys: { 1: pem } })
+    );
+
+    app = await createTestApp({ retention: { defaultTtls: { 'party-b': 3600 } } });
+
+    const response = await app.inject({ method: 'GET', url: '/tx/recipient-key', headers });
+    recipient = response.json();
+  });
+
+  after(async () => {
+    await app.close();
+    process.env = env;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function store(record: unknown) {
+    return app.inject({ method: 'POST', url: '/tx/sealed', headers, payload: record as object });
+  }
+
+  function decrypt(id: string) {
+    return app.inject({ method: 'POST', url: `/tx/${id}/decrypt`, headers });
+  }
+
+  it('stores a browser-encrypted record that the API can decrypt', async () => {
+    const record = await encryptPayload('party-a', { amount: 100 }, { recipient });
+
+    const stored = await store(record);
+    const retried = await store(record);
+    const decrypted = await decrypt(record.id);
+
+    assert.equal(stored.statusCode, 201);
+    assert.equal(retried.statusCode, 200);
+    assert.equal(retried.headers['idempotent-replayed'], 'true');
+    assert.deepEqual(decrypted.json().payload, { amount: 100 });
+  });
+
+  it('refuses a different record under a taken id', async () => {
+    const record = await encryptPayload('party-a', { amount: 100 }, { recipient });
+    const other = await encryptPayload('party-a', { amount: 999 }, { recipient });
+
+    await store(record);
+    const response = await store({ ...other, id: record.id });
+
+    assert.equal(response.statusCode, 409);
+    assert.equal(response.json().code, 'record_exists');
+  });
+
+  it('stores but refuses to decrypt a tampered record', async () => {
+    const record = await encryptPayload('party-a', { amount: 100 }, { recipient });
+    // party-b's retention requires an expiry, so one is added too
+    const expiresAt = new Date(Date.now() + MINUTE_MS).toISOString();
+    const tampered = { ...record, partyId: 'party-b', expiresAt };
+
+    assert.equal((await store(tampered)).statusCode, 201);
+
+    const response = await decrypt(record.id);
+    assert.equal(response.json().code, 'authentication_failed');
+  });
+
+  it('refuses records created outside the allowed clock skew', async () => {
+    for (const offset of [-10 * MINUTE_MS, 10 * MINUTE_MS]) {
+      const record = await encryptPayload('party-a', { amount: 100 }, { recipient });
+      const createdAt = new Date(Date.now() + offset).toISOString();
+
+      const response = await store({ ...record, createdAt });
+
+      assert.equal(response.statusCode, 400, `offset ${offset}`);
+      assert.match(response.json().detail, /createdAt/);
+    }
+  });
+
+  it("requires an expiry within the party's retention", async () => {
+    const unlimited = await encryptPayload('party-b', {}, { recipient });
+    const tooLong = await encryptPayload('party-b', {}, {
+      recipient,
+      expiresAt: new Date(Date.now() + 120 * MINUTE_MS)
+    });
+    const allowed = await encryptPayload('party-b', {}, {
+      recipient,
+      expiresAt: new Date(Date.now() + 30 * MINUTE_MS)
+    });
+
+    assert.equal((await store(unlimited)).statusCode, 400);
+    assert.equal((await store(tooLong)).statusCode, 400);
+    assert.equal((await store(allowed)).statusCode, 201);
+  });
+});
+
+describe('parseSealedRecord', () => {
+  const now = new Date('2026-01-01T12:00:00Z');
+
+  function sealed(overrides: Partial<TxSecureRecord> = {}): TxSecureRecord {
+    return {
+      record_version: 3,
+      id: '6f1c2a52-0c55-4c5e-9a44-3b0f3c1e2d7a',
+      partyId: 'party-a',
+      createdAt: now.toISOString(),
+      payload_nonce: '00',
+      payload_ct: '00',
+      payload_tag: '00',
+      dek_wrap_nonce: '00',
+      dek_wrapped: '00',
+      dek_wrap_tag: '00',
+      mk_version: 1,
+      kms_provider: 'ecdh',
+      kms_key_id: 'recipient',
+      alg: 'AES-256-GCM',
+      ...overrides
+    };
+  }
+
+  it('keeps only whole-payload record fields', () => {
+    const record = parseSealedRecord({ ...sealed(), extra: true } as TxSecureRecord, {}, now);
+
+    assert.deepEqual(record, sealed());
+  });
+
+  it('accepts createdAt within five minutes either way', () => {
+    for (const offset of [-5 * MINUTE_MS, 5 * MINUTE_MS]) {
+      const createdAt = new Date(now.getTime() + offset).toISOString();
+
+      assert.doesNotThrow(() => parseSealedRecord(sealed({ createdAt }), {}, now));
+    }
+  });
+
+  it('rejects records that are not whole-payload ecdh records in the current format', () => {
+    for (const overrides of [
+      { id: 'not-a-uuid' },
+      { record_version: 2 },
+      { mode: 'fields' as const },
+      { kms_provider: 'env' },
+      { createdAt: 'yesterday' },
+      { createdAt: new Date(now.getTime() - 6 * MINUTE_MS).toISOString() },
+      { expiresAt: now.toISOString() }
+    ]) {
+      assert.throws(() => parseSealedRecord(sealed(overrides), {}, now), Error);
+    }
+  });
+});
@@ -0,0 +1,179 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { TxSecureRecord } from '@mirfa/crypto';
+import { StoreConfig, TxStore, createStore } from '../src/store/index.js';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mirfa-store-'));
+
+after(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function record(overrides: Partial<TxSecureRecord> = {}): TxSecureRecord {
+  return {
+    record_version: 3,
+    id: crypto.randomUUID(),
+    partyId: 'party-a',
+    createdAt: new Date().toISOString(),
+    payload_nonce: crypto.randomBytes(12).toString('hex'),
+    payload_ct: crypto.randomBytes(16).toString('hex'),
+    payload_tag: crypto.randomBytes(16).toString('hex'),
+    dek_wrap_nonce: crypto.randomBytes(12).toString('hex'),
+    dek_wrapped: crypto.randomBytes(32).toString('hex'),
+    dek_wrap_tag: crypto.randomBytes(16).toString('hex'),
+    alg: 'AES-256-GCM',
+    mk_version: 1,
+    ...overrides
+  };
+}
+
+function at(day: number): string {
+  return new Date(Date.UTC(2026, 0, day)).toISOString();
+}
+
+const configs: StoreConfig[] = [
+  { type: 'memory' },
+  { type: 'sqlite', path: path.join(dir, 'tx.sqlite') },
+  { type: 'jsonl', path: path.join(dir, 'tx.jsonl') }
+];
+
+for (const config of configs) {
+  describe(`${config.type} store`, () => {
+    let store: TxStore;
+
+    before(async () => {
+      store = await createStore(config);
+    });
+
+    after(async () => {
+      await store.close();
+    });
+
+    it('returns what was put, and replaces it on a second put', async () => {
+      const original = record();
+      await store.put(original);
+      assert.deepEqual(await store.get(original.id), original);
+
+      const rewrapped = { ...original, mk_version: 2 };
+      await store.put(rewrapped);
+      assert.deepEqual(await store.get(original.id), rewrapped);
+      assert.equal(await store.get(crypto.randomUUID()), undefined);
+    });
+
+    it('lists by party and creation time, in createdAt then id order', async () => {
+      const partyId = `party-${crypto.randomUUID()}`;
+      const records = [
+        record({ partyId, createdAt: at(3) }),
+        record({ partyId, createdAt: at(1) }),
+        record({ partyId, createdAt: at(2), alg: 'CHACHA20-POLY1305' }),
+        record({ createdAt: at(2) })
+      ];
+      for (const item of records) {
+        await store.put(item);
+      }
+
+      const listed = await store.list({ partyId });
+      assert.deepEqual(listed.map((item) => item.createdAt), [at(1), at(2), at(3)]);
+
+      const window = await store.list({ partyId, createdFrom: at(2), createdTo: at(3) });
+      assert.deepEqual(window.map((item) => item.id), [records[2]!.id]);
+
+      const chacha = await store.list({ partyId, alg: 'CHACHA20-POLY1305' });
+      assert.deepEqual(chacha.map((item) => item.id), [records[2]!.id]);
+
+      const page = await store.list({ partyId, after: listed[0]!, limit: 1 });
+      assert.deepEqual(page.map((item) => item.id), [listed[1]!.id]);
+    });
+
+    it('leaves a tombstone on delete and refuses to resurrect the record', async () => {
+      const deleted = record();
+      await store.put(deleted);
+
+      const tombstone = {
+        id: deleted.id,
+        partyId: deleted.partyId,
+        deletedAt: new Date().toISOString(),
+        reason: 'erasure_request'
+      };
+      await store.delete([tombstone]);
+
+      assert.equal(await store.get(deleted.id), undefined);
+      assert.deepEqual(await store.getTombstone(deleted.id), tombstone);
+      await assert.rejects(store.put(deleted), /has been deleted/);
+
+      for await (const item of store.scan()) {
+        assert.notEqual(item.id, deleted.id);
+      }
+    });
+
+    it('keeps idempotency entries until they expire', async () => {
+      const created = record();
+      const entry = {
+        key: `tester:${crypto.randomUUID()}`,
+        requestHash: 'a'.repeat(64),
+        recordId: created.id,
+        statusCode: 201,
+        expiresAt: at(10)
+      };
+      await store.put(created, entry);
+
+      assert.deepEqual(await store.getIdempotencyEntry(entry.key), entry);
+      assert.equal(await store.purgeIdempotencyEntries(at(9)), 0);
+      assert.ok((await store.purgeIdempotencyEntries(at(10))) >= 1);
+      assert.equal(await store.getIdempotencyEntry(entry.key), undefined);
+    });
+  });
+}
+
+for (const config of configs.filter((config) => config.type !== 'memory')) {
+  it(`${config.type} store keeps records and tombstones across a reopen`, async () => {
+    const file = { ...config, path: path.join(dir, `reopen-${path.basename(config.path!)}`) };
+    const kept = record();
+    const deleted = record();
+
+    const first = await createStore(file);
+    await first.put(kept);
+    await first.put(deleted);
+    await first.delete([
+      { id: deleted.id, partyId: deleted.partyId, deletedAt: at(1), reason: 'erasure_request' }
+    ]);
+    await first.close();
+
+    const second = await createStore(file);
+    assert.deepEqual(await second.get(kept.id), kept);
+    assert.equal(await second.get(deleted.id), undefined);
+    assert.ok(await second.getTombstone(deleted.id));
+    await second.close();
+  });
+}
+
+describe('jsonl store', () => {
+  it('drops shredded records from the file', async () => {
+    const file = path.join(dir, 'shred.jsonl');
+    const store = await createStore({ type: 'jsonl', path: file });
+    const deleted = record();
+
+    await store.put(deleted);
+    await store.delete([
+      { id: deleted.id, partyId: deleted.partyId, deletedAt: at(1), reason: 'erasure_request' }
+    ]);
+    await store.close();
+
+    assert.ok(!fs.readFileSync(file, 'utf8').includes(deleted.dek_wrapped));
+  });
+
+  it('stays writable after a failed append', async () => {
+    const store = await createStore({ type: 'jsonl', path: path.join(dir, 'failed.jsonl') });
+    const unserializable = { ...record(), extra: 1n } as unknown as TxSecureRecord;
+    const next = record();
+
+    await assert.rejects(store.put(unserializable), TypeError);
+    await store.put(next);
+    assert.deepEqual(await store.get(next.id), next);
+    await store.close();
+  });
+});
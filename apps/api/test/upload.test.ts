@@ -0,0 +1,62 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { FastifyInstance } from 'fastify';
+import { createMemoryBlobStore } from '../src/store/index.js';
+import { adminHeaders, createTestApp, encrypt, headers } from './app.js';
+
+describe('streamed uploads', () => {
+  let app: FastifyInstance;
+
+  before(async () => {
+    app = await createTestApp({ blobs: createMemoryBlobStore() });
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  function upload(content: Buffer, query: string, requestHeaders = headers) {
+    return app.inject({
+      method: 'POST',
+      url: `/tx/upload?${query}`,
+      headers: { ...requestHeaders, 'content-type': 'application/octet-stream' },
+      payload: content
+    });
+  }
+
+  it('encrypts an upload and streams it back decrypted', async () => {
+    const content = crypto.randomBytes(150_000);
+    const response = await upload(content, 'partyId=party-a&filename=scan.bin');
+    const record = response.json();
+
+    assert.equal(response.statusCode, 201);
+    assert.equal(record.mode, 'stream');
+
+    const download = await app.inject({ method: 'GET', url: `/tx/${record.id}/content`, headers });
+    assert.equal(download.statusCode, 200);
+    assert.equal(download.headers['content-type'], 'application/octet-stream');
+    assert.match(download.headers['content-disposition'] as string, /scan\.bin/);
+    assert.deepEqual(download.rawPayload, content);
+  });
+
+  it('refuses uploads for parties outside the caller\'s list', async () => {
+    const response = await upload(Buffer.from('x'), 'partyId=party-c');
+
+    assert.equal(response.statusCode, 403);
+  });
+
+  it('refuses to stream content of other parties', async () => {
+    const record = (await upload(Buffer.from('x'), 'partyId=party-c', adminHeaders)).json();
+    const response = await app.inject({ method: 'GET', url: `/tx/${record.id}/content`, headers });
+
+    assert.equal(response.statusCode, 403);
+  });
+
+  it('answers 400 for records without streamed content', async () => {
+    const record = await encrypt(app);
+    const response = await app.inject({ method: 'GET', url: `/tx/${record.id}/content`, headers });
+
+    assert.equal(response.statusCode, 400);
+  });
+});
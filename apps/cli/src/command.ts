@@ -0,0 +1,77 @@
+import { ParseArgsConfig, parseArgs } from 'node:util';
+
+/**
+ * A `mirfa` subcommand
+ */
+export interface Command {
+  /** Arguments as shown in help, e.g. `--party <id> [file]` */
+  usage: string;
+
+  /** One line on what the command does */
+  summary: string;
+
+  /**
+   * Runs the command
+   * @returns Process exit code
+   * @throws UsageError if the arguments are wrong
+   */
+  run(args: string[]): Promise<number>;
+}
+
+/**
+ * The command was called with the wrong arguments; reported together with
+ * its usage, with exit code 2
+ */
+export class UsageError extends Error {}
+
+type CommandOptions = NonNullable<ParseArgsConfig['options']>;
+
+type ParsedOptions<T extends CommandOptions> = ReturnType<
+  typeof parseArgs<{ args: string[]; options: T; allowPositionals: true; strict: true }>
+>['values'];
+
+/**
+ * Parses a command's arguments, allowing at most one positional (a file)
+ * @throws UsageError on unknown options, missing values or extra positionals
+ */
+export function parseCommandArgs<T extends CommandOptions>(
+  args: string[],
+  options: T
+): { values: ParsedOptions<T>; file?: string } {
+  let parsed;
+  try {
+    parsed = parseArgs({ args, options, allowPositionals: true, strict: true });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+
+  if (parsed.positionals.length > 1) {
+    throw new UsageError(`Unexpected argument '${parsed.positionals[1]}'`);
+  }
+
+  return { values: parsed.values, file: parsed.positionals[0] };
+}
+
+/**
+ * Parses a positive integer option
+ * @throws UsageError if the value is not one
+ */
+export function parsePositiveInteger(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new UsageError(`--${name} must be a positive integer`);
+  }
+
+  return number;
+}
+
+/**
+ * Splits a comma-separated list option
+ */
+export function parseList(value: string | undefined): string[] | undefined {
+  return value?.split(',').map((item) => item.trim()).filter((item) => item.length > 0);
+}
@@ -0,0 +1,76 @@
+import {
+  ENV_KEY_ID,
+  TxSecureRecord,
+  decryptPayload,
+  isExpired,
+  validateRecord
+} from '@mirfa/crypto';
+import { Command, parseCommandArgs } from '../command.js';
+import { parseRecordInput, readInput, readPassphrase } from '../io.js';
+
+/**
+ * Checks a record's structure as decryption would, without any keys, and
+ * prints its metadata
+ */
+export const inspect: Command = {
+  usage: '[file]',
+  summary: 'Check a record with validateRecord and print its metadata',
+
+  async run(args) {
+    const { file } = parseCommandArgs(args, {});
+    const record = parseRecordInput(await readInput(file));
+
+    validateRecord(record);
+
+    console.log(JSON.stringify(describeRecord(record), null, 2));
+    return 0;
+  }
+};
+
+/**
+ * Authenticates a record with the configured keys, discarding the plaintext
+ */
+export const verify: Command = {
+  usage: '[file] [--passphrase-env <VAR>]',
+  summary: 'Check that a record decrypts, without printing the payload',
+
+  async run(args) {
+    const { values, file } = parseCommandArgs(args, {
+      'passphrase-env': { type: 'string' }
+    });
+    const record = parseRecordInput(await readInput(file));
+
+    // Decrypting authenticates the payload, every field and the wrapped DEK
+    await decryptPayload(record, { passphrase: readPassphrase(values['passphrase-env']) });
+
+    console.log(`OK ${record.id}`);
+    return 0;
+  }
+};
+
+/**
+ * Record metadata, without ciphertext
+ */
+function describeRecord(record: TxSecureRecord) {
+  return {
+    id: record.id,
+    partyId: record.partyId,
+    createdAt: record.createdAt,
+    ...(record.expiresAt !== undefined && { expiresAt: record.expiresAt }),
+    expired: isExpired(record),
+    record_version: record.record_version ?? 1,
+    alg: record.alg,
+    mode: record.mode ?? 'payload',
+    ...(record.compression !== undefined && { compression: record.compression }),
+    key: {
+      provider: record.kms_provider ?? 'env',
+      keyId: record.kms_key_id ?? ENV_KEY_ID,
+      version: record.mk_version
+    },
+    ...(record.kdf !== undefined && { kdf: record.kdf }),
+    payloadBytes: record.payload_ct.length / 2,
+    ...(record.payload_fields !== undefined && {
+      encryptedFields: Object.keys(record.payload_fields)
+    })
+  };
+}
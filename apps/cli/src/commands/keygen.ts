@@ -0,0 +1,42 @@
+import crypto from 'node:crypto';
+import { createKeyring } from '@mirfa/crypto';
+import { Command, parseCommandArgs, parsePositiveInteger } from '../command.js';
+
+const KEY_BYTES = 32;
+
+/**
+ * Generates a master key in the form `MASTER_KEY` takes
+ */
+export const keygen: Command = {
+  usage: '[--version <n>] [--raw]',
+  summary: 'Generate a master key as MASTER_KEY env lines (or bare hex with --raw)',
+
+  async run(args) {
+    const { values } = parseCommandArgs(args, {
+      version: { type: 'string' },
+      raw: { type: 'boolean' }
+    });
+    const version = parsePositiveInteger(values.version, 'version') ?? 1;
+    const key = crypto.randomBytes(KEY_BYTES).toString('hex');
+
+    // Check the key the way the API will load it
+    createKeyring(version, { [version]: key });
+
+    if (values.raw) {
+      console.log(key);
+      return 0;
+    }
+
+    console.log(`MASTER_KEY=${key}`);
+    console.log(`MASTER_KEY_VERSION=${version}`);
+
+    if (version > 1) {
+      console.error(
+        "Keep the retiring key as MASTER_KEY_V<its version> until 'mirfa rewrap --all' has " +
+          'moved every record onto the new key'
+      );
+    }
+
+    return 0;
+  }
+};
@@ -0,0 +1,46 @@
+import { rewrapRecord } from '@mirfa/crypto';
+import { runRewrapJob } from '@mirfa/api';
+import { Command, UsageError, parseCommandArgs } from '../command.js';
+import { formatRecord, parseRecordFormat, parseRecordInput, readInput, writeOutput } from '../io.js';
+import { resolveStoreConfig, withStore } from '../store.js';
+
+/**
+ * Moves DEKs onto the active key: of one record, or with `--all`, of every
+ * record in the store, as `POST /tx/rewrap` does
+ */
+export const rewrap: Command = {
+  usage: '[file] [--format json|envelope|compact] [--out <file>] | --all [--store <type>:<path>]',
+  summary: 'Rewrap a record, or every stored record, under the active key',
+
+  async run(args) {
+    const { values, file } = parseCommandArgs(args, {
+      all: { type: 'boolean' },
+      store: { type: 'string' },
+      format: { type: 'string' },
+      out: { type: 'string', short: 'o' }
+    });
+
+    if (!values.all) {
+      if (values.store !== undefined) {
+        throw new UsageError('--store needs --all');
+      }
+
+      const format = parseRecordFormat(values.format);
+      const record = await rewrapRecord(parseRecordInput(await readInput(file)));
+
+      await writeOutput(formatRecord(record, format), values.out);
+      return 0;
+    }
+
+    if (file !== undefined || values.format !== undefined || values.out !== undefined) {
+      throw new UsageError('--all takes no file, --format or --out');
+    }
+
+    const result = await withStore(resolveStoreConfig(values.store), (store) =>
+      runRewrapJob(store)
+    );
+
+    console.log(JSON.stringify(result, null, 2));
+    return result.failed.length > 0 ? 1 : 0;
+  }
+};
@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+import 'dotenv/config';
+import { errorCodeOf } from '@mirfa/crypto';
+import { Command, UsageError } from './command.js';
+import { keygen } from './commands/keygen.js';
+import { decrypt, encrypt } from './commands/encrypt.js';
+import { inspect, verify } from './commands/inspect.js';
+import { rewrap } from './commands/rewrap.js';
+import { exportRecords, importRecords } from './commands/transfer.js';
+
+/**
+ * `mirfa`: operational CLI for records and keys
+ *
+ * Reads the same environment as the API (`MASTER_KEY*`, `KMS_*`,
+ * `TX_STORE*`, ...), including a `.env` file in the working directory.
+ * Exits 1 when a command fails and 2 on wrong arguments.
+ */
+const COMMANDS: Record<string, Command> = {
+  keygen,
+  encrypt,
+  decrypt,
+  inspect,
+  verify,
+  rewrap,
+  export: exportRecords,
+  import: importRecords
+};
+
+async function main([name, ...args]: string[]): Promise<number> {
+  if (name === undefined || name === 'help' || name === '--help' || name === '-h') {
+    printUsage(name === undefined ? console.error : console.log);
+    return name === undefined ? 2 : 0;
+  }
+
+  const command = COMMANDS[name];
+
+  if (!command) {
+    console.error(`Unknown command '${name}'`);
+    printUsage(console.error);
+    return 2;
+  }
+
+  try {
+    return await command.run(args);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\nUsage: mirfa ${name} ${command.usage}`);
+      return 2;
+    }
+
+    const code = errorCodeOf(error);
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`mirfa ${name} failed: ${code ? `[${code}] ` : ''}${message}`);
+    return 1;
+  }
+}
+
+function printUsage(print: (line: string) => void): void {
+  print('Usage: mirfa <command> [options]\n\nCommands:');
+
+  for (const [name, command] of Object.entries(COMMANDS)) {
+    print(`  ${name.padEnd(8)} ${command.summary}`);
+    print(`           mirfa ${name} ${command.usage}`);
+  }
+}
+
+process.exitCode = await main(process.argv.slice(2));
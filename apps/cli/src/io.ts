@@ -0,0 +1,146 @@
+import fs from 'node:fs';
+import readline from 'node:readline';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import {
+  ENVELOPE_MAGIC,
+  TxSecureRecord,
+  parseRecord,
+  parseRecordCompact,
+  serializeRecord,
+  serializeRecordCompact
+} from '@mirfa/crypto';
+import { UsageError } from './command.js';
+
+/**
+ * How records are written: JSON, the binary envelope, or the envelope as
+ * base64url
+ */
+export type RecordFormat = 'json' | 'envelope' | 'compact';
+
+const RECORD_FORMATS: readonly RecordFormat[] = ['json', 'envelope', 'compact'];
+
+/**
+ * Reads a file, or stdin when no file or `-` is given
+ */
+export async function readInput(file?: string): Promise<Buffer> {
+  if (file !== undefined && file !== '-') {
+    return fs.promises.readFile(file);
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Writes to a file, or stdout when no file or `-` is given
+ */
+export async function writeOutput(data: string | Buffer, file?: string): Promise<void> {
+  if (file !== undefined && file !== '-') {
+    await fs.promises.writeFile(file, data);
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) =>
+    process.stdout.write(data, (error) => (error ? reject(error) : resolve()))
+  );
+}
+
+/**
+ * Iterates over the lines of a file, or of stdin when no file or `-` is given
+ */
+export function readLines(file?: string): AsyncIterable<string> {
+  const input = file !== undefined && file !== '-' ? fs.createReadStream(file) : process.stdin;
+  return readline.createInterface({ input, crlfDelay: Infinity });
+}
+
+/**
+ * Streams text to a file, or stdout when no file or `-` is given
+ */
+export async function writeOutputStream(chunks: AsyncIterable<string>, file?: string): Promise<void> {
+  if (file !== undefined && file !== '-') {
+    await pipeline(Readable.from(chunks), fs.createWriteStream(file));
+    return;
+  }
+
+  await pipeline(Readable.from(chunks), process.stdout, { end: false });
+}
+
+/**
+ * Parses a record in any of the formats `formatRecord` writes
+ * @throws InvalidRecordError if an envelope is malformed
+ * @throws Error if the input is not a record at all
+ */
+export function parseRecordInput(input: Buffer): TxSecureRecord {
+  if (input.subarray(0, ENVELOPE_MAGIC.length).equals(ENVELOPE_MAGIC)) {
+    return parseRecord(input);
+  }
+
+  const text = input.toString('utf8').trim();
+
+  if (!text.startsWith('{')) {
+    return parseRecordCompact(text);
+  }
+
+  let record: unknown;
+  try {
+    record = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Input is not valid JSON: ${(error as Error).message}`);
+  }
+
+  if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+    throw new Error('Input is not a record');
+  }
+
+  return record as TxSecureRecord;
+}
+
+/**
+ * Encodes a record for output
+ */
+export function formatRecord(record: TxSecureRecord, format: RecordFormat): string | Buffer {
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(record, null, 2)}\n`;
+    case 'envelope':
+      return serializeRecord(record);
+    case 'compact':
+      return `${serializeRecordCompact(record)}\n`;
+  }
+}
+
+/**
+ * Parses a `--format` option (defaults to `json`)
+ * @throws UsageError if the format is unknown
+ */
+export function parseRecordFormat(value: string | undefined): RecordFormat {
+  const format = value ?? 'json';
+
+  if (!RECORD_FORMATS.includes(format as RecordFormat)) {
+    throw new UsageError(`--format must be one of: ${RECORD_FORMATS.join(', ')}`);
+  }
+
+  return format as RecordFormat;
+}
+
+/**
+ * Reads a passphrase from the environment variable named by `--passphrase-env`,
+ * so that it never appears in the process list or shell history
+ * @throws UsageError if the variable is not set
+ */
+export function readPassphrase(variable: string | undefined): string | undefined {
+  if (variable === undefined) {
+    return undefined;
+  }
+
+  const passphrase = process.env[variable];
+  if (!passphrase) {
+    throw new UsageError(`--passphrase-env names ${variable}, which is not set`);
+  }
+
+  return passphrase;
+}
@@ -0,0 +1,51 @@
+import { StoreConfig, TxStore, createStore, loadStoreConfig } from '@mirfa/api';
+import { UsageError } from './command.js';
+
+/**
+ * Works out which record store to open: the `--store` option, given as
+ * `sqlite:<path>` or `jsonl:<path>`, or else `TX_STORE` and
+ * `TX_STORE_PATH` like the API
+ *
+ * @throws UsageError if the store is unknown or not persistent
+ */
+export function resolveStoreConfig(spec?: string): StoreConfig {
+  let config: StoreConfig;
+
+  try {
+    if (spec === undefined) {
+      config = loadStoreConfig();
+    } else {
+      const [type, ...path] = spec.split(':');
+      config = loadStoreConfig({
+        TX_STORE: type,
+        ...(path.length > 0 && { TX_STORE_PATH: path.join(':') })
+      });
+    }
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+
+  if (config.type === 'memory') {
+    throw new UsageError(
+      'The memory store does not persist; set TX_STORE or pass --store sqlite:<path> or jsonl:<path>'
+    );
+  }
+
+  return config;
+}
+
+/**
+ * Opens a record store for the duration of `fn`
+ */
+export async function withStore<T>(
+  config: StoreConfig,
+  fn: (store: TxStore) => Promise<T>
+): Promise<T> {
+  const store = await createStore(config);
+
+  try {
+    return await fn(store);
+  } finally {
+    await store.close();
+  }
+}
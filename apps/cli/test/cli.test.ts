@@ -0,0 +1,171 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const CLI = fileURLToPath(new URL('../src/index.ts', import.meta.url));
+const TSX = import.meta.resolve('tsx');
+const MASTER_KEY = crypto.randomBytes(32).toString('hex');
+
+type Result = { code: number | null; stdout: string; stderr: string };
+
+let dir: string;
+
+/**
+ * Runs `mirfa` in a temporary directory, so no `.env` is picked up
+ */
+function mirfa(
+  args: string[],
+  { input, env = {} }: { input?: string; env?: Record<string, string> } = {}
+): Promise<Result> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, ['--import', TSX, CLI, ...args], {
+      cwd: dir,
+      env: { PATH: process.env.PATH, MASTER_KEY, ...env }
+    });
+    let stdout = '';
+    let stderr = '';
+
+    child.stdout.on('data', (chunk) => (stdout += chunk));
+    child.stderr.on('data', (chunk) => (stderr += chunk));
+    child.on('error', reject);
+    child.on('close', (code) => resolve({ code, stdout, stderr }));
+    child.stdin.end(input ?? '');
+  });
+}
+
+function file(name: string): string {
+  return path.join(dir, name);
+}
+
+describe('mirfa', () => {
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mirfa-cli-'));
+    fs.writeFileSync(file('payload.json'), JSON.stringify({ amount: 100, note: 'hi' }));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('decrypts what it encrypts in every format', async () => {
+    for (const format of ['json', 'envelope', 'compact']) {
+      const out = file(`record.${format}`);
+      const encrypted = await mirfa([
+        'encrypt',
+        '--party',
+        'party-a',
+        'payload.json',
+        '--format',
+        format,
+        '--out',
+        out
+      ]);
+      assert.equal(encrypted.code, 0, encrypted.stderr);
+
+      const decrypted = await mirfa(['decrypt', out]);
+      assert.equal(decrypted.code, 0, decrypted.stderr);
+      assert.deepEqual(JSON.parse(decrypted.stdout), { amount: 100, note: 'hi' }, format);
+    }
+  });
+
+  it('reads stdin and keeps passphrases out of the arguments', async () => {
+    const env = { SECRET: 'correct horse' };
+    const encrypted = await mirfa(['encrypt', '-p', 'party-a', '--passphrase-env', 'SECRET'], {
+      input: '{"amount":5}',
+      env
+    });
+    assert.equal(encrypted.code, 0, encrypted.stderr);
+
+    const locked = await mirfa(['decrypt'], { input: encrypted.stdout });
+    assert.equal(locked.code, 1);
+    assert.match(locked.stderr, /\[passphrase_required\]/);
+
+    const decrypted = await mirfa(['decrypt', '--passphrase-env', 'SECRET'], {
+      input: encrypted.stdout,
+      env
+    });
+    assert.deepEqual(JSON.parse(decrypted.stdout), { amount: 5 });
+  });
+
+  it('verifies records and rejects tampered ones', async () => {
+    const record = JSON.parse(fs.readFileSync(file('record.json'), 'utf8'));
+
+    const verified = await mirfa(['verify', file('record.json')]);
+    assert.equal(verified.code, 0);
+    assert.equal(verified.stdout.trim(), `OK ${record.id}`);
+
+    const inspected = await mirfa(['inspect', file('record.json')]);
+    assert.equal(inspected.code, 0);
+    assert.equal(JSON.parse(inspected.stdout).partyId, 'party-a');
+    assert.doesNotMatch(inspected.stdout, new RegExp(record.payload_ct));
+
+    const tampered = await mirfa(['verify'], {
+      input: JSON.stringify({ ...record, partyId: 'party-b' })
+    });
+    assert.equal(tampered.code, 1);
+    assert.match(tampered.stderr, /^mirfa verify failed: \[authentication_failed\]/);
+  });
+
+  it('fails under another master key', async () => {
+    const result = await mirfa(['decrypt', file('record.json')], {
+      env: { MASTER_KEY: crypto.randomBytes(32).toString('hex') }
+    });
+
+    assert.equal(result.code, 1);
+    assert.match(result.stderr, /\[authentication_failed\]/);
+  });
+
+  it('exits 2 on usage errors', async () => {
+    for (const args of [
+      [],
+      ['unknown'],
+      ['encrypt', 'payload.json'],
+      ['encrypt', '-p', 'party-a', '--format', 'xml', 'payload.json'],
+      ['keygen', '--version', '0'],
+      ['export']
+    ]) {
+      const result = await mirfa(args);
+
+      assert.equal(result.code, 2, args.join(' '));
+      assert.match(result.stderr, /Usage: mirfa/);
+    }
+  });
+
+  it('generates master keys', async () => {
+    const lines = (await mirfa(['keygen', '--version', '2'])).stdout.trim().split('\n');
+    const raw = (await mirfa(['keygen', '--raw'])).stdout.trim();
+
+    assert.match(lines[0]!, /^MASTER_KEY=[0-9a-f]{64}$/);
+    assert.equal(lines[1], 'MASTER_KEY_VERSION=2');
+    assert.match(raw, /^[0-9a-f]{64}$/);
+  });
+
+  it('imports records into a store and exports them again', async () => {
+    const record = fs.readFileSync(file('record.json'), 'utf8');
+    const lines = `${JSON.stringify(JSON.parse(record))}\n\nnot a record\n`;
+    const store = `jsonl:${file('store.jsonl')}`;
+
+    const imported = await mirfa(['import', '--store', store], { input: lines });
+    assert.equal(imported.code, 1);
+    assert.equal(JSON.parse(imported.stdout).imported, 1);
+    assert.equal(JSON.parse(imported.stdout).invalid.length, 1);
+    assert.match(JSON.parse(imported.stdout).invalid[0], /^line 3: /);
+
+    const exported = await mirfa(['export', '--store', store, '--party', 'party-a']);
+    assert.equal(exported.code, 0);
+    assert.deepEqual(JSON.parse(exported.stdout), JSON.parse(record));
+
+    const again = await mirfa(['import', '--store', store], { input: exported.stdout });
+    assert.equal(again.code, 0);
+    assert.deepEqual(JSON.parse(again.stdout), { imported: 0, skipped: 1, invalid: [] });
+
+    const none = await mirfa(['export', '--store', store, '--party', 'party-b']);
+    assert.equal(none.stdout, '');
+    assert.match(none.stderr, /Exported 0 records/);
+  });
+});
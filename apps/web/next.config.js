@@ -1,6 +1,6 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  transpilePackages: ['@mirfa/crypto'],
+  transpilePackages: ['@mirfa/client', '@mirfa/crypto'],
 };
 
 module.exports = nextConfig;
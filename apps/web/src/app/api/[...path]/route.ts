@@ -0,0 +1,57 @@
+/**
+ * Forwards the page's API calls to the Mirfa API with the server's API key
+ *
+ * The key is read from `API_KEY` on the server only, so it never reaches
+ * the browser bundle. Only `/tx` routes are forwarded.
+ */
+
+const API_URL = (process.env.API_URL || 'http://localhost:3001').replace(/\/+$/, '');
+
+/** Request headers passed through to the API */
+const FORWARDED_REQUEST_HEADERS = ['accept', 'content-type', 'idempotency-key'];
+
+/** Response headers passed back to the browser */
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'retry-after', 'idempotent-replayed'];
+
+type Context = { params: { path: string[] } };
+
+async function forward(request: Request, { params }: Context): Promise<Response> {
+  if (params.path[0] !== 'tx') {
+    return Response.json({ title: 'Not Found', status: 404 }, { status: 404 });
+  }
+
+  const path = params.path.map(encodeURIComponent).join('/');
+  const { search } = new URL(request.url);
+  const headers = new Headers();
+
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = request.headers.get(name);
+    if (value !== null) {
+      headers.set(name, value);
+    }
+  }
+
+  if (process.env.API_KEY) {
+    headers.set('x-api-key', process.env.API_KEY);
+  }
+
+  const response = await fetch(`${API_URL}/${path}${search}`, {
+    method: request.method,
+    headers,
+    body: request.method === 'GET' ? undefined : await request.arrayBuffer(),
+    cache: 'no-store',
+  });
+
+  const responseHeaders = new Headers();
+
+  for (const name of FORWARDED_RESPONSE_HEADERS) {
+    const value = response.headers.get(name);
+    if (value !== null) {
+      responseHeaders.set(name, value);
+    }
+  }
+
+  return new Response(response.body, { status: response.status, headers: responseHeaders });
+}
+
+export { forward as GET, forward as POST, forward as DELETE };
@@ -1,18 +1,25 @@
 'use client';
 
 import { useState } from 'react';
-import { TxSecureRecord } from '@mirfa/crypto';
+import { MirfaClient, TxRecordSummary, TxSecureRecord } from '@mirfa/client';
+import { BROWSER_ALGORITHM, encryptPayload } from '@mirfa/crypto/browser';
+
+// Calls go through the app's own route handler, which adds the API key on the server
+const client = new MirfaClient({ baseUrl: '/api' });
 
 export default function HomePage() {
   const [partyId, setPartyId] = useState('');
   const [jsonPayload, setJsonPayload] = useState('');
-  const [recordId, setRecordId] = useState('');
+  const [alg, setAlg] = useState<TxSecureRecord['alg']>('AES-256-GCM');
+  const [ttlSeconds, setTtlSeconds] = useState('');
+  const [endToEnd, setEndToEnd] = useState(false);
+  const [partyFilter, setPartyFilter] = useState('');
+  const [records, setRecords] = useState<TxRecordSummary[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [encryptedRecord, setEncryptedRecord] = useState<TxSecureRecord | null>(null);
   const [decryptedPayload, setDecryptedPayload] = useState<unknown>(null);
   const [error, setError] = useState('');
 
-  const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
-
   const handleEncryptAndSave = async () => {
     setError('');
     setEncryptedRecord(null);
@@ -36,74 +43,77 @@ export default function HomePage() {
       return;
     }
 
-    try {
-      const response = await fetch(`${API_URL}/tx/encrypt`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ partyId, payload }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Encryption failed');
-      }
+    const ttl = ttlSeconds.trim() ? Number(ttlSeconds) : undefined;
+    if (ttl !== undefined && !(Number.isInteger(ttl) && ttl > 0)) {
+      setError('TTL must be a positive number of seconds');
+      return;
+    }
 
-      const record: TxSecureRecord = await response.json();
+    try {
+      // End-to-end: encrypt here and hand the API a finished record
+      const record = endToEnd
+        ? await client.storeSealed(
+            await encryptPayload(partyId, payload, {
+              recipient: await client.recipientKey(),
+              expiresAt: ttl === undefined ? undefined : new Date(Date.now() + ttl * 1000),
+            })
+          )
+        : await client.encrypt({ partyId, payload, alg, ttlSeconds: ttl });
       setEncryptedRecord(record);
-      setRecordId(record.id);
+      setRecords((current) => [record, ...current]);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to encrypt payload');
     }
   };
 
-  const handleFetchById = async () => {
+  const handleLoadRecords = async (cursor: string | null = null) => {
     setError('');
-    setEncryptedRecord(null);
-    setDecryptedPayload(null);
-
-    if (!recordId.trim()) {
-      setError('Record ID is required');
-      return;
-    }
 
     try {
-      const response = await fetch(`${API_URL}/tx/${recordId}`);
+      const data = await client.list({
+        partyId: partyFilter.trim() || undefined,
+        cursor: cursor ?? undefined,
+      });
+      setRecords((current) => (cursor ? [...current, ...data.records] : data.records));
+      setNextCursor(data.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to list records');
+    }
+  };
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to fetch record');
-      }
+  const handleFetchById = async (recordId: string) => {
+    setError('');
+    setEncryptedRecord(null);
+    setDecryptedPayload(null);
 
-      const record: TxSecureRecord = await response.json();
-      setEncryptedRecord(record);
+    try {
+      setEncryptedRecord(await client.get(recordId));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch record');
     }
   };
 
-  const handleDecrypt = async () => {
+  const handleDecrypt = async (recordId: string) => {
     setError('');
     setDecryptedPayload(null);
 
-    if (!recordId.trim()) {
-      setError('Record ID is required');
-      return;
-    }
-
     try {
-      const response = await fetch(`${API_URL}/tx/${recordId}/decrypt`, {
-        method: 'POST',
-      });
+      setDecryptedPayload(await client.decrypt(recordId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to decrypt payload');
+    }
+  };
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Decryption failed');
-      }
+  const handleDelete = async (recordId: string) => {
+    setError('');
 
-      const data = await response.json();
-      setDecryptedPayload(data.payload);
+    try {
+      await client.delete(recordId);
+      setRecords((current) => current.filter((record) => record.id !== recordId));
+      setEncryptedRecord((current) => (current?.id === recordId ? null : current));
+      setDecryptedPayload(null);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to decrypt payload');
+      setError(err instanceof Error ? err.message : 'Failed to delete record');
     }
   };
 
@@ -172,6 +182,59 @@ export default function HomePage() {
           />
         </div>
 
+        <div style={{ marginBottom: '15px' }}>
+          <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold' }}>
+            Algorithm
+          </label>
+          <select
+            value={endToEnd ? BROWSER_ALGORITHM : alg}
+            onChange={(e) => setAlg(e.target.value as TxSecureRecord['alg'])}
+            disabled={endToEnd}
+            style={{
+              padding: '10px',
+              fontSize: '14px',
+              border: '1px solid #ccc',
+              borderRadius: '4px',
+            }}
+          >
+            <option value="AES-256-GCM">AES-256-GCM</option>
+            <option value="CHACHA20-POLY1305">ChaCha20-Poly1305</option>
+          </select>
+        </div>
+
+        <div style={{ marginBottom: '15px' }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontWeight: 'bold' }}>
+            <input
+              type="checkbox"
+              checked={endToEnd}
+              onChange={(e) => setEndToEnd(e.target.checked)}
+            />
+            Encrypt in the browser (end-to-end)
+          </label>
+          <div style={{ marginTop: '5px', fontSize: '13px', color: '#666' }}>
+            The payload is encrypted before it is sent; the API only ever receives ciphertext.
+          </div>
+        </div>
+
+        <div style={{ marginBottom: '15px' }}>
+          <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold' }}>
+            TTL (seconds)
+          </label>
+          <input
+            type="number"
+            min={1}
+            value={ttlSeconds}
+            onChange={(e) => setTtlSeconds(e.target.value)}
+            placeholder="Party default"
+            style={{
+              padding: '10px',
+              fontSize: '14px',
+              border: '1px solid #ccc',
+              borderRadius: '4px',
+            }}
+          />
+        </div>
+
         <button
           onClick={handleEncryptAndSave}
           style={{
@@ -190,19 +253,16 @@ export default function HomePage() {
       </div>
 
       <div style={{ marginBottom: '30px', borderTop: '2px solid #eee', paddingTop: '30px' }}>
-        <h2 style={{ fontSize: '20px', marginBottom: '15px' }}>Fetch & Decrypt</h2>
-        
-        <div style={{ marginBottom: '15px' }}>
-          <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold' }}>
-            Record ID
-          </label>
+        <h2 style={{ fontSize: '20px', marginBottom: '15px' }}>Records</h2>
+
+        <div style={{ display: 'flex', gap: '10px', marginBottom: '15px' }}>
           <input
             type="text"
-            value={recordId}
-            onChange={(e) => setRecordId(e.target.value)}
-            placeholder="Enter record ID"
+            value={partyFilter}
+            onChange={(e) => setPartyFilter(e.target.value)}
+            placeholder="Filter by party ID"
             style={{
-              width: '100%',
+              flex: 1,
               padding: '10px',
               fontSize: '14px',
               border: '1px solid #ccc',
@@ -210,15 +270,13 @@ export default function HomePage() {
               boxSizing: 'border-box',
             }}
           />
-        </div>
 
-        <div style={{ display: 'flex', gap: '10px' }}>
           <button
-            onClick={handleFetchById}
+            onClick={() => handleLoadRecords()}
             style={{
               padding: '12px 24px',
               fontSize: '16px',
-              backgroundColor: '#10b981',
+              backgroundColor: '#0070f3',
               color: 'white',
               border: 'none',
               borderRadius: '4px',
@@ -226,25 +284,107 @@ export default function HomePage() {
               fontWeight: 'bold',
             }}
           >
-            Fetch by ID
+            Load
           </button>
+        </div>
+
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
+          <thead>
+            <tr style={{ textAlign: 'left', borderBottom: '2px solid #eee' }}>
+              <th style={{ padding: '8px' }}>Created</th>
+              <th style={{ padding: '8px' }}>Party</th>
+              <th style={{ padding: '8px' }}>Record ID</th>
+              <th style={{ padding: '8px' }}>Algorithm</th>
+              <th style={{ padding: '8px' }}>Key</th>
+              <th style={{ padding: '8px' }}>Expires</th>
+              <th style={{ padding: '8px' }} />
+            </tr>
+          </thead>
+          <tbody>
+            {records.map((record) => (
+              <tr key={record.id} style={{ borderBottom: '1px solid #eee' }}>
+                <td style={{ padding: '8px' }}>{new Date(record.createdAt).toLocaleString()}</td>
+                <td style={{ padding: '8px' }}>{record.partyId}</td>
+                <td style={{ padding: '8px', fontFamily: 'monospace', fontSize: '12px' }}>
+                  {record.id}
+                </td>
+                <td style={{ padding: '8px' }}>{record.alg}</td>
+                <td style={{ padding: '8px' }}>v{record.mk_version}</td>
+                <td style={{ padding: '8px' }}>
+                  {record.expiresAt ? new Date(record.expiresAt).toLocaleString() : '–'}
+                </td>
+                <td style={{ padding: '8px', whiteSpace: 'nowrap' }}>
+                  <button
+                    onClick={() => handleFetchById(record.id)}
+                    style={{
+                      padding: '6px 12px',
+                      marginRight: '6px',
+                      backgroundColor: '#10b981',
+                      color: 'white',
+                      border: 'none',
+                      borderRadius: '4px',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    View
+                  </button>
+                  <button
+                    onClick={() => handleDecrypt(record.id)}
+                    style={{
+                      padding: '6px 12px',
+                      marginRight: '6px',
+                      backgroundColor: '#f59e0b',
+                      color: 'white',
+                      border: 'none',
+                      borderRadius: '4px',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    Decrypt
+                  </button>
+                  <button
+                    onClick={() => handleDelete(record.id)}
+                    style={{
+                      padding: '6px 12px',
+                      backgroundColor: '#dc2626',
+                      color: 'white',
+                      border: 'none',
+                      borderRadius: '4px',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {records.length === 0 && (
+              <tr>
+                <td colSpan={6} style={{ padding: '8px', color: '#666' }}>
+                  No records loaded
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
 
+        {nextCursor && (
           <button
-            onClick={handleDecrypt}
+            onClick={() => handleLoadRecords(nextCursor)}
             style={{
-              padding: '12px 24px',
-              fontSize: '16px',
-              backgroundColor: '#f59e0b',
-              color: 'white',
-              border: 'none',
+              marginTop: '15px',
+              padding: '10px 20px',
+              fontSize: '14px',
+              backgroundColor: 'white',
+              color: '#0070f3',
+              border: '1px solid #0070f3',
               borderRadius: '4px',
               cursor: 'pointer',
-              fontWeight: 'bold',
             }}
           >
-            Decrypt
+            Load more
           </button>
-        </div>
+        )}
       </div>
 
       {encryptedRecord && (
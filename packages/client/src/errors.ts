@@ -0,0 +1,55 @@
+import type { Problem } from './types.js';
+
+/**
+ * The API answered with an error status
+ *
+ * Match on `code`, which is stable, rather than on the message.
+ */
+export class MirfaApiError extends Error {
+  /** HTTP status */
+  readonly status: number;
+
+  /** Stable machine-readable error code, e.g. `not_found` */
+  readonly code: string;
+
+  /** The full error body, including extensions such as `expiresAt` */
+  readonly problem: Problem;
+
+  constructor(problem: Problem) {
+    super(problem.detail);
+    this.name = 'MirfaApiError';
+    this.status = problem.status;
+    this.code = problem.code;
+    this.problem = problem;
+  }
+
+  /**
+   * Reads the error from a failed response, tolerating bodies that are not
+   * problem+json, e.g. from a proxy
+   */
+  static async fromResponse(response: Response): Promise<MirfaApiError> {
+    const body = await response.json().catch(() => undefined);
+
+    if (isProblem(body)) {
+      return new MirfaApiError(body);
+    }
+
+    return new MirfaApiError({
+      type: 'about:blank',
+      title: response.statusText,
+      status: response.status,
+      detail: `Request failed with status ${response.status}`,
+      code: 'http_error'
+    });
+  }
+}
+
+function isProblem(body: unknown): body is Problem {
+  return (
+    typeof body === 'object' &&
+    body !== null &&
+    typeof (body as Problem).status === 'number' &&
+    typeof (body as Problem).code === 'string' &&
+    typeof (body as Problem).detail === 'string'
+  );
+}
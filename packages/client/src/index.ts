@@ -0,0 +1,391 @@
+import { MirfaApiError } from './errors.js';
+import type {
+  BatchDecryptItem,
+  BatchDecryptResult,
+  BatchEncryptResult,
+  EncryptRequest,
+  ExportQuery,
+  ImportResult,
+  ListQuery,
+  ListResult,
+  RecipientKey,
+  RecordBundle,
+  Tombstone,
+  TxRecordSummary,
+  TxSecureRecord
+} from './types.js';
+
+export { MirfaApiError } from './errors.js';
+export type * from './types.js';
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 250;
+
+/** Statuses worth retrying: the request was not processed, or may succeed later */
+const RETRYABLE_STATUSES = new Set([408, 429, 502, 503, 504]);
+
+/** 429s that last too long to wait out: lockouts after repeated authentication failures */
+const NON_RETRYABLE_CODES = new Set(['locked_out']);
+
+export type MirfaClientOptions = {
+  /** API base URL, e.g. `http://localhost:3001` */
+  baseUrl: string;
+
+  /** API key, sent as `X-API-Key` */
+  apiKey?: string;
+
+  /** JWT, sent as a bearer token */
+  token?: string;
+
+  /** Time limit of each attempt in milliseconds (default 30000) */
+  timeoutMs?: number;
+
+  /** Retries of a failed request that is safe to repeat (default 2) */
+  maxRetries?: number;
+
+  /** Delay before the first retry in milliseconds, doubling after each (default 250) */
+  retryDelayMs?: number;
+
+  /** `fetch` implementation (defaults to the global one) */
+  fetch?: typeof fetch;
+};
+
+export type RequestOptions = {
+  /** Aborts the request, including any pending retry */
+  signal?: AbortSignal;
+
+  /** Overrides the client's per-attempt timeout */
+  timeoutMs?: number;
+};
+
+export type EncryptOptions = RequestOptions & {
+  /** Key that makes retries safe; one is generated if not given */
+  idempotencyKey?: string;
+};
+
+type Request = RequestOptions & {
+  method: 'GET' | 'POST' | 'DELETE';
+  path: string;
+  query?: URLSearchParams;
+  body?: unknown;
+  headers?: Record<string, string>;
+
+  /** Whether the request may be repeated if it fails */
+  retry: boolean;
+};
+
+/**
+ * Typed client for the Mirfa API
+ *
+ * Failed requests that are safe to repeat are retried with exponential
+ * backoff, honouring `Retry-After`; encryption is made safe to repeat with an
+ * `Idempotency-Key`. Error responses are thrown as `MirfaApiError`; a timed
+ * out attempt that can't be retried rejects with a `TimeoutError`.
+ */
+export class MirfaClient {
+  private readonly baseUrl: string;
+  private readonly options: MirfaClientOptions;
+
+  constructor(options: MirfaClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.options = options;
+  }
+
+  /**
+   * Encrypts and stores a payload
+   * @returns The new record
+   */
+  encrypt(request: EncryptRequest, options: EncryptOptions = {}): Promise<TxSecureRecord> {
+    const { idempotencyKey = globalThis.crypto.randomUUID(), ...rest } = options;
+
+    return this.request({
+      ...rest,
+      method: 'POST',
+      path: '/tx/encrypt',
+      body: request,
+      headers: { 'Idempotency-Key': idempotencyKey },
+      retry: true
+    });
+  }
+
+  /**
+   * Fetches the public key to wrap DEKs of client-encrypted records to
+   */
+  recipientKey(options: RequestOptions = {}): Promise<RecipientKey> {
+    return this.request({ ...options, method: 'GET', path: '/tx/recipient-key', retry: true });
+  }
+
+  /**
+   * Stores a record encrypted by the caller, e.g. with `@mirfa/crypto/browser`
+   *
+   * Safe to retry: resubmitting an identical record returns the stored one.
+   *
+   * @returns The stored record
+   */
+  storeSealed(record: TxSecureRecord, options: RequestOptions = {}): Promise<TxSecureRecord> {
+    return this.request({ ...options, method: 'POST', path: '/tx/sealed', body: record, retry: true });
+  }
+
+  /**
+   * Fetches an encrypted record
+   */
+  get(id: string, options: RequestOptions = {}): Promise<TxSecureRecord> {
+    return this.request({
+      ...options,
+      method: 'GET',
+      path: `/tx/${encodeURIComponent(id)}`,
+      retry: true
+    });
+  }
+
+  /**
+   * Decrypts a record
+   * @param options - For field-level records, the paths to decrypt, and for
+   *   passphrase-protected records, the passphrase
+   * @returns The payload; for field-level records with `paths`, only those
+   *   fields are decrypted
+   */
+  async decrypt<T = unknown>(
+    id: string,
+    options: RequestOptions & { paths?: string[]; passphrase?: string } = {}
+  ): Promise<T> {
+    const { paths, passphrase, ...rest } = options;
+    const { payload } = await this.request<{ payload: T }>({
+      ...rest,
+      method: 'POST',
+      path: `/tx/${encodeURIComponent(id)}/decrypt`,
+      body: { ...(paths && { paths }), ...(passphrase !== undefined && { passphrase }) },
+      retry: true
+    });
+
+    return payload;
+  }
+
+  /**
+   * Lists one page of records in `createdAt` order, metadata only unless
+   * `includeCiphertext` is set
+   */
+  list(
+    query: ListQuery & { includeCiphertext: true },
+    options?: RequestOptions
+  ): Promise<ListResult<TxSecureRecord>>;
+  list(
+    query?: ListQuery & { includeCiphertext?: false },
+    options?: RequestOptions
+  ): Promise<ListResult<TxRecordSummary>>;
+  list(
+    query: ListQuery & { includeCiphertext?: boolean } = {},
+    options: RequestOptions = {}
+  ): Promise<ListResult<TxSecureRecord | TxRecordSummary>> {
+    const params = new URLSearchParams();
+    const entries: [string, string | number | undefined][] = [
+      ['partyId', query.partyId],
+      ['createdFrom', query.createdFrom],
+      ['createdTo', query.createdTo],
+      ['alg', query.alg],
+      ['mk_version', query.mkVersion],
+      ['cursor', query.cursor],
+      ['limit', query.limit],
+      ['include', query.includeCiphertext ? 'ciphertext' : undefined]
+    ];
+
+    for (const [name, value] of entries) {
+      if (value !== undefined) {
+        params.set(name, String(value));
+      }
+    }
+
+    return this.request({ ...options, method: 'GET', path: '/tx', query: params, retry: true });
+  }
+
+  /**
+   * Exports records as a signed bundle, for `importBundle` on another
+   * deployment
+   */
+  exportBundle(query: ExportQuery = {}, options: RequestOptions = {}): Promise<RecordBundle> {
+    const params = new URLSearchParams();
+
+    for (const [name, value] of Object.entries(query)) {
+      if (value !== undefined) {
+        params.set(name, value);
+      }
+    }
+
+    return this.request({ ...options, method: 'GET', path: '/tx/export', query: params, retry: true });
+  }
+
+  /**
+   * Imports a bundle exported by another deployment
+   *
+   * Safe to retry: records stored by an earlier attempt are reported as
+   * duplicates.
+   *
+   * @param options - `sourceKeys`: the exporting deployment's master keys
+   *   (hex) by version, to rewrap the records' DEKs onto the active key
+   */
+  importBundle(
+    bundle: RecordBundle,
+    options: RequestOptions & { sourceKeys?: Record<number, string> } = {}
+  ): Promise<ImportResult> {
+    const { sourceKeys, ...rest } = options;
+
+    return this.request({
+      ...rest,
+      method: 'POST',
+      path: '/tx/import',
+      body: { bundle, ...(sourceKeys && { sourceKeys }) },
+      retry: true
+    });
+  }
+
+  /**
+   * Encrypts and stores many payloads; items succeed or fail independently
+   *
+   * Not retried, as the batch route takes no idempotency key.
+   *
+   * @returns One result per item, in order
+   */
+  async batchEncrypt(
+    items: EncryptRequest[],
+    options: RequestOptions = {}
+  ): Promise<BatchEncryptResult[]> {
+    const { results } = await this.request<{ results: BatchEncryptResult[] }>({
+      ...options,
+      method: 'POST',
+      path: '/tx/batch/encrypt',
+      body: { items },
+      retry: false
+    });
+
+    return results;
+  }
+
+  /**
+   * Decrypts many records; items succeed or fail independently
+   * @returns One result per item, in order
+   */
+  async batchDecrypt<T = unknown>(
+    items: BatchDecryptItem[],
+    options: RequestOptions = {}
+  ): Promise<BatchDecryptResult<T>[]> {
+    const { results } = await this.request<{ results: BatchDecryptResult<T>[] }>({
+      ...options,
+      method: 'POST',
+      path: '/tx/batch/decrypt',
+      body: { items },
+      retry: true
+    });
+
+    return results;
+  }
+
+  /**
+   * Crypto-shreds a record
+   *
+   * Not retried: a repeat of a delete that went through would fail with
+   * `record_deleted`.
+   *
+   * @returns The record's tombstone
+   */
+  delete(id: string, options: RequestOptions & { reason?: string } = {}): Promise<Tombstone> {
+    const { reason, ...rest } = options;
+
+    return this.request({
+      ...rest,
+      method: 'DELETE',
+      path: `/tx/${encodeURIComponent(id)}`,
+      body: reason === undefined ? undefined : { reason },
+      retry: false
+    });
+  }
+
+  private async request<T>(request: Request): Promise<T> {
+    const maxRetries = request.retry ? (this.options.maxRetries ?? DEFAULT_MAX_RETRIES) : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await this.send(request);
+      } catch (error) {
+        // Network failures and timeouts, but not the caller aborting
+        if (request.signal?.aborted || attempt >= maxRetries) {
+          throw error;
+        }
+        await sleep(this.backoff(attempt), request.signal);
+        continue;
+      }
+
+      if (response.ok) {
+        return (await response.json()) as T;
+      }
+
+      const error = await MirfaApiError.fromResponse(response);
+
+      if (
+        attempt >= maxRetries ||
+        !RETRYABLE_STATUSES.has(response.status) ||
+        NON_RETRYABLE_CODES.has(error.code)
+      ) {
+        throw error;
+      }
+      await sleep(retryAfter(response) ?? this.backoff(attempt), request.signal);
+    }
+  }
+
+  private send({ method, path, query, body, headers, signal, timeoutMs }: Request) {
+    const timeout = AbortSignal.timeout(timeoutMs ?? this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    const search = query?.toString();
+    const url = `${this.baseUrl}${path}${search ? `?${search}` : ''}`;
+
+    return (this.options.fetch ?? fetch)(url, {
+      method,
+      headers: {
+        Accept: 'application/json',
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+        ...(this.options.apiKey && { 'X-API-Key': this.options.apiKey }),
+        ...(this.options.token && { Authorization: `Bearer ${this.options.token}` }),
+        ...headers
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout
+    });
+  }
+
+  /**
+   * Exponential backoff with jitter, so that clients failing together don't
+   * retry together
+   */
+  private backoff(attempt: number): number {
+    const delay = (this.options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS) * 2 ** attempt;
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+}
+
+/**
+ * Reads a `Retry-After` header given in seconds
+ */
+function retryAfter(response: Response): number | undefined {
+  const seconds = Number(response.headers.get('retry-after') ?? NaN);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
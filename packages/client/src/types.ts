@@ -0,0 +1,185 @@
+import type { AlgorithmId, FieldSchema, RecipientKey, TxSecureRecord } from '@mirfa/crypto';
+
+export type { AlgorithmId, FieldSchema, RecipientKey, TxSecureRecord };
+
+/**
+ * Body of every API error response (RFC 9457 problem details)
+ */
+export type Problem = {
+  type: string;
+  title: string;
+  status: number;
+
+  /** Human-readable explanation; may change */
+  detail: string;
+
+  /** Stable machine-readable error code, e.g. `authentication_failed` */
+  code: string;
+
+  [extension: string]: unknown;
+};
+
+/**
+ * A payload to encrypt, as sent to `POST /tx/encrypt`
+ */
+export type EncryptRequest = {
+  partyId: string;
+  payload: unknown;
+
+  /** JSON paths to encrypt individually, leaving the rest in cleartext */
+  fields?: string[];
+
+  /** Schema marking fields to encrypt with `"x-encrypt": true` */
+  schema?: FieldSchema;
+
+  /** Refuse the request if any selected field is missing from the payload */
+  requireFields?: boolean;
+
+  /** Payload encryption algorithm (defaults to AES-256-GCM) */
+  alg?: AlgorithmId;
+
+  /** Seconds until the record expires (defaults to the party's retention TTL) */
+  ttlSeconds?: number;
+
+  /**
+   * Wrap the DEK under a key derived from this passphrase instead of the
+   * master key; not accepted by `batchEncrypt`
+   */
+  passphrase?: string;
+
+  /** With `passphrase`, wrap under both, so that both are needed to decrypt */
+  doubleWrap?: boolean;
+
+  /** Compress the payload before encrypting it (defaults to the server setting) */
+  compression?: 'gzip' | 'br' | 'none';
+};
+
+/**
+ * Record fields returned by listings unless ciphertext is requested
+ */
+export type TxRecordSummary = Pick<
+  TxSecureRecord,
+  | 'id'
+  | 'partyId'
+  | 'createdAt'
+  | 'expiresAt'
+  | 'alg'
+  | 'mk_version'
+  | 'record_version'
+  | 'kms_provider'
+  | 'kms_key_id'
+  | 'mode'
+>;
+
+/**
+ * Filters and paging for `GET /tx`
+ */
+export type ListQuery = {
+  /** Party to list; callers bound to a single party default to it */
+  partyId?: string;
+
+  /** ISO 8601 timestamps bounding `createdAt` */
+  createdFrom?: string;
+  createdTo?: string;
+
+  alg?: AlgorithmId;
+  mkVersion?: number;
+
+  /** `nextCursor` of the previous page */
+  cursor?: string;
+
+  /** Page size, 1 to 200 (default 50) */
+  limit?: number;
+};
+
+export type ListResult<T> = {
+  records: T[];
+
+  /** Cursor of the next page, or null on the last one */
+  nextCursor: string | null;
+};
+
+/**
+ * What remains of a crypto-shredded record
+ */
+export type Tombstone = {
+  id: string;
+  partyId: string;
+
+  /** When the record was shredded (ISO 8601) */
+  deletedAt: string;
+
+  /** Why the record was shredded, e.g. `erasure_request` */
+  reason: string;
+};
+
+/**
+ * Why one item of a batch failed: a crypto error code, or `invalid_request`,
+ * `forbidden`, `not_found`, `deleted`, `expired`, `rate_limited`,
+ * `locked_out`, `encryption_failed` or `decryption_failed`
+ */
+export type BatchItemError = { ok: false; code: string; error: string };
+
+export type BatchEncryptResult = { ok: true; record: TxSecureRecord } | BatchItemError;
+
+export type BatchDecryptResult<T = unknown> = { id: string } & (
+  | { ok: true; payload: T }
+  | BatchItemError
+);
+
+export type BatchDecryptItem = {
+  id: string;
+
+  /** For field-level records, decrypt only these paths */
+  paths?: string[];
+};
+
+/**
+ * Filters for `GET /tx/export`
+ */
+export type ExportQuery = {
+  /** Party to export; callers bound to a single party default to it */
+  partyId?: string;
+
+  /** ISO 8601 timestamps bounding `createdAt` */
+  createdFrom?: string;
+  createdTo?: string;
+};
+
+export type BundleManifest = {
+  /** When the bundle was exported (ISO 8601) */
+  exportedAt: string;
+
+  filter: ExportQuery;
+
+  /** Number of records, in total and per party */
+  count: number;
+  parties: Record<string, number>;
+
+  /** SHA-256 over the canonical JSON of the records (hex) */
+  checksum: string;
+};
+
+/**
+ * A signed set of encrypted records, as exported by one deployment for
+ * another sharing its bundle signing key
+ */
+export type RecordBundle = {
+  format: 'mirfa.bundle';
+  version: number;
+  manifest: BundleManifest;
+  records: TxSecureRecord[];
+
+  /** HMAC-SHA256 over `format`, `version` and `manifest` (hex) */
+  signature: string;
+};
+
+export type ImportResult = {
+  imported: number;
+  rewrapped: number;
+
+  /** Ids already stored or shredded by the importing deployment, which were skipped */
+  duplicates: string[];
+
+  failed: { id: string; code: string; error: string }[];
+};
@@ -0,0 +1,172 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MirfaApiError, MirfaClient } from '../src/index.js';
+
+type Call = { url: string; init: RequestInit };
+
+/**
+ * A `fetch` that answers with the given responses in turn and records
+ * each request
+ */
+function fakeFetch(...responses: Array<Response | Error>) {
+  const calls: Call[] = [];
+
+  const fetch = async (url: string | URL | Request, init: RequestInit = {}) => {
+    calls.push({ url: String(url), init });
+    const next = responses.shift();
+
+    if (!next) {
+      throw new Error('Unexpected request');
+    }
+    if (next instanceof Error) {
+      throw next;
+    }
+    return next;
+  };
+
+  return { calls, fetch: fetch as typeof globalThis.fetch };
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers }
+  });
+}
+
+function problem(status: number, code: string, headers: Record<string, string> = {}): Response {
+  return json(
+    { type: 'about:blank', title: 'Error', status, detail: `Failed: ${code}`, code },
+    status,
+    headers
+  );
+}
+
+function header(call: Call, name: string): string | undefined {
+  return (call.init.headers as Record<string, string>)[name];
+}
+
+function createClient(fetch: typeof globalThis.fetch) {
+  return new MirfaClient({ baseUrl: 'http://api.test/', apiKey: 'key', fetch, retryDelayMs: 1 });
+}
+
+describe('MirfaClient', () => {
+  it('sends credentials and JSON bodies', async () => {
+    const { calls, fetch } = fakeFetch(json({ payload: { amount: 100 } }));
+
+    const payload = await createClient(fetch).decrypt('tx/1', { paths: ['$.amount'] });
+
+    assert.deepEqual(payload, { amount: 100 });
+    assert.equal(calls[0]!.url, 'http://api.test/tx/tx%2F1/decrypt');
+    assert.equal(calls[0]!.init.method, 'POST');
+    assert.equal(header(calls[0]!, 'X-API-Key'), 'key');
+    assert.equal(header(calls[0]!, 'Content-Type'), 'application/json');
+    assert.deepEqual(JSON.parse(calls[0]!.init.body as string), { paths: ['$.amount'] });
+  });
+
+  it('sends a bearer token instead of an API key', async () => {
+    const { calls, fetch } = fakeFetch(json({ records: [], nextCursor: null }));
+
+    await new MirfaClient({ baseUrl: 'http://api.test', token: 'jwt', fetch }).list();
+
+    assert.equal(header(calls[0]!, 'Authorization'), 'Bearer jwt');
+    assert.equal(header(calls[0]!, 'X-API-Key'), undefined);
+  });
+
+  it('builds list queries from the options given', async () => {
+    const { calls, fetch } = fakeFetch(json({ records: [], nextCursor: null }));
+
+    await createClient(fetch).list({ partyId: 'party-a', mkVersion: 2, includeCiphertext: true });
+    const { searchParams } = new URL(calls[0]!.url);
+
+    assert.equal(searchParams.toString(), 'partyId=party-a&mk_version=2&include=ciphertext');
+  });
+
+  it('retries encryption with the same idempotency key', async () => {
+    const { calls, fetch } = fakeFetch(
+      new TypeError('fetch failed'),
+      problem(503, 'unavailable'),
+      json({ id: 'tx-1' }, 201)
+    );
+
+    const record = await createClient(fetch).encrypt({ partyId: 'party-a', payload: {} });
+    const keys = calls.map((call) => header(call, 'Idempotency-Key'));
+
+    assert.equal(record.id, 'tx-1');
+    assert.equal(calls.length, 3);
+    assert.ok(keys[0]);
+    assert.equal(new Set(keys).size, 1);
+  });
+
+  it('waits out Retry-After on 429', async () => {
+    const { calls, fetch } = fakeFetch(
+      problem(429, 'rate_limited', { 'retry-after': '0' }),
+      json({ id: 'tx-1' })
+    );
+
+    assert.equal((await createClient(fetch).get('tx-1')).id, 'tx-1');
+    assert.equal(calls.length, 2);
+  });
+
+  it('does not retry lockouts, client errors or deletes', async () => {
+    for (const [response, call] of [
+      [problem(429, 'locked_out'), (client: MirfaClient) => client.decrypt('tx-1')],
+      [problem(404, 'not_found'), (client: MirfaClient) => client.get('tx-1')],
+      [problem(503, 'unavailable'), (client: MirfaClient) => client.delete('tx-1')]
+    ] as const) {
+      const { calls, fetch } = fakeFetch(response, json({}));
+
+      await assert.rejects(call(createClient(fetch)), MirfaApiError);
+      assert.equal(calls.length, 1);
+    }
+  });
+
+  it('gives up after maxRetries', async () => {
+    const { calls, fetch } = fakeFetch(
+      problem(503, 'unavailable'),
+      problem(503, 'unavailable'),
+      problem(503, 'unavailable')
+    );
+
+    await assert.rejects(createClient(fetch).get('tx-1'), { status: 503, code: 'unavailable' });
+    assert.equal(calls.length, 3);
+  });
+
+  it('reports problem details, and errors that are not problem+json', async () => {
+    const { fetch } = fakeFetch(
+      json(
+        {
+          type: 'about:blank',
+          title: 'Gone',
+          status: 410,
+          detail: 'Expired',
+          code: 'record_expired',
+          expiresAt: 'x'
+        },
+        410
+      ),
+      new Response('<html>Bad gateway</html>', { status: 400, statusText: 'Bad Request' })
+    );
+    const client = createClient(fetch);
+
+    await assert.rejects(client.get('tx-1'), (error: MirfaApiError) => {
+      assert.equal(error.code, 'record_expired');
+      assert.equal(error.message, 'Expired');
+      assert.equal(error.problem.expiresAt, 'x');
+      return true;
+    });
+    await assert.rejects(client.get('tx-2'), { status: 400, code: 'http_error' });
+  });
+
+  it('stops retrying when the caller aborts', async () => {
+    const controller = new AbortController();
+    const { calls, fetch } = fakeFetch(problem(503, 'unavailable'), json({ id: 'tx-1' }));
+    const client = new MirfaClient({ baseUrl: 'http://api.test', fetch, retryDelayMs: 60_000 });
+
+    const pending = client.get('tx-1', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+
+    await assert.rejects(pending, { name: 'AbortError' });
+    assert.equal(calls.length, 1);
+  });
+});
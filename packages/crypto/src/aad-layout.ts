@@ -0,0 +1,93 @@
+import type { TxSecureRecord } from './types.js';
+
+/**
+ * Layout of the AAD that records are sealed with
+ *
+ * Kept free of `node:crypto` and `Buffer` so that `@mirfa/crypto/browser`
+ * produces byte-identical AAD to the Node build.
+ */
+
+/**
+ * Current record format version
+ *
+ * - 1 (implicit, no `record_version` field): no additional authenticated data
+ * - 2: record metadata bound into the payload and DEK-wrap AAD
+ * - 3: the master key version (`mk_version`) also bound into the DEK-wrap AAD
+ */
+export const CURRENT_RECORD_VERSION = 3;
+
+export type AadFields = Record<string, string | number>;
+
+export type PayloadAadFields = Pick<
+  TxSecureRecord,
+  | 'record_version'
+  | 'id'
+  | 'partyId'
+  | 'createdAt'
+  | 'expiresAt'
+  | 'alg'
+  | 'mode'
+  | 'payload_clear'
+  | 'payload_fields'
+  | 'compression'
+>;
+
+/**
+ * Record metadata bound into every payload and field AAD
+ */
+export function recordMetadata(record: PayloadAadFields): Record<string, string> {
+  const metadata: Record<string, string> = {
+    id: record.id,
+    partyId: record.partyId,
+    createdAt: record.createdAt,
+    alg: record.alg
+  };
+
+  if (record.mode !== undefined) {
+    metadata.mode = record.mode;
+  }
+
+  if (record.expiresAt !== undefined) {
+    metadata.expiresAt = record.expiresAt;
+  }
+
+  if (record.compression !== undefined) {
+    metadata.compression = record.compression;
+  }
+
+  return metadata;
+}
+
+/**
+ * AAD fields of a versioned record's wrapped DEK
+ *
+ * Passphrase-wrapped DEKs also commit to the key derivation, so it can't be
+ * stripped or swapped without unwrapping failing. From version 3, DEKs also
+ * commit to the version of the key that wrapped them, when `mk_version` is
+ * given; the passphrase layer of a double-wrapped DEK omits it, since
+ * rewrapping the outer layer changes it.
+ */
+export function dekWrapAadFields(
+  record: Pick<TxSecureRecord, 'id' | 'kdf'> & Partial<Pick<TxSecureRecord, 'mk_version'>>,
+  version: number
+): AadFields {
+  const fields: AadFields = { v: version, purpose: 'dek', id: record.id };
+
+  if (version >= 3 && record.mk_version !== undefined) {
+    fields.mk_version = record.mk_version;
+  }
+
+  if (record.kdf !== undefined) {
+    const { alg, salt, N, r, p } = record.kdf;
+    fields.kdf = JSON.stringify({ alg, salt, N, r, p });
+  }
+
+  return fields;
+}
+
+/**
+ * Encodes AAD fields as JSON in a fixed key order
+ */
+export function stringifyAad(fields: AadFields): string {
+  return JSON.stringify(fields);
+}
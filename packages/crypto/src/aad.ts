@@ -0,0 +1,129 @@
+import crypto from 'node:crypto';
+import { TxSecureRecord } from './types.js';
+import { canonicalJson } from './fields.js';
+import {
+  AadFields,
+  PayloadAadFields,
+  dekWrapAadFields,
+  recordMetadata,
+  stringifyAad
+} from './aad-layout.js';
+
+export { CURRENT_RECORD_VERSION } from './aad-layout.js';
+
+/**
+ * Returns the format version of a record, treating a missing field as 1
+ */
+export function getRecordVersion(record: Pick<TxSecureRecord, 'record_version'>): number {
+  return record.record_version ?? 1;
+}
+
+/**
+ * Builds the AAD for payload encryption
+ *
+ * Binds the record's identity and metadata, including its expiry, to its
+ * ciphertext so that moving `payload_*` fields between records, or editing
+ * the metadata in storage, makes authentication fail.
+ *
+ * In `fields` mode the payload ciphertext is empty and the AAD additionally
+ * commits to the cleartext remainder and the set of encrypted paths, so the
+ * unencrypted part of the document is tamper-evident too.
+ *
+ * `mk_version` is deliberately not part of the payload AAD: rewrapping
+ * changes it without touching the payload ciphertext. From version 3 it is
+ * bound into the DEK-wrap AAD instead, which every rewrap rebuilds.
+ *
+ * @returns AAD bytes, or undefined for legacy records that have none
+ */
+export function buildPayloadAad(record: PayloadAadFields): Buffer | undefined {
+  const version = getRecordVersion(record);
+
+  if (version < 2) {
+    return undefined;
+  }
+
+  const fields: AadFields = {
+    v: version,
+    purpose: 'payload',
+    ...recordMetadata(record)
+  };
+
+  if (record.mode === 'fields') {
+    fields.clear = sha256(canonicalJson(record.payload_clear ?? null));
+    fields.paths = canonicalJson(Object.keys(record.payload_fields ?? {}).sort());
+  }
+
+  return encodeAad(fields);
+}
+
+/**
+ * Builds the AAD for one encrypted field, binding it to its record and path
+ * so fields cannot be moved between paths or records
+ */
+export function buildFieldAad(record: PayloadAadFields, path: string): Buffer {
+  return encodeAad({
+    v: getRecordVersion(record),
+    purpose: 'field',
+    ...recordMetadata(record),
+    path
+  });
+}
+
+/**
+ * Builds the AAD for DEK wrapping, binding the wrapped DEK to its record id,
+ * from version 3 to the key version that wraps it, and, if it is
+ * passphrase-wrapped, to its key derivation
+ *
+ * @returns AAD bytes, or undefined for legacy records that have none
+ */
+export function buildDekWrapAad(
+  record: Pick<TxSecureRecord, 'record_version' | 'id' | 'kdf' | 'mk_version'>
+): Buffer | undefined {
+  const version = getRecordVersion(record);
+
+  if (version < 2) {
+    return undefined;
+  }
+
+  return encodeAad(dekWrapAadFields(record, version));
+}
+
+/**
+ * Builds the AAD for the passphrase layer of a double-wrapped DEK
+ *
+ * Like `buildDekWrapAad`, without the key version: rewrapping the outer
+ * layer must not invalidate the inner one.
+ *
+ * @returns AAD bytes, or undefined for legacy records that have none
+ */
+export function buildPassphraseLayerAad(
+  record: Pick<TxSecureRecord, 'record_version' | 'id' | 'kdf'>
+): Buffer | undefined {
+  const version = getRecordVersion(record);
+
+  if (version < 2) {
+    return undefined;
+  }
+
+  return encodeAad(dekWrapAadFields({ id: record.id, kdf: record.kdf }, version));
+}
+
+/**
+ * Builds the AAD for the segments of a `stream` mode record's content,
+ * binding the content to its record
+ */
+export function buildStreamAad(record: PayloadAadFields): Buffer {
+  return encodeAad({
+    v: getRecordVersion(record),
+    purpose: 'stream',
+    ...recordMetadata(record)
+  });
+}
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function encodeAad(fields: AadFields): Buffer {
+  return Buffer.from(stringifyAad(fields), 'utf8');
+}
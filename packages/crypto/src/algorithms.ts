@@ -0,0 +1,166 @@
+import crypto from 'node:crypto';
+import { AuthenticationFailedError, UnsupportedAlgorithmError } from './errors.js';
+
+/**
+ * AEAD algorithm registry
+ *
+ * Records name the algorithm their payload was encrypted with in `alg`, and
+ * decryption looks it up here instead of assuming AES-256-GCM. The DEK is
+ * generated at the selected algorithm's key size. DEK wrapping is the key
+ * provider's concern and is unaffected by the payload algorithm.
+ *
+ * Nonce-misuse-resistant algorithms such as AES-256-GCM-SIV fit the same
+ * shape but are not registered: `node:crypto` does not implement them.
+ */
+export type AlgorithmId = 'AES-256-GCM' | 'CHACHA20-POLY1305';
+
+export type AeadAlgorithm = {
+  /** Identifier stored in `TxSecureRecord.alg` */
+  id: AlgorithmId;
+
+  /** Single-byte identifier used by the binary envelope format */
+  code: number;
+
+  /** Key size in bytes */
+  keyBytes: number;
+
+  /** Nonce size in bytes */
+  nonceBytes: number;
+
+  /** Authentication tag size in bytes */
+  tagBytes: number;
+
+  /**
+   * Whether a repeated nonce only reveals that two plaintexts are equal,
+   * rather than breaking confidentiality and integrity
+   */
+  nonceMisuseResistant: boolean;
+
+  createCipher(key: Buffer, nonce: Buffer): crypto.CipherGCM | crypto.CipherChaCha20Poly1305;
+  createDecipher(key: Buffer, nonce: Buffer): crypto.DecipherGCM | crypto.DecipherChaCha20Poly1305;
+};
+
+/**
+ * Nonce, ciphertext and tag of one AEAD encryption
+ */
+export type SealedData = {
+  nonce: Buffer;
+  ciphertext: Buffer;
+  tag: Buffer;
+};
+
+/** Algorithm used when the caller does not pick one */
+export const DEFAULT_ALGORITHM: AlgorithmId = 'AES-256-GCM';
+
+const ALGORITHMS: ReadonlyMap<string, AeadAlgorithm> = new Map<string, AeadAlgorithm>([
+  [
+    'AES-256-GCM',
+    {
+      id: 'AES-256-GCM',
+      code: 1,
+      keyBytes: 32,
+      nonceBytes: 12,
+      tagBytes: 16,
+      nonceMisuseResistant: false,
+      createCipher: (key, nonce) => crypto.createCipheriv('aes-256-gcm', key, nonce),
+      createDecipher: (key, nonce) => crypto.createDecipheriv('aes-256-gcm', key, nonce)
+    }
+  ],
+  [
+    'CHACHA20-POLY1305',
+    {
+      id: 'CHACHA20-POLY1305',
+      code: 2,
+      keyBytes: 32,
+      nonceBytes: 12,
+      tagBytes: 16,
+      nonceMisuseResistant: false,
+      createCipher: (key, nonce) =>
+        crypto.createCipheriv('chacha20-poly1305', key, nonce, { authTagLength: 16 }),
+      createDecipher: (key, nonce) =>
+        crypto.createDecipheriv('chacha20-poly1305', key, nonce, { authTagLength: 16 })
+    }
+  ]
+]);
+
+/**
+ * Looks up a registered algorithm
+ * @throws UnsupportedAlgorithmError if the algorithm is not supported
+ */
+export function getAlgorithm(id: string): AeadAlgorithm {
+  const algorithm = ALGORITHMS.get(id);
+
+  if (!algorithm) {
+    throw new UnsupportedAlgorithmError(id);
+  }
+
+  return algorithm;
+}
+
+/**
+ * Looks up a registered algorithm by its binary envelope code
+ * @throws UnsupportedAlgorithmError if no algorithm has that code
+ */
+export function getAlgorithmByCode(code: number): AeadAlgorithm {
+  for (const algorithm of ALGORITHMS.values()) {
+    if (algorithm.code === code) {
+      return algorithm;
+    }
+  }
+
+  throw new UnsupportedAlgorithmError(String(code), `Unsupported algorithm code: ${code}`);
+}
+
+export function isSupportedAlgorithm(id: unknown): id is AlgorithmId {
+  return typeof id === 'string' && ALGORITHMS.has(id);
+}
+
+/**
+ * Lists the identifiers of all registered algorithms
+ */
+export function supportedAlgorithms(): AlgorithmId[] {
+  return [...ALGORITHMS.values()].map((algorithm) => algorithm.id);
+}
+
+/**
+ * Encrypts data under a key with a fresh random nonce (or the given one)
+ */
+export function aeadSeal(
+  algorithm: AeadAlgorithm,
+  key: Buffer,
+  plaintext: Buffer,
+  aad: Buffer | undefined,
+  nonce: Buffer = crypto.randomBytes(algorithm.nonceBytes)
+): SealedData {
+  const cipher = algorithm.createCipher(key, nonce);
+  if (aad) {
+    cipher.setAAD(aad, { plaintextLength: plaintext.length });
+  }
+
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return { nonce, ciphertext, tag: cipher.getAuthTag() };
+}
+
+/**
+ * Decrypts and authenticates data under a key
+ * @throws AuthenticationFailedError if authentication fails
+ */
+export function aeadOpen(
+  algorithm: AeadAlgorithm,
+  key: Buffer,
+  sealed: SealedData,
+  aad: Buffer | undefined
+): Buffer {
+  const decipher = algorithm.createDecipher(key, sealed.nonce);
+  decipher.setAuthTag(sealed.tag);
+  if (aad) {
+    decipher.setAAD(aad, { plaintextLength: sealed.ciphertext.length });
+  }
+
+  try {
+    return Buffer.concat([decipher.update(sealed.ciphertext), decipher.final()]);
+  } catch {
+    throw new AuthenticationFailedError();
+  }
+}
@@ -0,0 +1,200 @@
+import type { TxSecureRecord } from './types.js';
+import {
+  CURRENT_RECORD_VERSION,
+  AadFields,
+  dekWrapAadFields,
+  recordMetadata,
+  stringifyAad
+} from './aad-layout.js';
+import { ECDH_KDF_INFO, ECDH_PROVIDER_NAME, RecipientKey } from './recipient.js';
+
+/**
+ * Browser build of record encryption, for end-to-end encrypted records
+ *
+ * Uses only WebCrypto, so it runs in browsers (and any runtime with
+ * `globalThis.crypto.subtle`) without `node:crypto`. The payload is sealed
+ * with a DEK that never leaves the client, and the DEK is wrapped to the
+ * API's published recipient key, so the finished record can be stored by
+ * the API without it seeing the plaintext.
+ *
+ * WebCrypto has no ChaCha20-Poly1305, so records are always AES-256-GCM.
+ */
+
+export type { TxSecureRecord };
+export type { EcPublicJwk, RecipientKey } from './recipient.js';
+export { CURRENT_RECORD_VERSION } from './aad-layout.js';
+
+/** The only algorithm available through WebCrypto */
+export const BROWSER_ALGORITHM = 'AES-256-GCM';
+
+const NONCE_BYTES = 12;
+const TAG_BYTES = 16;
+const DEK_BYTES = 32;
+
+/**
+ * Options for `encryptPayload`
+ */
+export type BrowserEncryptOptions = {
+  /** Key to wrap the DEK to, from `GET /tx/recipient-key` */
+  recipient: RecipientKey;
+
+  /** When the record expires; bound into the AAD */
+  expiresAt?: Date;
+};
+
+/**
+ * Encrypts a payload into a complete record in the browser
+ *
+ * Mirrors `encryptPayload` of the Node build for whole-payload records:
+ * the payload is sealed under a fresh DEK with the record metadata as AAD,
+ * and the DEK is wrapped to the recipient key with the record id as AAD.
+ *
+ * @param partyId - Party identifier
+ * @param payload - Data to encrypt
+ * @param options - Recipient key and expiry
+ * @returns Record ready for `POST /tx/sealed`
+ * @throws Error if the expiry is not in the future or the recipient key is unusable
+ */
+export async function encryptPayload(
+  partyId: string,
+  payload: unknown,
+  options: BrowserEncryptOptions
+): Promise<TxSecureRecord> {
+  const { recipient, expiresAt } = options;
+  const createdAt = new Date();
+
+  if (expiresAt !== undefined && !(expiresAt.getTime() > createdAt.getTime())) {
+    throw new Error('expiresAt must be a date in the future');
+  }
+
+  const metadata = {
+    record_version: CURRENT_RECORD_VERSION,
+    id: globalThis.crypto.randomUUID(),
+    partyId,
+    createdAt: createdAt.toISOString(),
+    ...(expiresAt && { expiresAt: expiresAt.toISOString() }),
+    alg: BROWSER_ALGORITHM
+  } as const;
+
+  const dek = globalThis.crypto.getRandomValues(new Uint8Array(DEK_BYTES));
+
+  try {
+    const sealed = await seal(
+      await importAesKey(dek),
+      new TextEncoder().encode(JSON.stringify(payload)),
+      encodeAad({ v: CURRENT_RECORD_VERSION, purpose: 'payload', ...recordMetadata(metadata) })
+    );
+    const wrapped = await wrapDek(
+      dek,
+      recipient,
+      encodeAad(
+        dekWrapAadFields({ ...metadata, mk_version: recipient.version }, CURRENT_RECORD_VERSION)
+      )
+    );
+
+    return {
+      record_version: metadata.record_version,
+      id: metadata.id,
+      partyId: metadata.partyId,
+      createdAt: metadata.createdAt,
+      ...(metadata.expiresAt && { expiresAt: metadata.expiresAt }),
+      payload_nonce: toHex(sealed.nonce),
+      payload_ct: toHex(sealed.ciphertext),
+      payload_tag: toHex(sealed.tag),
+      dek_wrap_nonce: toHex(wrapped.nonce),
+      dek_wrapped: toHex(wrapped.ciphertext),
+      dek_wrap_tag: toHex(wrapped.tag),
+      mk_version: recipient.version,
+      kms_provider: ECDH_PROVIDER_NAME,
+      kms_key_id: recipient.keyId,
+      alg: metadata.alg
+    };
+  } finally {
+    dek.fill(0);
+  }
+}
+
+/** `CryptoKey`, named without relying on the DOM lib */
+type WebCryptoKey = Awaited<ReturnType<typeof globalThis.crypto.subtle.importKey>>;
+
+type Sealed = {
+  nonce: Uint8Array;
+  ciphertext: Uint8Array;
+  tag: Uint8Array;
+};
+
+/**
+ * Wraps a DEK to a recipient key with ECDH-ES; see `recipient.ts`
+ */
+async function wrapDek(dek: Uint8Array, recipient: RecipientKey, aad: Uint8Array): Promise<Sealed> {
+  const subtle = globalThis.crypto.subtle;
+  const curve = { name: 'ECDH', namedCurve: 'P-256' };
+
+  if (recipient.provider !== ECDH_PROVIDER_NAME) {
+    throw new Error(`Unsupported recipient key provider: ${recipient.provider}`);
+  }
+
+  const recipientKey = await subtle.importKey('jwk', recipient.publicKey, curve, false, []);
+  const ephemeral = await subtle.generateKey(curve, false, ['deriveBits']);
+  const epk = new Uint8Array(await subtle.exportKey('raw', ephemeral.publicKey));
+
+  const sharedSecret = await subtle.deriveBits(
+    { name: 'ECDH', public: recipientKey },
+    ephemeral.privateKey,
+    256
+  );
+  const kek = await subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: epk,
+      info: new TextEncoder().encode(ECDH_KDF_INFO)
+    },
+    await subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']),
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt']
+  );
+
+  const { nonce, ciphertext, tag } = await seal(kek, dek, aad);
+  return { nonce, ciphertext: concat(epk, ciphertext), tag };
+}
+
+function importAesKey(key: Uint8Array): Promise<WebCryptoKey> {
+  return globalThis.crypto.subtle.importKey('raw', key, 'AES-GCM', false, ['encrypt']);
+}
+
+/**
+ * Encrypts with AES-256-GCM, splitting off the tag WebCrypto appends
+ */
+async function seal(key: WebCryptoKey, plaintext: Uint8Array, aad: Uint8Array): Promise<Sealed> {
+  const nonce = globalThis.crypto.getRandomValues(new Uint8Array(NONCE_BYTES));
+  const output = new Uint8Array(
+    await globalThis.crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: nonce, additionalData: aad, tagLength: TAG_BYTES * 8 },
+      key,
+      plaintext
+    )
+  );
+
+  return {
+    nonce,
+    ciphertext: output.subarray(0, output.length - TAG_BYTES),
+    tag: output.subarray(output.length - TAG_BYTES)
+  };
+}
+
+function encodeAad(fields: AadFields): Uint8Array {
+  return new TextEncoder().encode(stringifyAad(fields));
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,93 @@
+import zlib from 'node:zlib';
+import { InvalidRecordError, PayloadTooLargeError } from './errors.js';
+
+/**
+ * Payload compression
+ *
+ * Whole payloads can be compressed before they are encrypted, which shrinks
+ * large, repetitive JSON considerably. The codec is recorded in the record's
+ * `compression` and bound into the payload AAD, so it can't be stripped or
+ * swapped. Payloads are only decompressed after they authenticate, and never
+ * beyond a size limit, so a crafted record can't inflate into a
+ * decompression bomb.
+ */
+
+export type CompressionAlgorithm = 'gzip' | 'br';
+
+/** Payloads smaller than this many bytes are stored uncompressed by default */
+export const DEFAULT_COMPRESSION_MIN_BYTES = 1024;
+
+/** Largest size a payload may inflate to by default: 64 MiB */
+export const DEFAULT_MAX_INFLATED_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Compresses the payload before it is encrypted
+ */
+export type CompressionOptions = {
+  algorithm: CompressionAlgorithm;
+
+  /**
+   * Payloads smaller than this are stored uncompressed, as compressing them
+   * saves little or grows them (defaults to `DEFAULT_COMPRESSION_MIN_BYTES`)
+   */
+  minBytes?: number;
+};
+
+const COMPRESSION_ALGORITHMS: readonly CompressionAlgorithm[] = ['gzip', 'br'];
+
+/**
+ * Checks whether a string names a compression algorithm
+ */
+export function isCompressionAlgorithm(name: unknown): name is CompressionAlgorithm {
+  return COMPRESSION_ALGORITHMS.includes(name as CompressionAlgorithm);
+}
+
+/**
+ * Compresses a serialized payload if it reaches the size threshold
+ * @returns The algorithm used, or undefined if the payload was left as-is
+ */
+export function compressPayload(
+  payload: Buffer,
+  options: CompressionOptions
+): { algorithm?: CompressionAlgorithm; data: Buffer } {
+  const { algorithm, minBytes = DEFAULT_COMPRESSION_MIN_BYTES } = options;
+
+  if (!isCompressionAlgorithm(algorithm)) {
+    throw new Error(`compression must be one of: ${COMPRESSION_ALGORITHMS.join(', ')}`);
+  }
+
+  if (payload.length < minBytes) {
+    return { data: payload };
+  }
+
+  const data =
+    algorithm === 'gzip'
+      ? zlib.gzipSync(payload)
+      : zlib.brotliCompressSync(payload, {
+          params: { [zlib.constants.BROTLI_PARAM_SIZE_HINT]: payload.length }
+        });
+
+  return { algorithm, data };
+}
+
+/**
+ * Inflates an authenticated payload, stopping at `maxBytes`
+ * @throws PayloadTooLargeError if it inflates beyond `maxBytes`
+ * @throws InvalidRecordError if it is not valid compressed data
+ */
+export function decompressPayload(
+  data: Buffer,
+  algorithm: CompressionAlgorithm,
+  maxBytes: number = DEFAULT_MAX_INFLATED_BYTES
+): Buffer {
+  try {
+    return algorithm === 'gzip'
+      ? zlib.gunzipSync(data, { maxOutputLength: maxBytes })
+      : zlib.brotliDecompressSync(data, { maxOutputLength: maxBytes });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new PayloadTooLargeError(maxBytes);
+    }
+    throw new InvalidRecordError('payload_ct', `Invalid payload: not valid ${algorithm} data`);
+  }
+}
@@ -0,0 +1,305 @@
+import { EncryptedField, TxSecureRecord } from './types.js';
+import { getAlgorithm, getAlgorithmByCode } from './algorithms.js';
+import { InvalidRecordError } from './errors.js';
+
+/**
+ * Binary record envelope
+ *
+ * ```
+ * header: magic "MRFE" (4) | envelope version (1) | algorithm code (1)
+ * field:  tag (1) | length, uint32 BE (4) | value (length)
+ * ```
+ *
+ * Binary record fields are stored as raw bytes rather than hex, strings as
+ * UTF-8, integers as uint32 BE and `payload_clear` and `kdf` as JSON. Each encrypted
+ * field of a `fields` mode record is a nested sequence of length-prefixed
+ * path, nonce, ciphertext and tag. Optional record fields are simply
+ * omitted; unknown or repeated tags are rejected.
+ */
+export const ENVELOPE_MAGIC = Buffer.from('MRFE', 'ascii');
+export const ENVELOPE_VERSION = 1;
+
+const HEADER_BYTES = 6;
+
+const TAG = {
+  Id: 1,
+  PartyId: 2,
+  CreatedAt: 3,
+  RecordVersion: 4,
+  MkVersion: 5,
+  KmsProvider: 6,
+  KmsKeyId: 7,
+  Mode: 8,
+  PayloadNonce: 9,
+  PayloadCt: 10,
+  PayloadTag: 11,
+  DekWrapNonce: 12,
+  DekWrapped: 13,
+  DekWrapTag: 14,
+  PayloadClear: 15,
+  PayloadFields: 16,
+  ExpiresAt: 17,
+  Kdf: 18,
+  Compression: 19
+} as const;
+
+const KNOWN_TAGS = new Set<number>(Object.values(TAG));
+
+const REQUIRED_TAGS = [
+  TAG.Id,
+  TAG.PartyId,
+  TAG.CreatedAt,
+  TAG.MkVersion,
+  TAG.PayloadNonce,
+  TAG.PayloadCt,
+  TAG.PayloadTag,
+  TAG.DekWrapNonce,
+  TAG.DekWrapped,
+  TAG.DekWrapTag
+];
+
+/**
+ * Serializes a record into the binary envelope format
+ * @throws UnsupportedAlgorithmError if the record's algorithm is not supported
+ */
+export function serializeRecord(record: TxSecureRecord): Buffer {
+  const header = Buffer.alloc(HEADER_BYTES);
+  ENVELOPE_MAGIC.copy(header, 0);
+  header.writeUInt8(ENVELOPE_VERSION, 4);
+  header.writeUInt8(getAlgorithm(record.alg).code, 5);
+
+  const parts: Buffer[] = [header];
+  const put = (tag: number, value: Buffer) => {
+    const prefix = Buffer.alloc(5);
+    prefix.writeUInt8(tag, 0);
+    prefix.writeUInt32BE(value.length, 1);
+    parts.push(prefix, value);
+  };
+
+  put(TAG.Id, Buffer.from(record.id, 'utf8'));
+  put(TAG.PartyId, Buffer.from(record.partyId, 'utf8'));
+  put(TAG.CreatedAt, Buffer.from(record.createdAt, 'utf8'));
+  if (record.expiresAt !== undefined) {
+    put(TAG.ExpiresAt, Buffer.from(record.expiresAt, 'utf8'));
+  }
+  if (record.record_version !== undefined) {
+    put(TAG.RecordVersion, uint32(record.record_version));
+  }
+  put(TAG.MkVersion, uint32(record.mk_version));
+  if (record.kms_provider !== undefined) {
+    put(TAG.KmsProvider, Buffer.from(record.kms_provider, 'utf8'));
+  }
+  if (record.kms_key_id !== undefined) {
+    put(TAG.KmsKeyId, Buffer.from(record.kms_key_id, 'utf8'));
+  }
+  if (record.mode !== undefined) {
+    put(TAG.Mode, Buffer.from(record.mode, 'utf8'));
+  }
+  put(TAG.PayloadNonce, Buffer.from(record.payload_nonce, 'hex'));
+  put(TAG.PayloadCt, Buffer.from(record.payload_ct, 'hex'));
+  put(TAG.PayloadTag, Buffer.from(record.payload_tag, 'hex'));
+  put(TAG.DekWrapNonce, Buffer.from(record.dek_wrap_nonce, 'hex'));
+  put(TAG.DekWrapped, Buffer.from(record.dek_wrapped, 'hex'));
+  put(TAG.DekWrapTag, Buffer.from(record.dek_wrap_tag, 'hex'));
+  if (record.payload_clear !== undefined) {
+    put(TAG.PayloadClear, Buffer.from(JSON.stringify(record.payload_clear), 'utf8'));
+  }
+  if (record.payload_fields !== undefined) {
+    put(TAG.PayloadFields, serializeFields(record.payload_fields));
+  }
+  if (record.kdf !== undefined) {
+    put(TAG.Kdf, Buffer.from(JSON.stringify(record.kdf), 'utf8'));
+  }
+  if (record.compression !== undefined) {
+    put(TAG.Compression, Buffer.from(record.compression, 'utf8'));
+  }
+
+  return Buffer.concat(parts);
+}
+
+/**
+ * Parses a binary envelope back into a record
+ *
+ * Only the envelope structure is checked here; the record is validated in
+ * full when it is decrypted.
+ *
+ * @throws InvalidRecordError if the envelope is malformed, truncated or of an unknown version
+ */
+export function parseRecord(envelope: Buffer): TxSecureRecord {
+  if (envelope.length < HEADER_BYTES || !envelope.subarray(0, 4).equals(ENVELOPE_MAGIC)) {
+    throw new InvalidRecordError('envelope', 'Invalid record envelope: bad magic');
+  }
+
+  const version = envelope.readUInt8(4);
+  if (version !== ENVELOPE_VERSION) {
+    throw new InvalidRecordError('envelope', `Invalid record envelope: unsupported version ${version}`);
+  }
+
+  const alg = getAlgorithmByCode(envelope.readUInt8(5)).id;
+  const values = new Map<number, Buffer>();
+
+  for (const [tag, value] of readFields(envelope.subarray(HEADER_BYTES), 1)) {
+    if (!KNOWN_TAGS.has(tag)) {
+      throw new InvalidRecordError('envelope', `Invalid record envelope: unknown field tag ${tag}`);
+    }
+    if (values.has(tag)) {
+      throw new InvalidRecordError('envelope', `Invalid record envelope: duplicate field tag ${tag}`);
+    }
+    values.set(tag, value);
+  }
+
+  for (const tag of REQUIRED_TAGS) {
+    if (!values.has(tag)) {
+      throw new InvalidRecordError('envelope', `Invalid record envelope: missing field tag ${tag}`);
+    }
+  }
+
+  const text = (tag: number) => values.get(tag)?.toString('utf8');
+  const hex = (tag: number) => values.get(tag)!.toString('hex');
+  const int = (tag: number) => {
+    const value = values.get(tag);
+    if (value === undefined) {
+      return undefined;
+    }
+    if (value.length !== 4) {
+      throw new InvalidRecordError('envelope', `Invalid record envelope: field tag ${tag} must be 4 bytes`);
+    }
+    return value.readUInt32BE(0);
+  };
+
+  const recordVersion = int(TAG.RecordVersion);
+  const expiresAt = text(TAG.ExpiresAt);
+  const kmsProvider = text(TAG.KmsProvider);
+  const kmsKeyId = text(TAG.KmsKeyId);
+  const mode = text(TAG.Mode);
+  const clear = values.get(TAG.PayloadClear);
+  const fields = values.get(TAG.PayloadFields);
+  const kdf = values.get(TAG.Kdf);
+  const compression = text(TAG.Compression);
+
+  let payloadClear: unknown;
+  try {
+    payloadClear = clear === undefined ? undefined : JSON.parse(clear.toString('utf8'));
+  } catch {
+    throw new InvalidRecordError('envelope', 'Invalid record envelope: payload_clear is not valid JSON');
+  }
+
+  let kdfParams: TxSecureRecord['kdf'];
+  try {
+    kdfParams = kdf === undefined ? undefined : JSON.parse(kdf.toString('utf8'));
+  } catch {
+    throw new InvalidRecordError('envelope', 'Invalid record envelope: kdf is not valid JSON');
+  }
+
+  return {
+    ...(recordVersion !== undefined && { record_version: recordVersion }),
+    id: text(TAG.Id)!,
+    partyId: text(TAG.PartyId)!,
+    createdAt: text(TAG.CreatedAt)!,
+    ...(expiresAt !== undefined && { expiresAt }),
+    payload_nonce: hex(TAG.PayloadNonce),
+    payload_ct: hex(TAG.PayloadCt),
+    payload_tag: hex(TAG.PayloadTag),
+    ...(compression !== undefined && {
+      compression: compression as TxSecureRecord['compression']
+    }),
+    dek_wrap_nonce: hex(TAG.DekWrapNonce),
+    dek_wrapped: hex(TAG.DekWrapped),
+    dek_wrap_tag: hex(TAG.DekWrapTag),
+    ...(mode !== undefined && { mode: mode as TxSecureRecord['mode'] }),
+    ...(clear !== undefined && { payload_clear: payloadClear }),
+    ...(fields !== undefined && { payload_fields: parseFields(fields) }),
+    alg,
+    mk_version: int(TAG.MkVersion)!,
+    ...(kmsProvider !== undefined && { kms_provider: kmsProvider }),
+    ...(kmsKeyId !== undefined && { kms_key_id: kmsKeyId }),
+    ...(kdfParams !== undefined && { kdf: kdfParams })
+  };
+}
+
+/**
+ * Serializes a record into the envelope format as a base64url string
+ */
+export function serializeRecordCompact(record: TxSecureRecord): string {
+  return serializeRecord(record).toString('base64url');
+}
+
+/**
+ * Parses a base64url envelope string
+ * @throws InvalidRecordError if the string is not base64url or the envelope is malformed
+ */
+export function parseRecordCompact(compact: string): TxSecureRecord {
+  if (!/^[A-Za-z0-9_-]*$/.test(compact)) {
+    throw new InvalidRecordError('envelope', 'Invalid record envelope: not a base64url string');
+  }
+
+  return parseRecord(Buffer.from(compact, 'base64url'));
+}
+
+function serializeFields(fields: Record<string, EncryptedField>): Buffer {
+  const parts: Buffer[] = [];
+
+  for (const [path, field] of Object.entries(fields)) {
+    for (const value of [
+      Buffer.from(path, 'utf8'),
+      Buffer.from(field.nonce, 'hex'),
+      Buffer.from(field.ct, 'hex'),
+      Buffer.from(field.tag, 'hex')
+    ]) {
+      parts.push(uint32(value.length), value);
+    }
+  }
+
+  return Buffer.concat(parts);
+}
+
+function parseFields(data: Buffer): Record<string, EncryptedField> {
+  const values = [...readFields(data, 0)].map(([, value]) => value);
+  const fields: Record<string, EncryptedField> = {};
+
+  if (values.length % 4 !== 0) {
+    throw new InvalidRecordError('envelope', 'Invalid record envelope: truncated payload_fields');
+  }
+
+  for (let i = 0; i < values.length; i += 4) {
+    fields[values[i]!.toString('utf8')] = {
+      nonce: values[i + 1]!.toString('hex'),
+      ct: values[i + 2]!.toString('hex'),
+      tag: values[i + 3]!.toString('hex')
+    };
+  }
+
+  return fields;
+}
+
+/**
+ * Splits data into length-prefixed values, each preceded by a tag of
+ * `tagBytes` (0 or 1) bytes
+ * @throws InvalidRecordError if a value runs past the end of the data
+ */
+function* readFields(data: Buffer, tagBytes: 0 | 1): Generator<[number, Buffer]> {
+  let offset = 0;
+
+  while (offset < data.length) {
+    if (offset + tagBytes + 4 > data.length) {
+      throw new InvalidRecordError('envelope', 'Invalid record envelope: truncated field header');
+    }
+
+    const tag = tagBytes === 1 ? data.readUInt8(offset) : 0;
+    const length = data.readUInt32BE(offset + tagBytes);
+    const start = offset + tagBytes + 4;
+
+    if (start + length > data.length) {
+      throw new InvalidRecordError('envelope', 'Invalid record envelope: truncated field value');
+    }
+
+    yield [tag, data.subarray(start, start + length)];
+    offset = start + length;
+  }
+}
+
+function uint32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value, 0);
+  return buffer;
+}
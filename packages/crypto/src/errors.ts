@@ -0,0 +1,153 @@
+/**
+ * Stable identifiers of the errors thrown by this package
+ */
+export type CryptoErrorCode =
+  | 'invalid_record'
+  | 'unsupported_algorithm'
+  | 'unknown_key_version'
+  | 'authentication_failed'
+  | 'key_unavailable'
+  | 'passphrase_required'
+  | 'payload_too_large'
+  | 'record_expired'
+  | 'invalid_field_selection';
+
+/**
+ * Base class of the errors thrown by this package
+ *
+ * Match on `code` rather than on messages, which are for humans and may
+ * change.
+ */
+export abstract class CryptoError extends Error {
+  abstract readonly code: CryptoErrorCode;
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * A record or envelope is malformed
+ */
+export class InvalidRecordError extends CryptoError {
+  readonly code = 'invalid_record';
+
+  /**
+   * @param field - Offending record field, e.g. `payload_nonce`, or
+   *   `envelope` for binary envelope structure
+   */
+  constructor(
+    readonly field: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * An algorithm is not in the registry
+ */
+export class UnsupportedAlgorithmError extends CryptoError {
+  readonly code = 'unsupported_algorithm';
+
+  constructor(
+    readonly algorithm: string,
+    message = `Unsupported algorithm: ${algorithm}`
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * A key provider has no key of the version a DEK was wrapped under
+ */
+export class UnknownKeyVersionError extends CryptoError {
+  readonly code = 'unknown_key_version';
+
+  constructor(
+    readonly version: number,
+    message = `Unknown master key version: ${version}`
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * AEAD authentication failed: the data, its AAD or the key is wrong
+ */
+export class AuthenticationFailedError extends CryptoError {
+  readonly code = 'authentication_failed';
+
+  constructor(message = 'Decryption failed: data may be tampered or corrupted') {
+    super(message);
+  }
+}
+
+/**
+ * The key needed to wrap or unwrap a DEK can't be used: its provider is not
+ * configured or unreachable, or the key has been destroyed
+ */
+export class KeyUnavailableError extends CryptoError {
+  readonly code = 'key_unavailable';
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+  }
+}
+
+/**
+ * A record's DEK is wrapped under a passphrase-derived key and no
+ * passphrase was given
+ */
+export class PassphraseRequiredError extends CryptoError {
+  readonly code = 'passphrase_required';
+
+  constructor(message = 'Record is protected by a passphrase') {
+    super(message);
+  }
+}
+
+/**
+ * A compressed payload inflates beyond the allowed size
+ */
+export class PayloadTooLargeError extends CryptoError {
+  readonly code = 'payload_too_large';
+
+  constructor(
+    readonly limit: number,
+    message = `Payload inflates beyond ${limit} bytes`
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * A record is past its `expiresAt`
+ */
+export class RecordExpiredError extends CryptoError {
+  readonly code = 'record_expired';
+
+  constructor(readonly expiresAt: string) {
+    super(`Record expired at ${expiresAt}`);
+  }
+}
+
+/**
+ * A field selection is malformed, or selects nothing (or, if fields are
+ * required, misses a path) in the payload it is applied to
+ */
+export class InvalidFieldSelectionError extends CryptoError {
+  readonly code = 'invalid_field_selection';
+
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Returns the code of an error thrown by this package, if it is one
+ */
+export function errorCodeOf(error: unknown): CryptoErrorCode | undefined {
+  return error instanceof CryptoError ? error.code : undefined;
+}
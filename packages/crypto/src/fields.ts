@@ -0,0 +1,300 @@
+import { InvalidFieldSelectionError } from './errors.js';
+
+/**
+ * JSON path helpers for field-level encryption
+ *
+ * Supported syntax is a subset of JSONPath: a leading `$`, then `.key`,
+ * `[index]`, `['key']` and the wildcards `.*` / `[*]`. Wildcards are
+ * expanded against the payload, so stored paths are always concrete, e.g.
+ * `$.accounts[0].iban`.
+ */
+
+type Segment = string | number | typeof WILDCARD;
+
+const WILDCARD = Symbol('wildcard');
+
+/**
+ * Schema form of a field selection: a JSON Schema subset in which
+ * properties marked `"x-encrypt": true` are encrypted
+ */
+export type FieldSchema = {
+  type?: string;
+  'x-encrypt'?: boolean;
+  properties?: Record<string, FieldSchema>;
+  items?: FieldSchema;
+};
+
+/**
+ * Fields to encrypt: explicit paths or a schema marking them
+ */
+export type FieldSelection = string[] | FieldSchema;
+
+/**
+ * Lists the paths a schema marks for encryption
+ * Array `items` become `[*]` wildcards.
+ */
+export function pathsFromSchema(schema: FieldSchema, prefix = '$'): string[] {
+  if (schema['x-encrypt']) {
+    return [prefix];
+  }
+
+  const paths: string[] = [];
+
+  for (const [key, child] of Object.entries(schema.properties ?? {})) {
+    paths.push(...pathsFromSchema(child, `${prefix}${formatKey(key)}`));
+  }
+
+  if (schema.items) {
+    paths.push(...pathsFromSchema(schema.items, `${prefix}[*]`));
+  }
+
+  return paths;
+}
+
+/**
+ * Expands a field selection into the concrete paths present in a document
+ *
+ * Paths that don't exist in the document are skipped, so optional fields
+ * can be listed unconditionally, unless `required` is set. A selection
+ * that matches nothing at all is always refused, so a record is never
+ * stored in `fields` mode with its whole payload in cleartext.
+ *
+ * @param required - Refuse the selection if any path matches nothing
+ * @throws InvalidFieldSelectionError if a path is malformed, selects the
+ *   document root or (if required) is missing, if nothing matches, or if
+ *   one selected field contains another
+ */
+export function resolvePaths(
+  document: unknown,
+  selection: FieldSelection,
+  required = false
+): string[] {
+  const selectors = Array.isArray(selection) ? selection : pathsFromSchema(selection);
+  const resolved = new Set<string>();
+
+  for (const selector of selectors) {
+    const segments = parsePath(selector);
+
+    if (segments.length === 0) {
+      throw new InvalidFieldSelectionError(
+        `Invalid field path '${selector}': cannot encrypt the document root`
+      );
+    }
+
+    const matches = expand(document, segments);
+
+    if (required && matches.length === 0) {
+      throw new InvalidFieldSelectionError(`Field path '${selector}' does not exist in the payload`);
+    }
+
+    for (const concrete of matches) {
+      resolved.add(formatPath(concrete));
+    }
+  }
+
+  if (resolved.size === 0) {
+    throw new InvalidFieldSelectionError('No selected field exists in the payload');
+  }
+
+  const paths = [...resolved].sort();
+
+  // A field nested in another encrypted field has no cleartext slot of its own
+  for (const outer of paths) {
+    const inner = paths.find((path) => isDescendant(path, outer));
+    if (inner !== undefined) {
+      throw new InvalidFieldSelectionError(`Field paths '${outer}' and '${inner}' overlap`);
+    }
+  }
+
+  return paths;
+}
+
+/**
+ * Matches requested paths against the concrete paths a record encrypted
+ *
+ * Wildcards match any key or index, so the selection used to encrypt a
+ * record can be reused to decrypt it.
+ *
+ * @throws InvalidFieldSelectionError if a path is malformed or matches
+ *   none of `available`
+ */
+export function matchPaths(selectors: string[], available: string[]): string[] {
+  const candidates = available.map((path) => ({ path, segments: parsePath(path) }));
+  const matched = new Set<string>();
+
+  for (const selector of selectors) {
+    const pattern = parsePath(selector);
+    const matches = candidates.filter(
+      ({ segments }) =>
+        segments.length === pattern.length &&
+        pattern.every((segment, index) => segment === WILDCARD || segment === segments[index])
+    );
+
+    if (matches.length === 0) {
+      throw new InvalidFieldSelectionError(`Field path '${selector}' matches no encrypted field`);
+    }
+
+    for (const { path } of matches) {
+      matched.add(path);
+    }
+  }
+
+  return [...matched].sort();
+}
+
+/**
+ * Reads the value at a concrete path
+ */
+export function getAtPath(document: unknown, path: string): unknown {
+  let current = document;
+
+  for (const segment of parsePath(path)) {
+    if (!isContainer(current) || segment === WILDCARD) {
+      return undefined;
+    }
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+
+  return current;
+}
+
+/**
+ * Replaces the value at an existing concrete path, in place
+ * @throws Error if the path does not exist in the document
+ */
+export function setAtPath(document: unknown, path: string, value: unknown): void {
+  const segments = parsePath(path);
+  const last = segments[segments.length - 1];
+  const parent = getAtPath(document, formatPath(segments.slice(0, -1)));
+
+  if (last === undefined || last === WILDCARD || !isContainer(parent) || !(last in parent)) {
+    throw new Error(`Field path '${path}' does not exist in the payload`);
+  }
+
+  (parent as Record<string | number, unknown>)[last] = value;
+}
+
+/**
+ * Normalizes a path to its canonical `$.a[0].b` form
+ * @throws InvalidFieldSelectionError if the path is malformed
+ */
+export function normalizePath(path: string): string {
+  return formatPath(parsePath(path));
+}
+
+/**
+ * Serializes JSON with object keys sorted, so equal documents always
+ * produce equal bytes regardless of property order
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item ?? null)).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, child]) => child !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, child]) => `${JSON.stringify(key)}:${canonicalJson(child)}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+function parsePath(path: string): Segment[] {
+  const segments: Segment[] = [];
+  const pattern = /\.([A-Za-z_$][\w$-]*|\*)|\[(\d+|\*|'(?:[^'\\]|\\.)*')\]/y;
+
+  if (!path.startsWith('$')) {
+    throw new InvalidFieldSelectionError(`Invalid field path '${path}': must start with '$'`);
+  }
+
+  let position = 1;
+
+  while (position < path.length) {
+    pattern.lastIndex = position;
+    const match = pattern.exec(path);
+
+    if (!match) {
+      throw new InvalidFieldSelectionError(`Invalid field path '${path}' at position ${position}`);
+    }
+
+    const token = match[1] ?? match[2]!;
+
+    if (token === '*') {
+      segments.push(WILDCARD);
+    } else if (match[2] !== undefined && /^\d+$/.test(token)) {
+      segments.push(Number(token));
+    } else if (token.startsWith("'")) {
+      segments.push(token.slice(1, -1).replace(/\\(.)/g, '$1'));
+    } else {
+      segments.push(token);
+    }
+
+    position = pattern.lastIndex;
+  }
+
+  return segments;
+}
+
+function formatPath(segments: Segment[]): string {
+  return (
+    '$' +
+    segments
+      .map((segment) => {
+        if (segment === WILDCARD) {
+          return '[*]';
+        }
+        return typeof segment === 'number' ? `[${segment}]` : formatKey(segment);
+      })
+      .join('')
+  );
+}
+
+function formatKey(key: string): string {
+  return /^[A-Za-z_$][\w$-]*$/.test(key)
+    ? `.${key}`
+    : `['${key.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}']`;
+}
+
+function expand(node: unknown, segments: Segment[]): Segment[][] {
+  if (segments.length === 0) {
+    return [[]];
+  }
+
+  if (!isContainer(node)) {
+    return [];
+  }
+
+  const [head, ...rest] = segments as [Segment, ...Segment[]];
+  const container = node as Record<string | number, unknown>;
+
+  const keys: Array<string | number> =
+    head === WILDCARD
+      ? Array.isArray(node)
+        ? node.map((_, index) => index)
+        : Object.keys(node)
+      : [head];
+
+  const results: Segment[][] = [];
+
+  for (const key of keys) {
+    if (Array.isArray(node) !== (typeof key === 'number') || !(key in container)) {
+      continue;
+    }
+    for (const tail of expand(container[key], rest)) {
+      results.push([key, ...tail]);
+    }
+  }
+
+  return results;
+}
+
+function isDescendant(path: string, ancestor: string): boolean {
+  return path.startsWith(ancestor) && (path[ancestor.length] === '.' || path[ancestor.length] === '[');
+}
+
+function isContainer(value: unknown): value is object {
+  return value !== null && typeof value === 'object';
+}
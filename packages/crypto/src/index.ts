@@ -1,188 +1,1222 @@
 import crypto from 'node:crypto';
-import { TxSecureRecord } from './types.js';
+import { Transform } from 'node:stream';
+import { EncryptedField, StreamManifest, TxSecureRecord } from './types.js';
+import {
+  CURRENT_RECORD_VERSION,
+  buildDekWrapAad,
+  buildPassphraseLayerAad,
+  buildFieldAad,
+  buildPayloadAad,
+  buildStreamAad
+} from './aad.js';
+import { createDecryptStream, createEncryptStream } from './stream.js';
+import {
+  AeadAlgorithm,
+  AlgorithmId,
+  DEFAULT_ALGORITHM,
+  SealedData,
+  aeadOpen,
+  aeadSeal,
+  getAlgorithm
+} from './algorithms.js';
+import {
+  FieldSelection,
+  getAtPath,
+  matchPaths,
+  normalizePath,
+  resolvePaths,
+  setAtPath
+} from './fields.js';
+import {
+  CompressionOptions,
+  compressPayload,
+  decompressPayload,
+  isCompressionAlgorithm
+} from './compression.js';
+import {
+  KeyProvider,
+  KeyProviderRegistry,
+  PartyKeyProvider,
+  WrappedKey,
+  ENV_KEY_ID,
+  PARTY_PROVIDER_NAME,
+  loadKeyProviders,
+  getActiveKeyProvider
+} from './providers/index.js';
+import type { CryptoWorkerPool } from './pool.js';
+import {
+  CryptoError,
+  CryptoErrorCode,
+  InvalidFieldSelectionError,
+  InvalidRecordError,
+  KeyUnavailableError,
+  PassphraseRequiredError,
+  RecordExpiredError,
+  errorCodeOf
+} from './errors.js';
+import {
+  PASSPHRASE_PROVIDER_NAME,
+  PassphraseOptions,
+  createDoubleWrapProvider,
+  createKdfParams,
+  createPassphraseKeyProvider,
+  validateKdfParams
+} from './passphrase.js';
 
-export { TxSecureRecord };
+export { TxSecureRecord, EncryptedField, StreamManifest };
+export type { KdfParams } from './types.js';
+export { CURRENT_RECORD_VERSION } from './aad.js';
+export { type Keyring, loadKeyring, createKeyring } from './keyring.js';
+export * from './providers/index.js';
+export {
+  type EcPublicJwk,
+  type RecipientKey,
+  ECDH_PROVIDER_NAME
+} from './recipient.js';
+export {
+  type PassphraseOptions,
+  type ScryptCost,
+  DEFAULT_SCRYPT_COST,
+  PASSPHRASE_PROVIDER_NAME
+} from './passphrase.js';
+export {
+  createEncryptStream,
+  createDecryptStream,
+  encryptedStreamSize,
+  DEFAULT_SEGMENT_SIZE,
+  type StreamOptions,
+  type EncryptStreamOptions
+} from './stream.js';
+export {
+  type FieldSchema,
+  type FieldSelection,
+  canonicalJson,
+  normalizePath,
+  pathsFromSchema
+} from './fields.js';
+export {
+  type CompressionAlgorithm,
+  type CompressionOptions,
+  DEFAULT_COMPRESSION_MIN_BYTES,
+  DEFAULT_MAX_INFLATED_BYTES,
+  isCompressionAlgorithm
+} from './compression.js';
+export {
+  type AeadAlgorithm,
+  type AlgorithmId,
+  DEFAULT_ALGORITHM,
+  getAlgorithm,
+  isSupportedAlgorithm,
+  supportedAlgorithms
+} from './algorithms.js';
+export { type CryptoWorkerPool, type CryptoWorkerPoolOptions, createCryptoWorkerPool } from './pool.js';
+export {
+  type CryptoErrorCode,
+  CryptoError,
+  InvalidRecordError,
+  UnsupportedAlgorithmError,
+  UnknownKeyVersionError,
+  AuthenticationFailedError,
+  KeyUnavailableError,
+  PassphraseRequiredError,
+  PayloadTooLargeError,
+  RecordExpiredError,
+  InvalidFieldSelectionError,
+  errorCodeOf
+} from './errors.js';
+export {
+  ENVELOPE_MAGIC,
+  ENVELOPE_VERSION,
+  serializeRecord,
+  parseRecord,
+  serializeRecordCompact,
+  parseRecordCompact
+} from './envelope.js';
 
 /**
- * Encrypts a payload using AES-256-GCM envelope encryption
+ * Options for `encryptPayload`
+ */
+export type EncryptOptions = {
+  /** Key provider to wrap the DEK with (defaults to `KMS_PROVIDER`) */
+  provider?: KeyProvider;
+  
+  /** Payload encryption algorithm (defaults to AES-256-GCM) */
+  alg?: AlgorithmId;
+  
+  /** When the record expires; it can't be decrypted afterwards */
+  expiresAt?: Date;
+  
+  /**
+   * Encrypt only these fields (JSON paths, or a schema marking them) and
+   * leave the rest of the payload in cleartext
+   */
+  fields?: FieldSelection;
+  
+  /**
+   * Refuse to encrypt if any selected field is missing from the payload,
+   * rather than skipping it
+   */
+  requireFields?: boolean;
+  
+  /**
+   * Wrap the DEK under a key derived from this passphrase, instead of or
+   * (with `doubleWrap`) in addition to the key provider
+   */
+  passphrase?: PassphraseOptions;
+  
+  /** Compress the payload before encrypting it; not allowed with `fields` */
+  compression?: CompressionOptions;
+};
+
+/**
+ * Options for `decryptPayload`
+ */
+export type DecryptOptions = {
+  /** Available key providers (defaults to those configured in env) */
+  providers?: KeyProviderRegistry;
+  
+  /**
+   * For `fields` mode records, decrypt only these paths (wildcards expand
+   * against the encrypted fields); other encrypted fields stay null.
+   * Defaults to all encrypted fields.
+   */
+  paths?: string[];
+  
+  /** Passphrase of records whose DEK is wrapped under one */
+  passphrase?: string;
+  
+  /**
+   * Largest size a compressed payload may inflate to, in bytes (defaults
+   * to `DEFAULT_MAX_INFLATED_BYTES`)
+   */
+  maxInflatedBytes?: number;
+};
+
+/**
+ * One payload to encrypt with `encryptMany`
+ */
+export type EncryptManyItem = {
+  partyId: string;
+  payload: unknown;
+} & Pick<EncryptOptions, 'alg' | 'expiresAt' | 'fields' | 'requireFields' | 'compression'>;
+
+/**
+ * One record to decrypt with `decryptMany`
+ */
+export type DecryptManyItem = {
+  record: TxSecureRecord;
+  
+  /** For `fields` mode records, decrypt only these paths */
+  paths?: string[];
+};
+
+/**
+ * Outcome of one item of a batch; a failed item doesn't fail the batch
+ *
+ * Failures carry the message and, for errors thrown by this package, the
+ * `CryptoError` code, since error classes don't survive a worker pool.
+ */
+export type BatchResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string; code?: CryptoErrorCode };
+
+/**
+ * Options shared by `encryptMany` and `decryptMany`
+ */
+export type BatchOptions = {
+  /**
+   * Worker pool to run the batch on instead of the calling thread; workers
+   * use the key providers configured in env
+   */
+  pool?: CryptoWorkerPool;
+  
+  /** Items in flight at once, e.g. to bound concurrent KMS calls (default 8) */
+  concurrency?: number;
+};
+
+const DEFAULT_BATCH_CONCURRENCY = 8;
+
+/**
+ * Options for `rewrapRecord`
+ */
+export type RewrapOptions = {
+  /**
+   * Rewrap even if the record already names the target's active key, e.g.
+   * when it was wrapped under another deployment's key with the same id and
+   * version
+   */
+  force?: boolean;
+};
+
+/**
+ * Unwrapped DEKs of a batch, keyed by wrapped DEK and AAD
+ */
+type DekCache = Map<string, Promise<Buffer>>;
+
+/**
+ * Record fields fixed before the payload is encrypted, all bound into the AAD
+ */
+type RecordMetadata = Pick<
+  TxSecureRecord,
+  | 'record_version'
+  | 'id'
+  | 'partyId'
+  | 'createdAt'
+  | 'expiresAt'
+  | 'alg'
+  | 'mode'
+  | 'payload_clear'
+  | 'payload_fields'
+  | 'kdf'
+  | 'compression'
+>;
+
+/**
+ * Encrypts a payload using envelope encryption
  * 
  * Process:
  * 1. Generate a random Data Encryption Key (DEK) - 32 bytes
- * 2. Encrypt the payload with the DEK using AES-256-GCM
- * 3. Wrap (encrypt) the DEK with the Master Key using AES-256-GCM
+ * 2. Encrypt the payload with the DEK using the selected AEAD algorithm
+ *    (AES-256-GCM unless `alg` is given), compressed first if `compression`
+ *    is given and the payload reaches its threshold, with the record
+ *    metadata as AAD (in `fields` mode, encrypt each selected field
+ *    separately and authenticate the cleartext remainder)
+ * 3. Wrap (encrypt) the DEK with the key provider's active key, with the
+ *    record id as AAD (with `passphrase`, under a key derived from it
+ *    instead, or first under it and then the key provider)
  * 4. Return all components as hex strings
  * 
  * @param partyId - Party identifier
  * @param payload - Data to encrypt
+ * @param options - Key provider, algorithm, expiry, field selection, passphrase
+ *   and compression
  * @returns Encrypted record with all necessary decryption metadata
- * @throws Error if encryption fails or MASTER_KEY is invalid
+ * @throws InvalidFieldSelectionError if the field selection is malformed or
+ *   matches nothing in the payload
+ * @throws InvalidRecordError if both `fields` and `compression` are given
+ * @throws Error if encryption fails, the expiry is not in the future, or the
+ *   key provider is unavailable
  */
-export function encryptPayload(partyId: string, payload: unknown): TxSecureRecord {
-  const masterKey = getMasterKey();
+export async function encryptPayload(
+  partyId: string,
+  payload: unknown,
+  options: EncryptOptions = {}
+): Promise<TxSecureRecord> {
+  const algorithm = getAlgorithm(options.alg ?? DEFAULT_ALGORITHM);
+  const metadata = createMetadata(partyId, algorithm, options.expiresAt);
   
-  // Generate a random 256-bit DEK
-  const dek = crypto.randomBytes(32);
+  if (options.passphrase) {
+    metadata.kdf = createKdfParams(options.passphrase.cost);
+  }
   
-  // Serialize payload
-  const payloadString = JSON.stringify(payload);
-  const payloadBuffer = Buffer.from(payloadString, 'utf8');
+  const provider = wrappingProvider(metadata, options);
   
-  // Encrypt payload with DEK (AES-256-GCM)
-  const payloadNonce = crypto.randomBytes(12); // 12 bytes for GCM
-  const payloadCipher = crypto.createCipheriv('aes-256-gcm', dek, payloadNonce);
+  // Generate a random DEK for the algorithm (256 bits for all registered ones)
+  const dek = crypto.randomBytes(algorithm.keyBytes);
   
-  const encryptedPayloadParts = [
-    payloadCipher.update(payloadBuffer),
-    payloadCipher.final()
-  ];
-  const payloadCt = Buffer.concat(encryptedPayloadParts);
-  const payloadTag = payloadCipher.getAuthTag(); // 16 bytes for GCM
+  let payloadBuffer: Buffer;
   
-  // Wrap DEK with Master Key (AES-256-GCM)
-  const dekWrapNonce = crypto.randomBytes(12); // 12 bytes for GCM
-  const dekCipher = crypto.createCipheriv('aes-256-gcm', masterKey, dekWrapNonce);
+  if (options.fields !== undefined) {
+    if (options.compression) {
+      throw new InvalidRecordError(
+        'compression',
+        'Compression is only supported for whole-payload records, not with fields'
+      );
+    }
+    
+    // Encrypt selected fields individually; the payload ciphertext is then
+    // empty and its tag authenticates the cleartext remainder via the AAD
+    const paths = resolvePaths(payload, options.fields, options.requireFields);
+    const clear = structuredClone(payload);
+    const fields: Record<string, EncryptedField> = {};
+    
+    metadata.mode = 'fields';
+    
+    for (const path of paths) {
+      const value = Buffer.from(JSON.stringify(getAtPath(payload, path) ?? null), 'utf8');
+      fields[path] = toHexField(aeadSeal(algorithm, dek, value, buildFieldAad(metadata, path)));
+      setAtPath(clear, path, null);
+    }
+    
+    metadata.payload_clear = clear;
+    metadata.payload_fields = fields;
+    payloadBuffer = Buffer.alloc(0);
+  } else {
+    // Serialize payload
+    payloadBuffer = Buffer.from(JSON.stringify(payload), 'utf8');
+    
+    if (options.compression) {
+      const compressed = compressPayload(payloadBuffer, options.compression);
+      payloadBuffer = compressed.data;
+      metadata.compression = compressed.algorithm;
+    }
+  }
   
-  const encryptedDekParts = [
-    dekCipher.update(dek),
-    dekCipher.final()
-  ];
-  const dekWrapped = Buffer.concat(encryptedDekParts);
-  const dekWrapTag = dekCipher.getAuthTag(); // 16 bytes for GCM
+  // Encrypt payload with DEK and wrap DEK with the key provider
+  return sealRecord(metadata, dek, payloadBuffer, provider);
+}
+
+/**
+ * An in-progress `stream` mode encryption
+ */
+export type StreamEncryption = {
+  /** Id of the record being created */
+  id: string;
+  
+  /** Transform to pipe plaintext through; emits the chunked ciphertext */
+  stream: Transform;
+  
+  /**
+   * Seals the manifest and wraps the DEK once the content is written
+   * @returns The finished record
+   */
+  finish(manifest: StreamManifest): Promise<TxSecureRecord>;
+};
+
+/**
+ * Starts encrypting content too large to hold in memory
+ * 
+ * The content is encrypted in the chunked stream format under a fresh DEK
+ * and bound to the record; the record itself only carries the encrypted
+ * manifest, so the ciphertext must be stored alongside it by the caller.
+ * 
+ * @param partyId - Party identifier
+ * @param options - Key provider, algorithm, expiry and stream segment size
+ * @throws Error if the expiry is not in the future or the key provider is unavailable
+ */
+export function beginStreamEncryption(
+  partyId: string,
+  options: Pick<EncryptOptions, 'provider' | 'alg' | 'expiresAt'> & { segmentSize?: number } = {}
+): StreamEncryption {
+  const provider = forParty(options.provider ?? getActiveKeyProvider(), partyId);
+  const algorithm = getAlgorithm(options.alg ?? DEFAULT_ALGORITHM);
+  const metadata = {
+    ...createMetadata(partyId, algorithm, options.expiresAt),
+    mode: 'stream' as const
+  };
+  const dek = crypto.randomBytes(algorithm.keyBytes);
+  
+  return {
+    id: metadata.id,
+    stream: createEncryptStream(dek, {
+      alg: algorithm.id,
+      segmentSize: options.segmentSize,
+      aad: buildStreamAad(metadata)
+    }),
+    finish: (manifest) =>
+      sealRecord(metadata, dek, Buffer.from(JSON.stringify(manifest), 'utf8'), provider)
+  };
+}
+
+/**
+ * Opens a `stream` mode record for decryption
+ * 
+ * @param record - Record created by `beginStreamEncryption`
+ * @param options - Key providers
+ * @returns The authenticated manifest and a Transform that decrypts the stored content
+ * @throws InvalidRecordError if the record is not a stream record, or any
+ *   error `decryptPayload` throws
+ */
+export async function openStreamDecryption(
+  record: TxSecureRecord,
+  options: Pick<DecryptOptions, 'providers'> = {}
+): Promise<{ manifest: StreamManifest; stream: Transform }> {
+  if (record.mode !== 'stream') {
+    throw new InvalidRecordError('mode', 'Record does not hold streamed content');
+  }
+  
+  const { dek, payload } = await openRecord(record, options);
   
   return {
+    manifest: JSON.parse(payload.toString('utf8')),
+    stream: createDecryptStream(dek, { alg: record.alg, aad: buildStreamAad(record) })
+  };
+}
+
+/**
+ * Creates the metadata of a new record
+ * @throws Error if the expiry is invalid or not in the future
+ */
+function createMetadata(
+  partyId: string,
+  algorithm: AeadAlgorithm,
+  expiresAt?: Date
+): RecordMetadata {
+  const createdAt = new Date();
+  
+  if (expiresAt !== undefined && !(expiresAt.getTime() > createdAt.getTime())) {
+    throw new Error('expiresAt must be a date in the future');
+  }
+  
+  return {
+    record_version: CURRENT_RECORD_VERSION,
     id: crypto.randomUUID(),
     partyId,
-    createdAt: new Date().toISOString(),
-    payload_nonce: payloadNonce.toString('hex'),
-    payload_ct: payloadCt.toString('hex'),
-    payload_tag: payloadTag.toString('hex'),
-    dek_wrap_nonce: dekWrapNonce.toString('hex'),
-    dek_wrapped: dekWrapped.toString('hex'),
-    dek_wrap_tag: dekWrapTag.toString('hex'),
-    alg: 'AES-256-GCM',
-    mk_version: 1
+    createdAt: createdAt.toISOString(),
+    ...(expiresAt && { expiresAt: expiresAt.toISOString() }),
+    alg: algorithm.id
+  };
+}
+
+/**
+ * Finds the provider that wraps a new record's DEK: the key provider, the
+ * passphrase key, or both layered
+ */
+function wrappingProvider(
+  metadata: RecordMetadata,
+  options: Pick<EncryptOptions, 'provider' | 'passphrase'>
+): KeyProvider {
+  const { passphrase } = options;
+  
+  if (passphrase && !passphrase.doubleWrap) {
+    return passphraseProvider(metadata, passphrase.passphrase);
+  }
+  
+  const provider = forParty(options.provider ?? getActiveKeyProvider(), metadata.partyId);
+  
+  return passphrase
+    ? createDoubleWrapProvider(
+        provider,
+        passphraseProvider(metadata, passphrase.passphrase),
+        buildPassphraseLayerAad(metadata)
+      )
+    : provider;
+}
+
+/**
+ * Encrypts the payload bytes and wraps the DEK, producing the final record
+ */
+async function sealRecord(
+  metadata: RecordMetadata,
+  dek: Buffer,
+  payload: Buffer,
+  provider: KeyProvider
+): Promise<TxSecureRecord> {
+  const sealed = aeadSeal(getAlgorithm(metadata.alg), dek, payload, buildPayloadAad(metadata));
+  const wrapped = await wrapDek(provider, metadata, dek);
+  
+  return {
+    record_version: metadata.record_version,
+    id: metadata.id,
+    partyId: metadata.partyId,
+    createdAt: metadata.createdAt,
+    ...(metadata.expiresAt && { expiresAt: metadata.expiresAt }),
+    payload_nonce: sealed.nonce.toString('hex'),
+    payload_ct: sealed.ciphertext.toString('hex'),
+    payload_tag: sealed.tag.toString('hex'),
+    ...(metadata.compression && { compression: metadata.compression }),
+    ...toRecordFields(provider, wrapped),
+    ...(metadata.kdf && { kdf: metadata.kdf }),
+    ...(metadata.mode && { mode: metadata.mode }),
+    ...(metadata.mode === 'fields' && {
+      payload_clear: metadata.payload_clear,
+      payload_fields: metadata.payload_fields
+    }),
+    alg: metadata.alg
+  };
+}
+
+/**
+ * Wraps a DEK under a provider's active key, with DEK-wrap AAD that binds
+ * the key version on version 3 records
+ * @throws KeyUnavailableError if the active key changed while wrapping
+ */
+async function wrapDek(
+  provider: KeyProvider,
+  record: Pick<TxSecureRecord, 'record_version' | 'id' | 'kdf'>,
+  dek: Buffer
+): Promise<WrappedKey> {
+  const { version } = await provider.activeKey();
+  const wrapped = await provider.wrapKey(dek, buildDekWrapAad({ ...record, mk_version: version }));
+  
+  if (wrapped.version !== version) {
+    throw new KeyUnavailableError(
+      `${provider.name} key rotated from version ${version} to ${wrapped.version} while wrapping`
+    );
+  }
+  
+  return wrapped;
+}
+
+/**
+ * Validates a record, unwraps its DEK and decrypts its payload bytes
+ * @throws InvalidRecordError, UnsupportedAlgorithmError, RecordExpiredError,
+ *   KeyUnavailableError, UnknownKeyVersionError or AuthenticationFailedError
+ */
+async function openRecord(
+  record: TxSecureRecord,
+  options: Pick<DecryptOptions, 'providers' | 'passphrase' | 'maxInflatedBytes'>,
+  deks?: DekCache
+): Promise<{ dek: Buffer; payload: Buffer }> {
+  const { providers = loadKeyProviders(), passphrase } = options;
+  
+  // Validate record structure
+  validateRecord(record);
+  
+  // Refuse expired records; expiresAt itself is authenticated below
+  if (isExpired(record)) {
+    throw new RecordExpiredError(record.expiresAt!);
+  }
+  
+  const provider = resolveUnwrappingProvider(record, providers, passphrase);
+  
+  // Unwrap DEK with the key provider
+  const dek = await unwrapDek(record, provider, deks);
+  
+  // Decrypt payload with DEK under the record's algorithm
+  const payload = aeadOpen(getAlgorithm(record.alg), dek, {
+    nonce: Buffer.from(record.payload_nonce, 'hex'),
+    ciphertext: Buffer.from(record.payload_ct, 'hex'),
+    tag: Buffer.from(record.payload_tag, 'hex')
+  }, buildPayloadAad(record));
+  
+  if (record.compression === undefined) {
+    return { dek, payload };
+  }
+  
+  // Inflate only now that the payload has authenticated, and within bounds
+  return {
+    dek,
+    payload: decompressPayload(payload, record.compression, options.maxInflatedBytes)
   };
 }
 
+/**
+ * Unwraps a record's DEK, reusing the result for identical wrapped DEKs
+ * within a batch
+ */
+function unwrapDek(
+  record: TxSecureRecord,
+  provider: KeyProvider,
+  deks?: DekCache
+): Promise<Buffer> {
+  const wrapped = toWrappedKey(record);
+  const aad = buildDekWrapAad(record);
+  
+  if (!deks) {
+    return provider.unwrapKey(wrapped, aad);
+  }
+  
+  const cacheKey = [
+    provider.name,
+    wrapped.keyId,
+    wrapped.version,
+    record.dek_wrap_nonce,
+    record.dek_wrapped,
+    record.dek_wrap_tag,
+    aad?.toString('hex') ?? ''
+  ].join(':');
+  
+  let dek = deks.get(cacheKey);
+  if (!dek) {
+    dek = provider.unwrapKey(wrapped, aad);
+    deks.set(cacheKey, dek);
+  }
+  return dek;
+}
+
 /**
  * Decrypts a secure transaction record
  * 
  * Process:
  * 1. Validate all inputs (hex format, nonce/tag lengths)
- * 2. Unwrap (decrypt) the DEK using the Master Key
- * 3. Decrypt the payload using the unwrapped DEK
+ * 2. Unwrap (decrypt) the DEK with the provider that wrapped it
+ * 3. Decrypt the payload using the unwrapped DEK (in `fields` mode,
+ *    authenticate the cleartext and decrypt the requested fields)
  * 4. Parse and return the original payload
  * 
  * @param record - Encrypted record to decrypt
+ * @param options - Key providers, passphrase and, for `fields` mode, paths to decrypt
  * @returns Original payload
- * @throws Error if validation fails, decryption fails, or data is tampered
+ * @throws InvalidRecordError or UnsupportedAlgorithmError if the record is
+ *   malformed
+ * @throws RecordExpiredError if the record has expired
+ * @throws PassphraseRequiredError if the DEK is wrapped under a passphrase
+ *   and none is given
+ * @throws KeyUnavailableError or UnknownKeyVersionError if the DEK's
+ *   wrapping key can't be used
+ * @throws AuthenticationFailedError if the data, metadata or wrapped DEK
+ *   has been tampered with
+ * @throws InvalidFieldSelectionError if paths are given for a record not in
+ *   `fields` mode, or a path matches no encrypted field
  */
-export function decryptPayload(record: TxSecureRecord): unknown {
-  // Validate record structure
+export async function decryptPayload(
+  record: TxSecureRecord,
+  options: DecryptOptions = {}
+): Promise<unknown> {
+  return decryptRecord(record, options);
+}
+
+/**
+ * Encrypts many payloads, each into its own record
+ * 
+ * Each item is encrypted as by `encryptPayload`; the key provider is
+ * resolved once for the whole batch.
+ * 
+ * @param items - Payloads with their party and per-item options
+ * @param options - Key provider, worker pool and concurrency
+ * @returns One result per item, in order
+ * @throws Error if no key provider is available, or a provider is given
+ *   together with a pool
+ */
+export async function encryptMany(
+  items: EncryptManyItem[],
+  options: Pick<EncryptOptions, 'provider'> & BatchOptions = {}
+): Promise<BatchResult<TxSecureRecord>[]> {
+  if (options.pool) {
+    if (options.provider) {
+      throw new Error('Key providers cannot be passed to a worker pool');
+    }
+    
+    // Create missing party KEKs on this thread, so workers only read them
+    const active = getActiveKeyProvider();
+    if (active.name === PARTY_PROVIDER_NAME) {
+      for (const partyId of new Set(items.map((item) => item.partyId))) {
+        await (active as PartyKeyProvider).ensureKey(partyId);
+      }
+    }
+    
+    const results = await options.pool.run({
+      op: 'encrypt',
+      items,
+      concurrency: options.concurrency
+    });
+    return results as BatchResult<TxSecureRecord>[];
+  }
+  
+  const provider = options.provider ?? getActiveKeyProvider();
+  
+  return settleAll(items, options.concurrency, (item) =>
+    encryptPayload(item.partyId, item.payload, {
+      provider,
+      alg: item.alg,
+      expiresAt: item.expiresAt,
+      fields: item.fields,
+      requireFields: item.requireFields,
+      compression: item.compression
+    })
+  );
+}
+
+/**
+ * Decrypts many records
+ * 
+ * Each distinct wrapped DEK is unwrapped once per batch, however many
+ * items share it. Expired records fail like they do in `decryptPayload`.
+ * 
+ * @param items - Records with, for `fields` mode, the paths to decrypt
+ * @param options - Key providers, inflated size limit, worker pool and concurrency
+ * @returns One result per item, in order
+ * @throws Error if providers are given together with a pool
+ */
+export async function decryptMany(
+  items: DecryptManyItem[],
+  options: Pick<DecryptOptions, 'providers' | 'maxInflatedBytes'> & BatchOptions = {}
+): Promise<BatchResult<unknown>[]> {
+  const { maxInflatedBytes } = options;
+  
+  if (options.pool) {
+    if (options.providers) {
+      throw new Error('Key providers cannot be passed to a worker pool');
+    }
+    return options.pool.run({
+      op: 'decrypt',
+      items,
+      concurrency: options.concurrency,
+      maxInflatedBytes
+    });
+  }
+  
+  const providers = options.providers ?? loadKeyProviders();
+  const deks: DekCache = new Map();
+  
+  return settleAll(items, options.concurrency, (item) =>
+    decryptRecord(item.record, { providers, paths: item.paths, maxInflatedBytes }, deks)
+  );
+}
+
+/**
+ * Decrypts a record, sharing unwrapped DEKs through `deks` if given
+ */
+async function decryptRecord(
+  record: TxSecureRecord,
+  options: DecryptOptions,
+  deks?: DekCache
+): Promise<unknown> {
+  const requestedPaths = options.paths?.map(normalizePath);
+  
+  if (requestedPaths !== undefined && record.mode !== 'fields') {
+    throw new InvalidFieldSelectionError('Paths can only be selected on records in fields mode');
+  }
+  
+  const { dek, payload } = await openRecord(record, options, deks);
+  
+  if (record.mode !== 'fields') {
+    return JSON.parse(payload.toString('utf8'));
+  }
+  
+  // Cleartext is authenticated at this point; restore the requested fields
+  const fields = record.payload_fields ?? {};
+  const result = structuredClone(record.payload_clear);
+  const paths =
+    requestedPaths === undefined
+      ? Object.keys(fields)
+      : matchPaths(requestedPaths, Object.keys(fields));
+  
+  for (const path of paths) {
+    const field = fields[path]!;
+    const value = aeadOpen(
+      getAlgorithm(record.alg),
+      dek,
+      fromHexField(field),
+      buildFieldAad(record, path)
+    );
+    setAtPath(result, path, JSON.parse(value.toString('utf8')));
+  }
+  
+  return result;
+}
+
+/**
+ * Checks whether a record is past its `expiresAt`
+ */
+export function isExpired(
+  record: Pick<TxSecureRecord, 'expiresAt'>,
+  now: Date = new Date()
+): boolean {
+  return record.expiresAt !== undefined && Date.parse(record.expiresAt) <= now.getTime();
+}
+
+/**
+ * Re-encrypts a record's DEK under the active key provider's current key
+ * 
+ * Only the `dek_*`, `mk_version` and `kms_*` fields change; the payload
+ * ciphertext, nonce and tag are carried over untouched. Records already
+ * wrapped under the current key (unless `force`d), and records wrapped only
+ * under a passphrase, are returned as-is.
+ * 
+ * @param record - Encrypted record to rewrap
+ * @param providers - Available key providers (defaults to those configured in env)
+ * @param target - Provider to rewrap under (defaults to `KMS_PROVIDER`)
+ * @param options - Whether to rewrap records already under the active key
+ * @returns Record whose DEK is wrapped under the target provider's active key
+ * @throws InvalidRecordError or UnsupportedAlgorithmError if the record is malformed
+ * @throws KeyUnavailableError, UnknownKeyVersionError or
+ *   AuthenticationFailedError if the DEK cannot be unwrapped
+ */
+export async function rewrapRecord(
+  record: TxSecureRecord,
+  providers: KeyProviderRegistry = loadKeyProviders(),
+  target: KeyProvider = getActiveKeyProvider(providers),
+  options: RewrapOptions = {}
+): Promise<TxSecureRecord> {
   validateRecord(record);
   
-  const masterKey = getMasterKey();
+  const scoped = forParty(target, record.partyId);
+  
+  if (record.kms_provider === PASSPHRASE_PROVIDER_NAME) {
+    return record;
+  }
+  
+  if (!options.force && !(await needsRewrap(record, scoped))) {
+    return record;
+  }
+  
+  const source = resolveProvider(record, providers);
   
+  // For double-wrapped records this is the passphrase-wrapped DEK, which
+  // is rewrapped as it is
+  let dek: Buffer;
   try {
-    // Unwrap DEK with Master Key
-    const dekWrapNonce = Buffer.from(record.dek_wrap_nonce, 'hex');
-    const dekWrapped = Buffer.from(record.dek_wrapped, 'hex');
-    const dekWrapTag = Buffer.from(record.dek_wrap_tag, 'hex');
-    
-    const dekDecipher = crypto.createDecipheriv(
-      'aes-256-gcm',
-      masterKey,
-      dekWrapNonce
-    );
-    dekDecipher.setAuthTag(dekWrapTag);
-    
-    const dekParts = [
-      dekDecipher.update(dekWrapped),
-      dekDecipher.final()
-    ];
-    const dek = Buffer.concat(dekParts);
-    
-    // Decrypt payload with DEK
-    const payloadNonce = Buffer.from(record.payload_nonce, 'hex');
-    const payloadCt = Buffer.from(record.payload_ct, 'hex');
-    const payloadTag = Buffer.from(record.payload_tag, 'hex');
-    
-    const payloadDecipher = crypto.createDecipheriv(
-      'aes-256-gcm',
-      dek,
-      payloadNonce
+    dek = await source.unwrapKey(toWrappedKey(record), buildDekWrapAad(record));
+  } catch (error) {
+    if (error instanceof CryptoError) {
+      throw error;
+    }
+    throw new KeyUnavailableError(
+      `Rewrap failed: could not unwrap DEK with ${source.name} key ` +
+      `'${record.kms_key_id ?? ENV_KEY_ID}' version ${record.mk_version}`,
+      { cause: error }
     );
-    payloadDecipher.setAuthTag(payloadTag);
-    
-    const payloadParts = [
-      payloadDecipher.update(payloadCt),
-      payloadDecipher.final()
-    ];
-    const decryptedPayload = Buffer.concat(payloadParts);
-    
-    return JSON.parse(decryptedPayload.toString('utf8'));
+  }
+  
+  return {
+    ...record,
+    ...toRecordFields(scoped, await wrapDek(scoped, record, dek))
+  };
+}
+
+/**
+ * Checks whether a record's DEK is wrapped under a key other than the
+ * target provider's active key
+ * 
+ * Records wrapped only under a passphrase never are: no provider holds
+ * their key. Double-wrapped records rewrap their outer layer.
+ */
+export async function needsRewrap(
+  record: TxSecureRecord,
+  target: KeyProvider = getActiveKeyProvider()
+): Promise<boolean> {
+  if (record.kms_provider === PASSPHRASE_PROVIDER_NAME) {
+    return false;
+  }
+  
+  const active = await forParty(target, record.partyId).activeKey();
+  
+  return (
+    (record.kms_provider ?? 'env') !== target.name ||
+    (record.kms_key_id ?? ENV_KEY_ID) !== active.keyId ||
+    record.mk_version !== active.version
+  );
+}
+
+/**
+ * Checks that the given providers hold the key a record's DEK is wrapped
+ * under, by unwrapping it without decrypting the payload
+ * 
+ * Records wrapped only under a passphrase always pass: their key derives
+ * from the passphrase and the record's own `kdf`. Double-wrapped records
+ * check their outer layer.
+ * 
+ * @throws InvalidRecordError or UnsupportedAlgorithmError if the record is malformed
+ * @throws KeyUnavailableError, UnknownKeyVersionError or
+ *   AuthenticationFailedError if the DEK cannot be unwrapped
+ */
+export async function assertKeyAvailable(
+  record: TxSecureRecord,
+  providers: KeyProviderRegistry = loadKeyProviders()
+): Promise<void> {
+  validateRecord(record);
+  
+  if (record.kms_provider === PASSPHRASE_PROVIDER_NAME) {
+    return;
+  }
+  
+  const provider = resolveProvider(record, providers);
+  
+  try {
+    (await provider.unwrapKey(toWrappedKey(record), buildDekWrapAad(record))).fill(0);
   } catch (error) {
-    if (error instanceof Error) {
-      // GCM authentication failures indicate tampering
-      if (error.message.includes('Unsupported state') || 
-          error.message.includes('bad decrypt')) {
-        throw new Error('Decryption failed: data may be tampered or corrupted');
+    if (error instanceof CryptoError) {
+      throw error;
+    }
+    throw new KeyUnavailableError(
+      `Could not unwrap DEK with ${provider.name} key ` +
+      `'${record.kms_key_id ?? ENV_KEY_ID}' version ${record.mk_version}`,
+      { cause: error }
+    );
+  }
+}
+
+/**
+ * Runs `fn` over items with bounded concurrency, capturing each item's
+ * outcome instead of failing on the first error
+ */
+async function settleAll<T, R>(
+  items: T[],
+  concurrency: number = DEFAULT_BATCH_CONCURRENCY,
+  fn: (item: T) => Promise<R>
+): Promise<BatchResult<R>[]> {
+  const results = new Array<BatchResult<R>>(items.length);
+  let next = 0;
+  
+  const work = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { ok: true, value: await fn(items[index]!) };
+      } catch (error) {
+        const code = errorCodeOf(error);
+        results[index] = {
+          ok: false,
+          error: error instanceof Error ? error.message : String(error),
+          ...(code && { code })
+        };
       }
-      throw new Error(`Decryption failed: ${error.message}`);
     }
-    throw new Error('Decryption failed: unknown error');
+  };
+  
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, work));
+  return results;
+}
+
+/**
+ * Narrows a provider to the key it wraps a party's DEKs with
+ */
+function forParty(provider: KeyProvider, partyId: string): KeyProvider {
+  return provider.forParty?.(partyId) ?? provider;
+}
+
+/**
+ * Finds the provider that wrapped a record's DEK
+ * @throws KeyUnavailableError if that provider is not configured
+ */
+function resolveProvider(record: TxSecureRecord, providers: KeyProviderRegistry): KeyProvider {
+  // Records created before provider tracking were always wrapped from env
+  const name = record.kms_provider ?? 'env';
+  const provider = providers.get(name);
+  
+  if (!provider) {
+    throw new KeyUnavailableError(`Key provider '${name}' is not configured`);
   }
+  
+  return provider;
+}
+
+/**
+ * Finds the provider that unwraps a record's DEK, deriving the passphrase
+ * key for records wrapped under one
+ * @throws PassphraseRequiredError if the record needs a passphrase and none is given
+ * @throws KeyUnavailableError if the record's key provider is not configured
+ */
+function resolveUnwrappingProvider(
+  record: TxSecureRecord,
+  providers: KeyProviderRegistry,
+  passphrase?: string
+): KeyProvider {
+  if (record.kdf === undefined) {
+    return resolveProvider(record, providers);
+  }
+  
+  if (passphrase === undefined) {
+    throw new PassphraseRequiredError();
+  }
+  
+  if (record.kms_provider === PASSPHRASE_PROVIDER_NAME) {
+    return passphraseProvider(record, passphrase);
+  }
+  
+  return createDoubleWrapProvider(
+    resolveProvider(record, providers),
+    passphraseProvider(record, passphrase),
+    buildPassphraseLayerAad(record)
+  );
+}
+
+/**
+ * Creates the provider for a party's passphrase with a record's key derivation
+ */
+function passphraseProvider(
+  record: Pick<TxSecureRecord, 'partyId' | 'kdf'>,
+  passphrase: string
+): KeyProvider {
+  return createPassphraseKeyProvider(passphrase, record.kdf!, record.partyId);
+}
+
+function toHexField(sealed: SealedData): EncryptedField {
+  return {
+    nonce: sealed.nonce.toString('hex'),
+    ct: sealed.ciphertext.toString('hex'),
+    tag: sealed.tag.toString('hex')
+  };
+}
+
+function fromHexField(field: EncryptedField): SealedData {
+  return {
+    nonce: Buffer.from(field.nonce, 'hex'),
+    ciphertext: Buffer.from(field.ct, 'hex'),
+    tag: Buffer.from(field.tag, 'hex')
+  };
+}
+
+/**
+ * Extracts the wrapped DEK from a record
+ */
+function toWrappedKey(record: TxSecureRecord): WrappedKey {
+  return {
+    keyId: record.kms_key_id ?? ENV_KEY_ID,
+    version: record.mk_version,
+    nonce: Buffer.from(record.dek_wrap_nonce, 'hex'),
+    ciphertext: Buffer.from(record.dek_wrapped, 'hex'),
+    tag: Buffer.from(record.dek_wrap_tag, 'hex')
+  };
+}
+
+/**
+ * Converts a wrapped DEK into record fields
+ */
+function toRecordFields(
+  provider: KeyProvider,
+  wrapped: WrappedKey
+): Pick<
+  TxSecureRecord,
+  'dek_wrap_nonce' | 'dek_wrapped' | 'dek_wrap_tag' | 'mk_version' | 'kms_provider' | 'kms_key_id'
+> {
+  return {
+    dek_wrap_nonce: wrapped.nonce.toString('hex'),
+    dek_wrapped: wrapped.ciphertext.toString('hex'),
+    dek_wrap_tag: wrapped.tag.toString('hex'),
+    mk_version: wrapped.version,
+    kms_provider: provider.name,
+    kms_key_id: wrapped.keyId
+  };
 }
 
 /**
- * Validates a TxSecureRecord before decryption
+ * Validates the structure of a TxSecureRecord, as done before decryption
+ * 
+ * Also used to check records sealed elsewhere, e.g. by a browser, before
+ * they are stored.
  * 
  * Checks:
  * - All hex fields are valid hex strings
- * - Nonces are exactly 12 bytes (24 hex chars)
- * - Tags are exactly 16 bytes (32 hex chars)
- * - Algorithm and version are correct
+ * - Payload and field nonces and tags match the algorithm's sizes
+ * - DEK-wrap nonces are exactly 12 bytes and tags 16 bytes
+ * - Record format version is supported
+ * - Algorithm is supported and master key version is a positive integer
+ * - Key provider fields, when present, are non-empty strings
+ * - Expiry, when present, is a timestamp on a versioned record
+ * - Passphrase key derivation, when present, is scrypt within cost bounds
+ * - Compression, when present, is a known codec on a whole-payload record
+ * - `fields` mode records carry well-formed encrypted fields
  * 
  * @param record - Record to validate
- * @throws Error if validation fails
+ * @throws InvalidRecordError naming the offending field if validation fails
+ * @throws UnsupportedAlgorithmError if the algorithm is not registered
  */
-function validateRecord(record: TxSecureRecord): void {
+export function validateRecord(record: TxSecureRecord): void {
   // Validate algorithm
-  if (record.alg !== 'AES-256-GCM') {
-    throw new Error(`Unsupported algorithm: ${record.alg}`);
+  const algorithm = getAlgorithm(record.alg);
+  
+  // Validate record format version
+  if (
+    record.record_version !== undefined &&
+    (!Number.isInteger(record.record_version) ||
+      record.record_version < 2 ||
+      record.record_version > CURRENT_RECORD_VERSION)
+  ) {
+    throw new InvalidRecordError(
+      'record_version',
+      `Unsupported record version: ${record.record_version}`
+    );
+  }
+  
+  // Legacy records predate algorithm selection
+  if (record.record_version === undefined && algorithm.id !== 'AES-256-GCM') {
+    throw new InvalidRecordError(
+      'record_version',
+      `Algorithm ${algorithm.id} requires a record version`
+    );
   }
   
   // Validate master key version
-  if (record.mk_version !== 1) {
-    throw new Error(`Unsupported master key version: ${record.mk_version}`);
+  if (!Number.isInteger(record.mk_version) || record.mk_version < 1) {
+    throw new InvalidRecordError(
+      'mk_version',
+      `Unsupported master key version: ${record.mk_version}`
+    );
+  }
+  
+  // Validate key provider metadata
+  for (const name of ['kms_provider', 'kms_key_id'] as const) {
+    const value = record[name];
+    if (value !== undefined && (typeof value !== 'string' || value.length === 0)) {
+      throw new InvalidRecordError(name, `Invalid ${name}: must be a non-empty string`);
+    }
+  }
+  
+  // Validate field-level encryption metadata
+  if (record.mode !== undefined && record.mode !== 'fields' && record.mode !== 'stream') {
+    throw new InvalidRecordError('mode', `Unsupported mode: ${record.mode}`);
+  }
+  
+  if (record.mode !== undefined && record.record_version === undefined) {
+    throw new InvalidRecordError(
+      'record_version',
+      `Records in ${record.mode} mode require a record version`
+    );
+  }
+  
+  // Validate expiry; legacy records have no AAD to authenticate it
+  if (record.expiresAt !== undefined) {
+    if (typeof record.expiresAt !== 'string' || Number.isNaN(Date.parse(record.expiresAt))) {
+      throw new InvalidRecordError('expiresAt', 'Invalid expiresAt: must be an ISO 8601 timestamp');
+    }
+    if (record.record_version === undefined) {
+      throw new InvalidRecordError(
+        'record_version',
+        'Records with an expiry require a record version'
+      );
+    }
+  }
+  
+  // Validate passphrase key derivation; it is authenticated by the DEK-wrap AAD
+  if (record.kdf !== undefined) {
+    validateKdfParams(record.kdf);
+    if (record.record_version === undefined) {
+      throw new InvalidRecordError(
+        'record_version',
+        'Passphrase-protected records require a record version'
+      );
+    }
+  } else if (record.kms_provider === PASSPHRASE_PROVIDER_NAME) {
+    throw new InvalidRecordError('kdf', 'Invalid kdf: required for passphrase-wrapped DEKs');
+  }
+  
+  // Validate compression; it is authenticated by the payload AAD
+  if (record.compression !== undefined) {
+    if (!isCompressionAlgorithm(record.compression)) {
+      throw new InvalidRecordError(
+        'compression',
+        `Unsupported compression: ${record.compression}`
+      );
+    }
+    if (record.record_version === undefined || record.mode !== undefined) {
+      throw new InvalidRecordError(
+        'compression',
+        'Only versioned whole-payload records can be compressed'
+      );
+    }
+  }
+  
+  if (record.mode === 'fields') {
+    if (typeof record.payload_fields !== 'object' || record.payload_fields === null) {
+      throw new InvalidRecordError('payload_fields', 'Invalid payload_fields: must be an object');
+    }
   }
   
   // Validate hex format and lengths
   const hexFields: Array<{ name: string; value: string; expectedBytes?: number }> = [
-    { name: 'payload_nonce', value: record.payload_nonce, expectedBytes: 12 },
+    { name: 'payload_nonce', value: record.payload_nonce, expectedBytes: algorithm.nonceBytes },
     { name: 'payload_ct', value: record.payload_ct },
-    { name: 'payload_tag', value: record.payload_tag, expectedBytes: 16 },
+    { name: 'payload_tag', value: record.payload_tag, expectedBytes: algorithm.tagBytes },
     { name: 'dek_wrap_nonce', value: record.dek_wrap_nonce, expectedBytes: 12 },
     { name: 'dek_wrapped', value: record.dek_wrapped },
     { name: 'dek_wrap_tag', value: record.dek_wrap_tag, expectedBytes: 16 },
   ];
   
+  for (const [path, field] of Object.entries(record.payload_fields ?? {})) {
+    hexFields.push(
+      {
+        name: `payload_fields['${path}'].nonce`,
+        value: field.nonce,
+        expectedBytes: algorithm.nonceBytes
+      },
+      { name: `payload_fields['${path}'].ct`, value: field.ct },
+      { name: `payload_fields['${path}'].tag`, value: field.tag, expectedBytes: algorithm.tagBytes }
+    );
+  }
+  
   for (const field of hexFields) {
     // Check if valid hex string
     if (!/^[0-9a-fA-F]*$/.test(field.value)) {
-      throw new Error(`Invalid hex in field '${field.name}'`);
+      throw new InvalidRecordError(field.name, `Invalid hex in field '${field.name}'`);
     }
     
     // Check if even length (valid hex encoding)
     if (field.value.length % 2 !== 0) {
-      throw new Error(`Invalid hex length in field '${field.name}': must be even`);
+      throw new InvalidRecordError(
+        field.name,
+        `Invalid hex length in field '${field.name}': must be even`
+      );
     }
     
     // Check expected byte length if specified
     if (field.expectedBytes !== undefined) {
       const actualBytes = field.value.length / 2;
       if (actualBytes !== field.expectedBytes) {
-        throw new Error(
+        throw new InvalidRecordError(
+          field.name,
           `Invalid ${field.name} length: expected ${field.expectedBytes} bytes ` +
           `(${field.expectedBytes * 2} hex chars), got ${actualBytes} bytes ` +
           `(${field.value.length} hex chars)`
@@ -191,30 +1225,3 @@ function validateRecord(record: TxSecureRecord): void {
     }
   }
 }
-
-/**
- * Retrieves and validates the Master Key from environment
- * @throws Error if MASTER_KEY is not defined or invalid
- */
-function getMasterKey(): Buffer {
-  const masterKeyHex = process.env.MASTER_KEY;
-  
-  if (!masterKeyHex) {
-    throw new Error('MASTER_KEY environment variable is not defined');
-  }
-  
-  // Validate hex format
-  if (!/^[0-9a-fA-F]+$/.test(masterKeyHex)) {
-    throw new Error('MASTER_KEY must be a valid hex string');
-  }
-  
-  const masterKey = Buffer.from(masterKeyHex, 'hex');
-  
-  if (masterKey.length !== 32) {
-    throw new Error(
-      `MASTER_KEY must be exactly 32 bytes (64 hex characters), got ${masterKey.length} bytes`
-    );
-  }
-  
-  return masterKey;
-}
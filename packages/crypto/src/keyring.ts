@@ -0,0 +1,133 @@
+import { UnknownKeyVersionError } from './errors.js';
+
+/**
+ * Versioned master key ring
+ *
+ * One key is active and used to wrap new DEKs; the remaining keys are
+ * retained only so that records wrapped under them can still be decrypted
+ * (and rewrapped under the active key).
+ */
+export type Keyring = {
+  /** Version of the key used for new encryptions */
+  activeVersion: number;
+
+  /** All known master keys, indexed by version */
+  keys: Map<number, Buffer>;
+};
+
+const RETIRED_KEY_PATTERN = /^MASTER_KEY_V(\d+)$/;
+
+/**
+ * Builds the keyring from environment variables
+ *
+ * - `MASTER_KEY` is the active key
+ * - `MASTER_KEY_VERSION` is its version (defaults to 1)
+ * - `MASTER_KEY_V<n>` holds a retired key of version `n`
+ *
+ * @throws Error if a key is missing, malformed or versions are inconsistent
+ */
+export function loadKeyring(env: NodeJS.ProcessEnv = process.env): Keyring {
+  const activeHex = env.MASTER_KEY;
+
+  if (!activeHex) {
+    throw new Error('MASTER_KEY environment variable is not defined');
+  }
+
+  const activeVersion = parseKeyVersion(env.MASTER_KEY_VERSION ?? '1', 'MASTER_KEY_VERSION');
+  const keys = new Map<number, Buffer>();
+
+  for (const [name, value] of Object.entries(env)) {
+    const match = RETIRED_KEY_PATTERN.exec(name);
+    if (!match || value === undefined) {
+      continue;
+    }
+
+    const version = parseKeyVersion(match[1]!, name);
+    keys.set(version, parseMasterKey(value, name));
+  }
+
+  const activeKey = parseMasterKey(activeHex, 'MASTER_KEY');
+  const retiredActive = keys.get(activeVersion);
+
+  if (retiredActive && !retiredActive.equals(activeKey)) {
+    throw new Error(
+      `MASTER_KEY_V${activeVersion} conflicts with MASTER_KEY for active version ${activeVersion}`
+    );
+  }
+
+  keys.set(activeVersion, activeKey);
+
+  return { activeVersion, keys };
+}
+
+/**
+ * Creates a keyring from explicit key material
+ * @throws Error if the active version has no key or a key is invalid
+ */
+export function createKeyring(activeVersion: number, keys: Record<number, string>): Keyring {
+  const keyring: Keyring = { activeVersion, keys: new Map() };
+
+  for (const [version, hex] of Object.entries(keys)) {
+    keyring.keys.set(parseKeyVersion(version, 'key version'), parseMasterKey(hex, `key v${version}`));
+  }
+
+  if (!keyring.keys.has(activeVersion)) {
+    throw new Error(`Keyring has no key for active version ${activeVersion}`);
+  }
+
+  return keyring;
+}
+
+/**
+ * Looks up the master key for a given version
+ * @throws UnknownKeyVersionError if the version is not present in the keyring
+ */
+export function getMasterKey(keyring: Keyring, version: number): Buffer {
+  const key = keyring.keys.get(version);
+
+  if (!key) {
+    throw new UnknownKeyVersionError(version);
+  }
+
+  return key;
+}
+
+/**
+ * Returns the active master key and its version
+ */
+export function getActiveKey(keyring: Keyring): { version: number; key: Buffer } {
+  return {
+    version: keyring.activeVersion,
+    key: getMasterKey(keyring, keyring.activeVersion)
+  };
+}
+
+/**
+ * Validates and decodes a 32-byte hex master key
+ * @throws Error if the value is not 64 hex characters
+ */
+function parseMasterKey(hex: string, name: string): Buffer {
+  if (!/^[0-9a-fA-F]+$/.test(hex)) {
+    throw new Error(`${name} must be a valid hex string`);
+  }
+
+  const key = Buffer.from(hex, 'hex');
+
+  if (key.length !== 32) {
+    throw new Error(
+      `${name} must be exactly 32 bytes (64 hex characters), got ${key.length} bytes`
+    );
+  }
+
+  return key;
+}
+
+function parseKeyVersion(value: string, name: string): number {
+  const version = Number(value);
+
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`${name} must be a positive integer, got '${value}'`);
+  }
+
+  return version;
+}
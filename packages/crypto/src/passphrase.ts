@@ -0,0 +1,229 @@
+import crypto from 'node:crypto';
+import { unwrapWithKey, wrapWithKey } from './providers/keyring.js';
+import { KeyProvider, WrappedKey } from './providers/types.js';
+import { AuthenticationFailedError, InvalidRecordError } from './errors.js';
+import { KdfParams } from './types.js';
+
+/**
+ * Passphrase-derived keys
+ *
+ * A party can have its records' DEKs wrapped under a key derived from a
+ * passphrase with scrypt, instead of or in addition to the key provider.
+ * The salt and cost parameters are stored in the record's `kdf`, so the
+ * key can be derived again from the passphrase alone.
+ */
+
+/** Provider name recorded for DEKs wrapped only under a passphrase */
+export const PASSPHRASE_PROVIDER_NAME = 'passphrase';
+
+/** Passphrase keys have no versions; a new passphrase means new records */
+export const PASSPHRASE_KEY_VERSION = 1;
+
+export type ScryptCost = Pick<KdfParams, 'N' | 'r' | 'p'>;
+
+/** Costs new passphrase keys are derived with: 128 MiB and about 0.3s per derivation */
+export const DEFAULT_SCRYPT_COST: ScryptCost = { N: 2 ** 17, r: 8, p: 1 };
+
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+/** Bounds on derivation cost, so a crafted `kdf` can't exhaust the process */
+const MAX_SCRYPT_MEMORY_BYTES = 1024 * 1024 * 1024;
+const MAX_SCRYPT_BLOCK_SIZE = 32;
+const MAX_SCRYPT_PARALLELIZATION = 16;
+
+/** Sizes of the parts of a passphrase-wrapped DEK packed for double wrapping */
+const WRAP_NONCE_BYTES = 12;
+const WRAP_TAG_BYTES = 16;
+
+/**
+ * Wraps the DEK under a passphrase-derived key
+ */
+export type PassphraseOptions = {
+  passphrase: string;
+
+  /**
+   * Also wrap under the key provider, so that both the passphrase and the
+   * master key are needed to decrypt; otherwise the passphrase alone is
+   */
+  doubleWrap?: boolean;
+
+  /** scrypt costs (defaults to `DEFAULT_SCRYPT_COST`) */
+  cost?: Partial<ScryptCost>;
+};
+
+/**
+ * Creates key derivation parameters with a fresh salt
+ * @throws InvalidRecordError if the costs are out of bounds
+ */
+export function createKdfParams(cost: Partial<ScryptCost> = {}): KdfParams {
+  const kdf: KdfParams = {
+    alg: 'scrypt',
+    salt: crypto.randomBytes(SALT_BYTES).toString('hex'),
+    ...DEFAULT_SCRYPT_COST,
+    ...cost
+  };
+
+  validateKdfParams(kdf);
+  return kdf;
+}
+
+/**
+ * Checks a record's key derivation parameters
+ * @throws InvalidRecordError if they are malformed or their cost is out of bounds
+ */
+export function validateKdfParams(kdf: KdfParams): void {
+  if (typeof kdf !== 'object' || kdf === null || kdf.alg !== 'scrypt') {
+    throw new InvalidRecordError('kdf', 'Invalid kdf: alg must be scrypt');
+  }
+
+  if (typeof kdf.salt !== 'string' || !/^([0-9a-fA-F]{2})+$/.test(kdf.salt)) {
+    throw new InvalidRecordError('kdf', 'Invalid kdf: salt must be non-empty hex');
+  }
+
+  const { N, r, p } = kdf;
+
+  if (!Number.isInteger(N) || N < 2 || (N & (N - 1)) !== 0) {
+    throw new InvalidRecordError('kdf', 'Invalid kdf: N must be a power of two');
+  }
+
+  if (!Number.isInteger(r) || r < 1 || r > MAX_SCRYPT_BLOCK_SIZE) {
+    throw new InvalidRecordError('kdf', `Invalid kdf: r must be 1 to ${MAX_SCRYPT_BLOCK_SIZE}`);
+  }
+
+  if (!Number.isInteger(p) || p < 1 || p > MAX_SCRYPT_PARALLELIZATION) {
+    throw new InvalidRecordError('kdf', `Invalid kdf: p must be 1 to ${MAX_SCRYPT_PARALLELIZATION}`);
+  }
+
+  if (scryptMemory(kdf) > MAX_SCRYPT_MEMORY_BYTES) {
+    throw new InvalidRecordError('kdf', 'Invalid kdf: N and r need too much memory');
+  }
+}
+
+/**
+ * Creates a provider that wraps DEKs under the key a passphrase derives
+ * with the given parameters
+ *
+ * The key is derived once, on first use, and kept for the provider's
+ * lifetime.
+ *
+ * @param keyId - Recorded as `kms_key_id`: the party the passphrase belongs to
+ */
+export function createPassphraseKeyProvider(
+  passphrase: string,
+  kdf: KdfParams,
+  keyId: string
+): KeyProvider {
+  let key: Promise<Buffer> | undefined;
+  const derive = () => (key ??= deriveKey(passphrase, kdf));
+
+  return {
+    name: PASSPHRASE_PROVIDER_NAME,
+
+    async activeKey() {
+      return { keyId, version: PASSPHRASE_KEY_VERSION };
+    },
+
+    async wrapKey(dek, aad) {
+      return { keyId, version: PASSPHRASE_KEY_VERSION, ...wrapWithKey(dek, await derive(), aad) };
+    },
+
+    async unwrapKey(wrapped, aad) {
+      const derived = await derive();
+
+      try {
+        return unwrapWithKey(wrapped, derived, aad);
+      } catch {
+        throw new AuthenticationFailedError(
+          'DEK unwrap failed: wrong passphrase or tampered wrapped DEK'
+        );
+      }
+    }
+  };
+}
+
+/**
+ * Layers a passphrase provider under a key provider, so that both keys are
+ * needed: DEKs are wrapped under the passphrase key, and the result again
+ * by the key provider
+ *
+ * Records carry the outer provider's name and key, so rotating the master
+ * key rewraps the outer layer without needing the passphrase.
+ *
+ * @param innerAad - AAD of the passphrase layer, which must stay the same
+ *   when the outer layer is rewrapped (defaults to the outer layer's AAD)
+ */
+export function createDoubleWrapProvider(
+  outer: KeyProvider,
+  inner: KeyProvider,
+  innerAad?: Buffer
+): KeyProvider {
+  return {
+    name: outer.name,
+
+    activeKey() {
+      return outer.activeKey();
+    },
+
+    async wrapKey(dek, aad) {
+      return outer.wrapKey(packWrappedKey(await inner.wrapKey(dek, innerAad ?? aad)), aad);
+    },
+
+    async unwrapKey(wrapped, aad) {
+      const packed = await outer.unwrapKey(wrapped, aad);
+      return inner.unwrapKey(unpackWrappedKey(packed, await inner.activeKey()), innerAad ?? aad);
+    }
+  };
+}
+
+/**
+ * Packs a passphrase-wrapped DEK into the bytes the outer provider wraps:
+ * nonce | ciphertext | tag
+ */
+function packWrappedKey(wrapped: WrappedKey): Buffer {
+  return Buffer.concat([wrapped.nonce, wrapped.ciphertext, wrapped.tag]);
+}
+
+/**
+ * Reverses `packWrappedKey`
+ * @throws AuthenticationFailedError if the bytes are too short to be a wrapped DEK
+ */
+function unpackWrappedKey(
+  packed: Buffer,
+  key: Pick<WrappedKey, 'keyId' | 'version'>
+): WrappedKey {
+  if (packed.length <= WRAP_NONCE_BYTES + WRAP_TAG_BYTES) {
+    throw new AuthenticationFailedError('DEK unwrap failed: inner wrapped DEK is truncated');
+  }
+
+  return {
+    ...key,
+    nonce: packed.subarray(0, WRAP_NONCE_BYTES),
+    ciphertext: packed.subarray(WRAP_NONCE_BYTES, packed.length - WRAP_TAG_BYTES),
+    tag: packed.subarray(packed.length - WRAP_TAG_BYTES)
+  };
+}
+
+/**
+ * Derives a key with scrypt off the main thread
+ */
+function deriveKey(passphrase: string, kdf: KdfParams): Promise<Buffer> {
+  const { N, r, p } = kdf;
+
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(
+      passphrase.normalize('NFC'),
+      Buffer.from(kdf.salt, 'hex'),
+      KEY_BYTES,
+      { N, r, p, maxmem: scryptMemory(kdf) },
+      (error, key) => (error ? reject(error) : resolve(key))
+    );
+  });
+}
+
+/**
+ * Memory scrypt needs for a set of parameters, as OpenSSL counts it
+ */
+function scryptMemory({ N, r, p }: ScryptCost): number {
+  return 128 * r * (N + p + 2);
+}
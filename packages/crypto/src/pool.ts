@@ -0,0 +1,173 @@
+import os from 'node:os';
+import { Worker } from 'node:worker_threads';
+import type { BatchResult, DecryptManyItem, EncryptManyItem } from './index.js';
+
+/**
+ * A batch sent to a worker
+ */
+export type PoolTask =
+  | { op: 'encrypt'; items: EncryptManyItem[]; concurrency?: number }
+  | { op: 'decrypt'; items: DecryptManyItem[]; concurrency?: number; maxInflatedBytes?: number };
+
+/**
+ * Messages between the pool and its workers
+ */
+export type PoolRequest = { id: number; task: PoolTask };
+export type PoolResponse =
+  | { id: number; results: BatchResult<unknown>[] }
+  | { id: number; error: string };
+
+export type CryptoWorkerPoolOptions = {
+  /** Number of worker threads (defaults to the number of CPUs, at most 4) */
+  size?: number;
+};
+
+/**
+ * Worker threads that run `encryptMany`/`decryptMany` off the calling
+ * thread
+ *
+ * Workers load key providers from their own environment, which is a copy of
+ * the parent's at the time the pool is created. `encryptMany` creates any
+ * missing party KEKs on the calling thread before handing a batch over, and
+ * the party keystore's lockfile covers workers too.
+ */
+export interface CryptoWorkerPool {
+  readonly size: number;
+
+  /**
+   * Splits a batch across the workers
+   * @returns One result per item, in order
+   */
+  run(task: PoolTask): Promise<BatchResult<unknown>[]>;
+
+  /** Terminates the workers; pending batches are rejected */
+  close(): Promise<void>;
+}
+
+type PendingChunk = {
+  request: PoolRequest;
+  resolve: (results: BatchResult<unknown>[]) => void;
+  reject: (error: Error) => void;
+};
+
+type PoolWorker = {
+  worker: Worker;
+  current?: PendingChunk;
+};
+
+/**
+ * Starts a pool of crypto worker threads
+ */
+export function createCryptoWorkerPool(options: CryptoWorkerPoolOptions = {}): CryptoWorkerPool {
+  const size = options.size ?? Math.min(4, os.availableParallelism());
+
+  if (!Number.isInteger(size) || size < 1) {
+    throw new Error('Worker pool size must be a positive integer');
+  }
+
+  const queue: PendingChunk[] = [];
+  const workers: PoolWorker[] = [];
+  let nextId = 1;
+  let closed = false;
+
+  const dispatch = () => {
+    for (const entry of workers) {
+      if (entry.current || queue.length === 0) {
+        continue;
+      }
+      entry.current = queue.shift()!;
+      entry.worker.ref();
+      entry.worker.postMessage(entry.current.request);
+    }
+  };
+
+  const spawn = (): PoolWorker => {
+    const entry: PoolWorker = { worker: new Worker(new URL('./worker.js', import.meta.url)) };
+
+    entry.worker.on('message', (response: PoolResponse) => {
+      const chunk = entry.current;
+      entry.current = undefined;
+      entry.worker.unref();
+
+      if (chunk && chunk.request.id === response.id) {
+        if ('error' in response) {
+          chunk.reject(new Error(response.error));
+        } else {
+          chunk.resolve(response.results);
+        }
+      }
+      dispatch();
+    });
+
+    // A crashed worker fails only the chunk it was running and is replaced
+    entry.worker.on('error', (error) => {
+      entry.current?.reject(error);
+      entry.current = undefined;
+    });
+
+    entry.worker.on('exit', () => {
+      const index = workers.indexOf(entry);
+      if (index === -1) {
+        return;
+      }
+
+      entry.current?.reject(new Error('Crypto worker exited'));
+      if (closed) {
+        workers.splice(index, 1);
+      } else {
+        workers[index] = spawn();
+        dispatch();
+      }
+    });
+
+    // Idle workers don't keep the process alive
+    entry.worker.unref();
+    return entry;
+  };
+
+  for (let i = 0; i < size; i++) {
+    workers.push(spawn());
+  }
+
+  const runChunk = (task: PoolTask) =>
+    new Promise<BatchResult<unknown>[]>((resolve, reject) => {
+      queue.push({ request: { id: nextId++, task }, resolve, reject });
+      dispatch();
+    });
+
+  return {
+    size,
+
+    async run(task) {
+      if (closed) {
+        throw new Error('Crypto worker pool is closed');
+      }
+
+      if (task.items.length === 0) {
+        return [];
+      }
+
+      // Contiguous chunks keep the results in order when concatenated
+      const chunkSize = Math.ceil(task.items.length / size);
+      const chunks: Promise<BatchResult<unknown>[]>[] = [];
+
+      for (let start = 0; start < task.items.length; start += chunkSize) {
+        chunks.push(
+          runChunk({ ...task, items: task.items.slice(start, start + chunkSize) } as PoolTask)
+        );
+      }
+
+      return (await Promise.all(chunks)).flat();
+    },
+
+    async close() {
+      closed = true;
+
+      for (const chunk of queue.splice(0)) {
+        chunk.reject(new Error('Crypto worker pool is closed'));
+      }
+
+      await Promise.all(workers.map((entry) => entry.worker.terminate()));
+    }
+  };
+}
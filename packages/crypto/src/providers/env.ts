@@ -0,0 +1,16 @@
+import { Keyring, loadKeyring } from '../keyring.js';
+import { createKeyringProvider } from './keyring.js';
+import { KeyProvider } from './types.js';
+
+/** Key id recorded for DEKs wrapped by the env provider */
+export const ENV_KEY_ID = 'MASTER_KEY';
+
+/**
+ * Creates a provider backed by master keys held in process env
+ * (`MASTER_KEY`, `MASTER_KEY_VERSION`, `MASTER_KEY_V<n>`)
+ *
+ * @param keyring - Fixed keyring to use instead of reading the environment
+ */
+export function createEnvKeyProvider(keyring?: Keyring): KeyProvider {
+  return createKeyringProvider('env', ENV_KEY_ID, () => keyring ?? loadKeyring());
+}
@@ -0,0 +1,84 @@
+import fs from 'node:fs';
+import { Keyring, createKeyring } from '../keyring.js';
+import { createKeyringProvider } from './keyring.js';
+import { KeyProvider } from './types.js';
+
+/**
+ * On-disk keystore layout
+ *
+ * ```json
+ * { "keyId": "prod-2024", "activeVersion": 2, "keys": { "1": "<hex>", "2": "<hex>" } }
+ * ```
+ */
+type KeystoreFile = {
+  keyId: string;
+  activeVersion: number;
+  keys: Record<string, string>;
+};
+
+/**
+ * Creates a provider backed by a JSON keystore file
+ *
+ * The keystore is read once on first use and cached for the lifetime of the
+ * provider, so the file can live on a mounted secret volume with tight
+ * permissions instead of in process env.
+ *
+ * @param path - Path to the keystore file
+ * @throws Error on first use if the keystore is missing or malformed
+ */
+export function createFileKeyProvider(path: string): KeyProvider {
+  let provider: KeyProvider | undefined;
+
+  const load = (): KeyProvider => {
+    if (!provider) {
+      const { keyId, keyring } = readKeystore(path);
+      provider = createKeyringProvider('file', keyId, () => keyring);
+    }
+    return provider;
+  };
+
+  return {
+    name: 'file',
+
+    async activeKey() {
+      return load().activeKey();
+    },
+
+    async wrapKey(dek, aad) {
+      return load().wrapKey(dek, aad);
+    },
+
+    async unwrapKey(wrapped, aad) {
+      return load().unwrapKey(wrapped, aad);
+    }
+  };
+}
+
+function readKeystore(path: string): { keyId: string; keyring: Keyring } {
+  let parsed: KeystoreFile;
+
+  try {
+    parsed = JSON.parse(fs.readFileSync(path, 'utf8'));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'unknown error';
+    throw new Error(`Failed to read keystore '${path}': ${reason}`);
+  }
+
+  if (!parsed || typeof parsed.keyId !== 'string' || parsed.keyId.length === 0) {
+    throw new Error(`Keystore '${path}' must define a non-empty 'keyId'`);
+  }
+
+  if (typeof parsed.keys !== 'object' || parsed.keys === null) {
+    throw new Error(`Keystore '${path}' must define 'keys'`);
+  }
+
+  const keys: Record<number, string> = {};
+  for (const [version, hex] of Object.entries(parsed.keys)) {
+    keys[Number(version)] = hex;
+  }
+
+  return {
+    keyId: parsed.keyId,
+    keyring: createKeyring(parsed.activeVersion, keys)
+  };
+}
@@ -0,0 +1,235 @@
+import http from 'node:http';
+import {
+  AuthenticationFailedError,
+  CryptoError,
+  KeyUnavailableError,
+  UnknownKeyVersionError
+} from '../errors.js';
+import { Keyring } from '../keyring.js';
+import { createKeyringProvider } from './keyring.js';
+import { KeyProvider, WrappedKey } from './types.js';
+
+export type HttpKeyProviderOptions = {
+  /** Base URL of the KMS, e.g. `http://localhost:8200` */
+  url: string;
+
+  /** Identifier of the key to wrap new DEKs with */
+  keyId: string;
+
+  /** Bearer token sent with every request */
+  token?: string;
+};
+
+type WireWrappedKey = {
+  keyId: string;
+  version: number;
+  nonce: string;
+  ciphertext: string;
+  tag: string;
+};
+
+/**
+ * Creates a provider that delegates wrapping to a remote KMS over HTTP
+ *
+ * The wire protocol mirrors a cloud KMS: key material never leaves the
+ * service, and clients only exchange DEKs for wrapped DEKs.
+ *
+ * - `GET  /v1/keys/:keyId`        → `{ keyId, version }`
+ * - `POST /v1/keys/:keyId/wrap`   `{ plaintext, aad? }` → wrapped key
+ * - `POST /v1/keys/:keyId/unwrap` `{ ...wrapped key, aad? }` → `{ plaintext }`
+ *
+ * Binary values are hex encoded on the wire. `aad` plays the role of a cloud
+ * KMS encryption context. Failed unwraps answer `{ error, code }` with the
+ * code of the failure, e.g. `authentication_failed`, which is rethrown as the
+ * matching error; other failures surface as `KeyUnavailableError`.
+ */
+export function createHttpKeyProvider(options: HttpKeyProviderOptions): KeyProvider {
+  const baseUrl = options.url.replace(/\/+$/, '');
+
+  const call = async <T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (options.token) {
+      headers.Authorization = `Bearer ${options.token}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body)
+      });
+    } catch (error) {
+      throw new KeyUnavailableError(`KMS request ${method} ${path} failed`, { cause: error });
+    }
+
+    if (!response.ok) {
+      const failure = (await response.json().catch(() => ({}))) as {
+        code?: unknown;
+        version?: unknown;
+      };
+
+      if (failure.code === 'authentication_failed') {
+        throw new AuthenticationFailedError();
+      }
+      if (failure.code === 'unknown_key_version') {
+        throw new UnknownKeyVersionError(Number(failure.version));
+      }
+      throw new KeyUnavailableError(
+        `KMS request ${method} ${path} failed with status ${response.status}`
+      );
+    }
+
+    return (await response.json()) as T;
+  };
+
+  const keyPath = (keyId: string) => `/v1/keys/${encodeURIComponent(keyId)}`;
+
+  return {
+    name: 'http',
+
+    async activeKey() {
+      return call<{ keyId: string; version: number }>('GET', keyPath(options.keyId));
+    },
+
+    async wrapKey(dek, aad) {
+      const wrapped = await call<WireWrappedKey>('POST', `${keyPath(options.keyId)}/wrap`, {
+        plaintext: dek.toString('hex'),
+        aad: aad?.toString('hex')
+      });
+      return fromWire(wrapped);
+    },
+
+    async unwrapKey(wrapped, aad) {
+      const { plaintext } = await call<{ plaintext: string }>(
+        'POST',
+        `${keyPath(wrapped.keyId)}/unwrap`,
+        { ...toWire(wrapped), aad: aad?.toString('hex') }
+      );
+      return Buffer.from(plaintext, 'hex');
+    }
+  };
+}
+
+/**
+ * Starts a local KMS stand-in speaking the same protocol as
+ * `createHttpKeyProvider`, for development and testing
+ *
+ * @param keyrings - Keyrings served by the stand-in, indexed by key id
+ * @param options - Listen port and optional bearer token to require
+ * @returns The listening HTTP server
+ */
+export async function startLocalKms(
+  keyrings: Record<string, Keyring>,
+  options: { port?: number; host?: string; token?: string } = {}
+): Promise<http.Server> {
+  const providers = new Map(
+    Object.entries(keyrings).map(([keyId, keyring]) => [
+      keyId,
+      createKeyringProvider('local-kms', keyId, () => keyring)
+    ])
+  );
+
+  const server = http.createServer((req, res) => {
+    handleKmsRequest(providers, options.token, req)
+      .then(({ status, body }) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      })
+      .catch(() => {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Internal KMS error' }));
+      });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 8200, options.host ?? '127.0.0.1', resolve);
+  });
+
+  return server;
+}
+
+async function handleKmsRequest(
+  providers: Map<string, KeyProvider>,
+  token: string | undefined,
+  req: http.IncomingMessage
+): Promise<{ status: number; body: unknown }> {
+  if (token && req.headers.authorization !== `Bearer ${token}`) {
+    return { status: 401, body: { error: 'Unauthorized' } };
+  }
+
+  const match = /^\/v1\/keys\/([^/]+)(?:\/(wrap|unwrap))?$/.exec(req.url ?? '');
+  const provider = match ? providers.get(decodeURIComponent(match[1]!)) : undefined;
+
+  if (!match || !provider) {
+    return { status: 404, body: { error: 'Key not found' } };
+  }
+
+  const operation = match[2];
+
+  if (!operation && req.method === 'GET') {
+    return { status: 200, body: await provider.activeKey() };
+  }
+
+  if (!operation || req.method !== 'POST') {
+    return { status: 405, body: { error: 'Method not allowed' } };
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch {
+    return { status: 400, body: { error: 'Invalid JSON body' } };
+  }
+
+  const aad = typeof body.aad === 'string' ? Buffer.from(body.aad, 'hex') : undefined;
+
+  try {
+    if (operation === 'wrap') {
+      const dek = Buffer.from(String(body.plaintext ?? ''), 'hex');
+      return { status: 200, body: toWire(await provider.wrapKey(dek, aad)) };
+    }
+
+    const dek = await provider.unwrapKey(fromWire(body as WireWrappedKey), aad);
+    return { status: 200, body: { plaintext: dek.toString('hex') } };
+  } catch (error) {
+    return {
+      status: 400,
+      body: {
+        error: `Failed to ${operation} key`,
+        ...(error instanceof CryptoError && { code: error.code }),
+        ...(error instanceof UnknownKeyVersionError && { version: error.version })
+      }
+    };
+  }
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function toWire(wrapped: WrappedKey): WireWrappedKey {
+  return {
+    keyId: wrapped.keyId,
+    version: wrapped.version,
+    nonce: wrapped.nonce.toString('hex'),
+    ciphertext: wrapped.ciphertext.toString('hex'),
+    tag: wrapped.tag.toString('hex')
+  };
+}
+
+function fromWire(wrapped: WireWrappedKey): WrappedKey {
+  return {
+    keyId: String(wrapped.keyId),
+    version: Number(wrapped.version),
+    nonce: Buffer.from(String(wrapped.nonce), 'hex'),
+    ciphertext: Buffer.from(String(wrapped.ciphertext), 'hex'),
+    tag: Buffer.from(String(wrapped.tag), 'hex')
+  };
+}
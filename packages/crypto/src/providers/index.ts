@@ -0,0 +1,82 @@
+import { createEcdhKeyProvider } from './ecdh.js';
+import { createEnvKeyProvider } from './env.js';
+import { createFileKeyProvider } from './file.js';
+import { createHttpKeyProvider } from './http.js';
+import { PARTY_PROVIDER_NAME, createPartyKeyProvider } from './party.js';
+import { KeyUnavailableError } from '../errors.js';
+import { ECDH_PROVIDER_NAME } from '../recipient.js';
+import { KeyProvider, KeyProviderRegistry } from './types.js';
+
+export type { ActiveKey, KeyProvider, KeyProviderRegistry, WrappedKey } from './types.js';
+export { createEcdhKeyProvider, type EcdhKeyProvider } from './ecdh.js';
+export { createEnvKeyProvider, ENV_KEY_ID } from './env.js';
+export { createFileKeyProvider } from './file.js';
+export { createHttpKeyProvider, startLocalKms, type HttpKeyProviderOptions } from './http.js';
+export { createPartyKeyProvider, PARTY_PROVIDER_NAME, type PartyKeyProvider } from './party.js';
+
+/**
+ * Builds every key provider configured in the environment
+ *
+ * - `env` when `MASTER_KEY` is set
+ * - `file` when `KMS_KEYSTORE_PATH` is set
+ * - `http` when `KMS_URL` and `KMS_KEY_ID` are set (`KMS_TOKEN` optional)
+ * - `ecdh` when `ECDH_KEYSTORE_PATH` is set
+ * - `party` when `PARTY_KEYS_PATH` is set, with its KEKs wrapped by the
+ *   provider named in `PARTY_KEYS_PROVIDER` (defaults to `env`)
+ */
+export function loadKeyProviders(env: NodeJS.ProcessEnv = process.env): KeyProviderRegistry {
+  const providers = new Map<string, KeyProvider>();
+
+  if (env.MASTER_KEY) {
+    providers.set('env', createEnvKeyProvider());
+  }
+
+  if (env.KMS_KEYSTORE_PATH) {
+    providers.set('file', createFileKeyProvider(env.KMS_KEYSTORE_PATH));
+  }
+
+  if (env.KMS_URL && env.KMS_KEY_ID) {
+    providers.set(
+      'http',
+      createHttpKeyProvider({ url: env.KMS_URL, keyId: env.KMS_KEY_ID, token: env.KMS_TOKEN })
+    );
+  }
+
+  if (env.ECDH_KEYSTORE_PATH) {
+    providers.set(ECDH_PROVIDER_NAME, createEcdhKeyProvider(env.ECDH_KEYSTORE_PATH));
+  }
+
+  if (env.PARTY_KEYS_PATH) {
+    providers.set(
+      PARTY_PROVIDER_NAME,
+      createPartyKeyProvider(env.PARTY_KEYS_PATH, providers, env.PARTY_KEYS_PROVIDER ?? 'env')
+    );
+  }
+
+  return providers;
+}
+
+/**
+ * Returns the provider that wraps new DEKs, selected by `KMS_PROVIDER`
+ * (defaults to `env`)
+ *
+ * @throws KeyUnavailableError if the selected provider is not configured
+ */
+export function getActiveKeyProvider(
+  providers: KeyProviderRegistry = loadKeyProviders(),
+  env: NodeJS.ProcessEnv = process.env
+): KeyProvider {
+  const name = env.KMS_PROVIDER ?? 'env';
+  const provider = providers.get(name);
+
+  if (!provider) {
+    if (name === 'env') {
+      throw new KeyUnavailableError('MASTER_KEY environment variable is not defined');
+    }
+    throw new KeyUnavailableError(
+      `Key provider '${name}' is selected by KMS_PROVIDER but not configured`
+    );
+  }
+
+  return provider;
+}
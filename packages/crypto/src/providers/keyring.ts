@@ -0,0 +1,83 @@
+import crypto from 'node:crypto';
+import { Keyring, getActiveKey, getMasterKey } from '../keyring.js';
+import { AuthenticationFailedError, KeyUnavailableError } from '../errors.js';
+import { KeyProvider, WrappedKey } from './types.js';
+
+/**
+ * Creates a provider that wraps DEKs locally with AES-256-GCM under the
+ * keys of a versioned keyring
+ *
+ * Shared by the env and file providers and by the local KMS stand-in.
+ *
+ * @param name - Provider name recorded in records
+ * @param keyId - Identifier of the keyring
+ * @param loadKeys - Returns the keyring; called on every operation
+ */
+export function createKeyringProvider(
+  name: string,
+  keyId: string,
+  loadKeys: () => Keyring
+): KeyProvider {
+  return {
+    name,
+
+    async activeKey() {
+      return { keyId, version: loadKeys().activeVersion };
+    },
+
+    async wrapKey(dek, aad) {
+      const { version, key } = getActiveKey(loadKeys());
+      return { keyId, version, ...wrapWithKey(dek, key, aad) };
+    },
+
+    async unwrapKey(wrapped, aad) {
+      if (wrapped.keyId !== keyId) {
+        throw new KeyUnavailableError(`Key provider '${name}' does not hold key '${wrapped.keyId}'`);
+      }
+
+      return unwrapWithKey(wrapped, getMasterKey(loadKeys(), wrapped.version), aad);
+    }
+  };
+}
+
+/**
+ * Wraps a DEK with a Master Key using AES-256-GCM
+ */
+export function wrapWithKey(
+  dek: Buffer,
+  masterKey: Buffer,
+  aad?: Buffer
+): Pick<WrappedKey, 'nonce' | 'ciphertext' | 'tag'> {
+  const nonce = crypto.randomBytes(12); // 12 bytes for GCM
+  const cipher = crypto.createCipheriv('aes-256-gcm', masterKey, nonce);
+  if (aad) {
+    cipher.setAAD(aad);
+  }
+
+  const ciphertext = Buffer.concat([cipher.update(dek), cipher.final()]);
+  const tag = cipher.getAuthTag(); // 16 bytes for GCM
+
+  return { nonce, ciphertext, tag };
+}
+
+/**
+ * Unwraps a DEK with a Master Key
+ * @throws AuthenticationFailedError if GCM authentication of the wrapped DEK fails
+ */
+export function unwrapWithKey(
+  wrapped: Pick<WrappedKey, 'nonce' | 'ciphertext' | 'tag'>,
+  masterKey: Buffer,
+  aad?: Buffer
+): Buffer {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', masterKey, wrapped.nonce);
+  decipher.setAuthTag(wrapped.tag);
+  if (aad) {
+    decipher.setAAD(aad);
+  }
+
+  try {
+    return Buffer.concat([decipher.update(wrapped.ciphertext), decipher.final()]);
+  } catch {
+    throw new AuthenticationFailedError('DEK unwrap failed: wrong key or tampered wrapped DEK');
+  }
+}
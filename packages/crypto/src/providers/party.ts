@@ -0,0 +1,374 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { unwrapWithKey, wrapWithKey } from './keyring.js';
+import { KeyUnavailableError, UnknownKeyVersionError } from '../errors.js';
+import { KeyProvider, KeyProviderRegistry, WrappedKey } from './types.js';
+
+export const PARTY_PROVIDER_NAME = 'party';
+
+/** Party KEKs are never rotated in place; shredding replaces them */
+const PARTY_KEY_VERSION = 1;
+
+/**
+ * On-disk party keystore layout; each KEK is stored wrapped by a parent provider
+ *
+ * ```json
+ * { "parties": { "party-a": { "provider": "env", "keyId": "MASTER_KEY", "version": 1,
+ *                             "nonce": "<hex>", "ciphertext": "<hex>", "tag": "<hex>" } } }
+ * ```
+ */
+type PartyKeystoreFile = {
+  parties: Record<string, StoredPartyKey>;
+};
+
+type StoredPartyKey = {
+  provider: string;
+  keyId: string;
+  version: number;
+  nonce: string;
+  ciphertext: string;
+  tag: string;
+};
+
+/**
+ * Key provider that keeps one key-encryption key (KEK) per party between
+ * the master key and the DEKs
+ *
+ * Records wrapped by it carry `kms_provider: "party"` and the party id as
+ * `kms_key_id`. Shredding a party's KEK makes every DEK wrapped under it,
+ * and so every copy of that party's records, undecryptable at once.
+ */
+export interface PartyKeyProvider extends KeyProvider {
+  /** Returns the provider that wraps DEKs under a party's KEK, creating the KEK on first use */
+  forParty(partyId: string): KeyProvider;
+
+  /** Creates a party's KEK if it has none yet */
+  ensureKey(partyId: string): Promise<void>;
+
+  /**
+   * Destroys a party's KEK
+   * @returns Whether the party had one
+   */
+  shred(partyId: string): Promise<boolean>;
+
+  /**
+   * Rewraps every KEK not under the parent provider's active key
+   * @returns Number of KEKs rewrapped
+   */
+  rewrapKeys(): Promise<number>;
+}
+
+/** Serializes keystore writes per file across provider instances in this thread */
+const keystoreLocks = new Map<string, Promise<unknown>>();
+
+/** How long to wait for a keystore lock held by another process or thread */
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_RETRY_MS = 20;
+
+/**
+ * Creates a provider that wraps DEKs under per-party KEKs
+ *
+ * The keystore is re-read on every operation so that a shred is seen by
+ * every provider instance immediately.
+ *
+ * @param filePath - Party keystore file, created on first write
+ * @param parents - Providers that may hold the KEKs' wrapping keys
+ * @param parentName - Provider that wraps new KEKs
+ */
+export function createPartyKeyProvider(
+  filePath: string,
+  parents: KeyProviderRegistry,
+  parentName: string
+): PartyKeyProvider {
+  const keystorePath = path.resolve(filePath);
+
+  const getParent = (name: string): KeyProvider => {
+    const parent = parents.get(name);
+    if (!parent || parent.name === PARTY_PROVIDER_NAME) {
+      throw new KeyUnavailableError(
+        `Party keys require key provider '${name}', which is not configured`
+      );
+    }
+    return parent;
+  };
+
+  const unwrapKek = (partyId: string, stored: StoredPartyKey): Promise<Buffer> =>
+    getParent(stored.provider).unwrapKey(
+      {
+        keyId: stored.keyId,
+        version: stored.version,
+        nonce: Buffer.from(stored.nonce, 'hex'),
+        ciphertext: Buffer.from(stored.ciphertext, 'hex'),
+        tag: Buffer.from(stored.tag, 'hex')
+      },
+      buildKekAad(partyId)
+    );
+
+  const wrapKek = async (partyId: string, kek: Buffer): Promise<StoredPartyKey> => {
+    const wrapped = await getParent(parentName).wrapKey(kek, buildKekAad(partyId));
+    return {
+      provider: parentName,
+      keyId: wrapped.keyId,
+      version: wrapped.version,
+      nonce: wrapped.nonce.toString('hex'),
+      ciphertext: wrapped.ciphertext.toString('hex'),
+      tag: wrapped.tag.toString('hex')
+    };
+  };
+
+  const loadKek = async (partyId: string): Promise<Buffer> => {
+    const stored = readPartyKeystore(keystorePath).parties[partyId];
+    if (!stored) {
+      throw new KeyUnavailableError(`Key for party '${partyId}' is not available`);
+    }
+    return unwrapKek(partyId, stored);
+  };
+
+  const loadOrCreateKek = async (partyId: string): Promise<Buffer> => {
+    const stored = readPartyKeystore(keystorePath).parties[partyId];
+    if (stored) {
+      return unwrapKek(partyId, stored);
+    }
+
+    return withKeystoreLock(keystorePath, async () => {
+      // Another caller may have created it while we waited
+      const keystore = readPartyKeystore(keystorePath);
+      const existing = keystore.parties[partyId];
+      if (existing) {
+        return unwrapKek(partyId, existing);
+      }
+
+      const kek = crypto.randomBytes(32);
+      keystore.parties[partyId] = await wrapKek(partyId, kek);
+      writePartyKeystore(keystorePath, keystore);
+      return kek;
+    });
+  };
+
+  const unwrapKey = async (wrapped: WrappedKey, aad?: Buffer): Promise<Buffer> => {
+    if (wrapped.version !== PARTY_KEY_VERSION) {
+      throw new UnknownKeyVersionError(
+        wrapped.version,
+        `Unknown party key version: ${wrapped.version}`
+      );
+    }
+    return unwrapWithKey(wrapped, await loadKek(wrapped.keyId), aad);
+  };
+
+  const unscoped = (): never => {
+    throw new Error('The party key provider wraps keys per party; use forParty()');
+  };
+
+  return {
+    name: PARTY_PROVIDER_NAME,
+
+    async activeKey() {
+      return unscoped();
+    },
+
+    async wrapKey() {
+      return unscoped();
+    },
+
+    unwrapKey,
+
+    forParty(partyId) {
+      return {
+        name: PARTY_PROVIDER_NAME,
+
+        async activeKey() {
+          return { keyId: partyId, version: PARTY_KEY_VERSION };
+        },
+
+        async wrapKey(dek, aad) {
+          const kek = await loadOrCreateKek(partyId);
+          return { keyId: partyId, version: PARTY_KEY_VERSION, ...wrapWithKey(dek, kek, aad) };
+        },
+
+        unwrapKey
+      };
+    },
+
+    async ensureKey(partyId) {
+      await loadOrCreateKek(partyId);
+    },
+
+    shred(partyId) {
+      return withKeystoreLock(keystorePath, async () => {
+        const keystore = readPartyKeystore(keystorePath);
+        if (!keystore.parties[partyId]) {
+          return false;
+        }
+
+        delete keystore.parties[partyId];
+        writePartyKeystore(keystorePath, keystore);
+        return true;
+      });
+    },
+
+    rewrapKeys() {
+      return withKeystoreLock(keystorePath, async () => {
+        const keystore = readPartyKeystore(keystorePath);
+        const active = await getParent(parentName).activeKey();
+        let rewrapped = 0;
+
+        for (const [partyId, stored] of Object.entries(keystore.parties)) {
+          if (
+            stored.provider === parentName &&
+            stored.keyId === active.keyId &&
+            stored.version === active.version
+          ) {
+            continue;
+          }
+
+          keystore.parties[partyId] = await wrapKek(partyId, await unwrapKek(partyId, stored));
+          rewrapped++;
+        }
+
+        if (rewrapped > 0) {
+          writePartyKeystore(keystorePath, keystore);
+        }
+        return rewrapped;
+      });
+    }
+  };
+}
+
+/**
+ * Binds a wrapped KEK to its party so KEKs cannot be swapped between parties
+ */
+function buildKekAad(partyId: string): Buffer {
+  return Buffer.from(JSON.stringify({ purpose: 'party-kek', partyId }), 'utf8');
+}
+
+/**
+ * Runs `fn` holding the keystore lock: queued per file within this thread,
+ * and exclusive across processes and worker threads through a lockfile
+ * next to the keystore
+ *
+ * Every read-modify-write of the keystore must hold it; otherwise two
+ * writers could drop each other's new KEKs, or bring back a shredded one.
+ */
+function withKeystoreLock<T>(keystorePath: string, fn: () => Promise<T>): Promise<T> {
+  const result = (keystoreLocks.get(keystorePath) ?? Promise.resolve()).then(async () => {
+    const release = await acquireLockfile(`${keystorePath}.lock`);
+    try {
+      return await fn();
+    } finally {
+      await release();
+    }
+  });
+  keystoreLocks.set(keystorePath, result.catch(() => undefined));
+  return result;
+}
+
+/**
+ * Creates a lockfile exclusively, waiting while another holder has it
+ *
+ * The lockfile holds the owner's pid; one left behind by a process that no
+ * longer runs is removed.
+ *
+ * @returns A function that releases the lock
+ * @throws KeyUnavailableError if the lock isn't released within `LOCK_TIMEOUT_MS`
+ */
+async function acquireLockfile(lockPath: string): Promise<() => Promise<void>> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  await fs.promises.mkdir(path.dirname(lockPath), { recursive: true });
+
+  for (;;) {
+    try {
+      const handle = await fs.promises.open(lockPath, 'wx', 0o600);
+      try {
+        await handle.writeFile(`${process.pid}\n`, 'utf8');
+      } finally {
+        await handle.close();
+      }
+      return () => fs.promises.rm(lockPath, { force: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    if (await removeStaleLockfile(lockPath)) {
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new KeyUnavailableError(`Timed out waiting for party keystore lock '${lockPath}'`);
+    }
+
+    await sleep(LOCK_RETRY_MS);
+  }
+}
+
+/**
+ * Removes a lockfile whose owner process has exited
+ * @returns Whether it was removed
+ */
+async function removeStaleLockfile(lockPath: string): Promise<boolean> {
+  let owner: number;
+  try {
+    owner = Number.parseInt(await fs.promises.readFile(lockPath, 'utf8'), 10);
+  } catch {
+    // Released meanwhile; retry at once
+    return true;
+  }
+
+  // Not written yet by a holder that just created it
+  if (!Number.isInteger(owner) || isRunning(owner)) {
+    return false;
+  }
+
+  await fs.promises.rm(lockPath, { force: true });
+  return true;
+}
+
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function readPartyKeystore(keystorePath: string): PartyKeystoreFile {
+  let contents: string;
+
+  try {
+    contents = fs.readFileSync(keystorePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { parties: {} };
+    }
+    throw error;
+  }
+
+  let parsed: PartyKeystoreFile;
+  try {
+    parsed = JSON.parse(contents);
+  } catch {
+    throw new Error(`Party keystore '${keystorePath}' is not valid JSON`);
+  }
+
+  if (typeof parsed?.parties !== 'object' || parsed.parties === null) {
+    throw new Error(`Party keystore '${keystorePath}' must define 'parties'`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Replaces the keystore atomically, so a crash never leaves it half-written
+ */
+function writePartyKeystore(keystorePath: string, keystore: PartyKeystoreFile): void {
+  const tempPath = `${keystorePath}.tmp`;
+
+  fs.mkdirSync(path.dirname(keystorePath), { recursive: true });
+  fs.writeFileSync(tempPath, `${JSON.stringify(keystore, null, 2)}\n`, { mode: 0o600 });
+  fs.renameSync(tempPath, keystorePath);
+}
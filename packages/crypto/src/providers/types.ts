@@ -0,0 +1,65 @@
+/**
+ * A DEK wrapped by a key provider
+ * All binary values are raw bytes; records store them as hex strings
+ */
+export type WrappedKey = {
+  /** Provider-specific identifier of the wrapping key */
+  keyId: string;
+
+  /** Version of the wrapping key */
+  version: number;
+
+  /** Nonce used for wrapping */
+  nonce: Buffer;
+
+  /** Wrapped (encrypted) DEK */
+  ciphertext: Buffer;
+
+  /** Authentication tag of the wrapped DEK */
+  tag: Buffer;
+};
+
+/**
+ * Identifies the key a provider currently wraps new DEKs with
+ */
+export type ActiveKey = {
+  keyId: string;
+  version: number;
+};
+
+/**
+ * Source of key-encryption keys used to wrap and unwrap DEKs
+ *
+ * Implementations never hand out master key material; callers only see
+ * wrapped DEKs, which keeps the door open for HSM/KMS-backed providers.
+ */
+export interface KeyProvider {
+  /** Provider name, recorded in `TxSecureRecord.kms_provider` */
+  readonly name: string;
+
+  /** Describes the key used for new wraps */
+  activeKey(): Promise<ActiveKey>;
+
+  /**
+   * Wraps a DEK under the active key
+   * @param aad - Additional authenticated data that must be presented again to unwrap
+   */
+  wrapKey(dek: Buffer, aad?: Buffer): Promise<WrappedKey>;
+
+  /**
+   * Unwraps a DEK wrapped by this provider
+   * @param aad - The AAD the DEK was wrapped with, if any
+   */
+  unwrapKey(wrapped: WrappedKey, aad?: Buffer): Promise<Buffer>;
+
+  /**
+   * For providers that keep a key per party, returns the provider that
+   * wraps that party's DEKs
+   */
+  forParty?(partyId: string): KeyProvider;
+}
+
+/**
+ * Key providers available for decryption, indexed by provider name
+ */
+export type KeyProviderRegistry = ReadonlyMap<string, KeyProvider>;
@@ -0,0 +1,47 @@
+/**
+ * Parameters of DEK wrapping to a published public key (ECDH-ES)
+ *
+ * A fresh ephemeral P-256 key pair is generated per DEK. The ECDH shared
+ * secret with the recipient key, run through HKDF-SHA256 with the ephemeral
+ * public key as salt, gives an AES-256-GCM key that wraps the DEK. The
+ * ephemeral public key (uncompressed point) is prepended to the wrapped DEK
+ * in `dek_wrapped`, so the record layout is unchanged.
+ *
+ * Shared by the `ecdh` key provider and `@mirfa/crypto/browser`, so this
+ * module must not depend on Node built-ins.
+ */
+
+/** Provider name recorded for DEKs wrapped to a recipient public key */
+export const ECDH_PROVIDER_NAME = 'ecdh';
+
+/** HKDF `info` binding derived keys to this use */
+export const ECDH_KDF_INFO = 'mirfa/ecdh-es/dek-wrap/A256GCM';
+
+/** Size of an uncompressed P-256 public key */
+export const EPHEMERAL_PUBLIC_KEY_BYTES = 65;
+
+/**
+ * A P-256 public key as a JSON Web Key
+ */
+export type EcPublicJwk = {
+  kty: 'EC';
+  crv: 'P-256';
+  x: string;
+  y: string;
+};
+
+/**
+ * A public key that clients wrap DEKs to, as published by the API
+ */
+export type RecipientKey = {
+  /** Provider whose private key unwraps the DEK */
+  provider: typeof ECDH_PROVIDER_NAME;
+
+  /** Recorded in `TxSecureRecord.kms_key_id` */
+  keyId: string;
+
+  /** Recorded in `TxSecureRecord.mk_version` */
+  version: number;
+
+  publicKey: EcPublicJwk;
+};
@@ -0,0 +1,286 @@
+import crypto from 'node:crypto';
+import { Transform, TransformCallback } from 'node:stream';
+import { AeadAlgorithm, AlgorithmId, DEFAULT_ALGORITHM, getAlgorithm } from './algorithms.js';
+import {
+  AuthenticationFailedError,
+  InvalidRecordError,
+  UnsupportedAlgorithmError
+} from './errors.js';
+
+/**
+ * Chunked AEAD stream format
+ *
+ * ```
+ * header:  magic "MRFS" (4) | version (1) | segment size, uint32 BE (4) | nonce prefix (7)
+ * segment: AEAD ciphertext (≤ segment size) | tag (16)
+ * ```
+ *
+ * Each segment is encrypted under a per-stream key derived from the caller's
+ * key and the nonce prefix (HKDF-SHA256). Segment nonces are
+ * `prefix (7) | counter, uint32 BE (4) | last flag (1)`, and the header is
+ * part of every segment's AAD. The AEAD algorithm is not recorded in the
+ * header; the owning record's `alg` selects it, and any algorithm with
+ * 12-byte nonces and 16-byte tags can be used. Reordering, dropping or truncating segments
+ * therefore fails authentication; a stream that ends without a segment
+ * flagged as last is rejected.
+ */
+export const STREAM_MAGIC = Buffer.from('MRFS', 'ascii');
+export const STREAM_VERSION = 1;
+export const STREAM_HEADER_BYTES = 16;
+export const DEFAULT_SEGMENT_SIZE = 64 * 1024;
+
+const NONCE_PREFIX_BYTES = 7;
+const TAG_BYTES = 16;
+const MAX_SEGMENT_SIZE = 16 * 1024 * 1024;
+const MAX_SEGMENTS = 2 ** 32;
+
+export type StreamOptions = {
+  /** Segment encryption algorithm (defaults to AES-256-GCM) */
+  alg?: AlgorithmId;
+
+  /** Additional data every segment is bound to, e.g. the owning record id */
+  aad?: Buffer;
+};
+
+export type EncryptStreamOptions = StreamOptions & {
+  /** Plaintext bytes per segment (defaults to 64 KiB) */
+  segmentSize?: number;
+};
+
+/**
+ * Creates a Transform that encrypts a byte stream into the chunked format
+ *
+ * @param key - 32-byte key (typically a record DEK)
+ * @throws Error if the key, algorithm or segment size is invalid
+ */
+export function createEncryptStream(key: Buffer, options: EncryptStreamOptions = {}): Transform {
+  const segmentSize = options.segmentSize ?? DEFAULT_SEGMENT_SIZE;
+  const algorithm = getStreamAlgorithm(options.alg);
+  assertKey(key);
+
+  if (!Number.isInteger(segmentSize) || segmentSize < 1 || segmentSize > MAX_SEGMENT_SIZE) {
+    throw new Error(`Segment size must be an integer between 1 and ${MAX_SEGMENT_SIZE}`);
+  }
+
+  const header = Buffer.alloc(STREAM_HEADER_BYTES);
+  STREAM_MAGIC.copy(header, 0);
+  header.writeUInt8(STREAM_VERSION, 4);
+  header.writeUInt32BE(segmentSize, 5);
+  crypto.randomBytes(NONCE_PREFIX_BYTES).copy(header, 9);
+
+  const segments = new SegmentCipher(algorithm, key, header, options.aad);
+  let pending = Buffer.alloc(0);
+  let headerSent = false;
+
+  const sendHeader = (stream: Transform) => {
+    if (!headerSent) {
+      stream.push(header);
+      headerSent = true;
+    }
+  };
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback: TransformCallback) {
+      try {
+        sendHeader(this);
+        pending = Buffer.concat([pending, chunk]);
+
+        // Keep at least one byte back so the final segment is never empty
+        // unless the whole stream is
+        while (pending.length > segmentSize) {
+          this.push(segments.seal(pending.subarray(0, segmentSize), false));
+          pending = pending.subarray(segmentSize);
+        }
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+
+    flush(callback: TransformCallback) {
+      try {
+        sendHeader(this);
+        this.push(segments.seal(pending, true));
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    }
+  });
+}
+
+/**
+ * Creates a Transform that decrypts and authenticates the chunked format
+ *
+ * Plaintext is only emitted for segments that authenticate. Consumers must
+ * still treat the output as incomplete until the stream ends without error,
+ * since truncation is detected at the end.
+ *
+ * @param key - The 32-byte key the stream was encrypted with
+ */
+export function createDecryptStream(key: Buffer, options: StreamOptions = {}): Transform {
+  const algorithm = getStreamAlgorithm(options.alg);
+  assertKey(key);
+
+  let pending = Buffer.alloc(0);
+  let segments: SegmentCipher | undefined;
+  let segmentBytes = 0;
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback: TransformCallback) {
+      try {
+        pending = Buffer.concat([pending, chunk]);
+
+        if (!segments) {
+          if (pending.length < STREAM_HEADER_BYTES) {
+            return callback();
+          }
+          const header = pending.subarray(0, STREAM_HEADER_BYTES);
+          segmentBytes = parseHeader(header) + TAG_BYTES;
+          segments = new SegmentCipher(algorithm, key, Buffer.from(header), options.aad);
+          pending = pending.subarray(STREAM_HEADER_BYTES);
+        }
+
+        // A full segment is only known not to be the last once more data follows
+        while (pending.length > segmentBytes) {
+          this.push(segments.open(pending.subarray(0, segmentBytes), false));
+          pending = pending.subarray(segmentBytes);
+        }
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+
+    flush(callback: TransformCallback) {
+      try {
+        if (!segments) {
+          throw new AuthenticationFailedError('Stream truncated: missing header');
+        }
+        if (pending.length < TAG_BYTES) {
+          throw new AuthenticationFailedError('Stream truncated: missing final segment');
+        }
+        this.push(segments.open(pending, true));
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    }
+  });
+}
+
+/**
+ * Returns the ciphertext size for a plaintext of the given size
+ */
+export function encryptedStreamSize(
+  plaintextBytes: number,
+  segmentSize: number = DEFAULT_SEGMENT_SIZE
+): number {
+  const segments = Math.max(1, Math.ceil(plaintextBytes / segmentSize));
+  return STREAM_HEADER_BYTES + plaintextBytes + segments * TAG_BYTES;
+}
+
+/**
+ * Encrypts and decrypts consecutive segments of one stream
+ */
+class SegmentCipher {
+  private readonly algorithm: AeadAlgorithm;
+  private readonly key: Buffer;
+  private readonly aad: Buffer;
+  private readonly prefix: Buffer;
+  private counter = 0;
+  private finished = false;
+
+  constructor(
+    algorithm: AeadAlgorithm,
+    key: Buffer,
+    header: Buffer,
+    extraAad: Buffer | undefined
+  ) {
+    const prefix = header.subarray(9, 9 + NONCE_PREFIX_BYTES);
+    this.algorithm = algorithm;
+    this.key = Buffer.from(crypto.hkdfSync('sha256', key, prefix, 'mirfa-stream-v1', 32));
+    this.aad = extraAad ? Buffer.concat([header, extraAad]) : header;
+    this.prefix = Buffer.from(prefix);
+  }
+
+  seal(plaintext: Buffer, last: boolean): Buffer {
+    const cipher = this.algorithm.createCipher(this.key, this.nextNonce(last));
+    cipher.setAAD(this.aad, { plaintextLength: plaintext.length });
+
+    return Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+  }
+
+  open(segment: Buffer, last: boolean): Buffer {
+    const decipher = this.algorithm.createDecipher(this.key, this.nextNonce(last));
+    decipher.setAAD(this.aad, { plaintextLength: segment.length - TAG_BYTES });
+    decipher.setAuthTag(segment.subarray(segment.length - TAG_BYTES));
+
+    try {
+      return Buffer.concat([
+        decipher.update(segment.subarray(0, segment.length - TAG_BYTES)),
+        decipher.final()
+      ]);
+    } catch {
+      throw new AuthenticationFailedError(
+        `Stream segment ${this.counter - 1} failed authentication`
+      );
+    }
+  }
+
+  private nextNonce(last: boolean): Buffer {
+    if (this.finished) {
+      throw new Error('Stream already finished');
+    }
+    if (this.counter >= MAX_SEGMENTS) {
+      throw new Error('Stream exceeds the maximum number of segments');
+    }
+
+    const nonce = Buffer.alloc(12);
+    this.prefix.copy(nonce, 0);
+    nonce.writeUInt32BE(this.counter, NONCE_PREFIX_BYTES);
+    nonce.writeUInt8(last ? 1 : 0, 11);
+
+    this.counter++;
+    this.finished = last;
+    return nonce;
+  }
+}
+
+function parseHeader(header: Buffer): number {
+  if (!header.subarray(0, 4).equals(STREAM_MAGIC)) {
+    throw new InvalidRecordError('stream_header', 'Not an encrypted stream: bad magic');
+  }
+
+  const version = header.readUInt8(4);
+  if (version !== STREAM_VERSION) {
+    throw new InvalidRecordError('stream_header', `Unsupported stream version: ${version}`);
+  }
+
+  const segmentSize = header.readUInt32BE(5);
+  if (segmentSize < 1 || segmentSize > MAX_SEGMENT_SIZE) {
+    throw new InvalidRecordError('stream_header', `Invalid stream segment size: ${segmentSize}`);
+  }
+
+  return segmentSize;
+}
+
+/**
+ * @throws UnsupportedAlgorithmError if the algorithm's sizes don't fit the
+ *   segment format
+ */
+function getStreamAlgorithm(id: AlgorithmId = DEFAULT_ALGORITHM): AeadAlgorithm {
+  const algorithm = getAlgorithm(id);
+
+  if (algorithm.keyBytes !== 32 || algorithm.nonceBytes !== 12 || algorithm.tagBytes !== TAG_BYTES) {
+    throw new UnsupportedAlgorithmError(id, `Algorithm ${id} cannot be used for streams`);
+  }
+
+  return algorithm;
+}
+
+function assertKey(key: Buffer): void {
+  if (key.length !== 32) {
+    throw new Error(`Stream key must be 32 bytes, got ${key.length}`);
+  }
+}
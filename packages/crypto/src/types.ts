@@ -1,8 +1,17 @@
+import { AlgorithmId } from './algorithms.js';
+import { CompressionAlgorithm } from './compression.js';
+
 /**
- * Secure transaction record structure using AES-256-GCM envelope encryption
+ * Secure transaction record structure using AEAD envelope encryption
  * All binary values are stored as hex strings
  */
 export type TxSecureRecord = {
+  /**
+   * Record format version; absent on legacy records (version 1, no AAD).
+   * From version 2 the record metadata is bound into the AAD.
+   */
+  record_version?: number;
+  
   /** Unique identifier for the record */
   id: string;
   
@@ -12,13 +21,25 @@ export type TxSecureRecord = {
   /** Timestamp when the record was created (ISO 8601) */
   createdAt: string;
   
-  /** Nonce for payload encryption (12 bytes hex) */
+  /**
+   * Timestamp after which the record must not be decrypted (ISO 8601);
+   * absent if the record never expires. Bound into the AAD.
+   */
+  expiresAt?: string;
+  
+  /** Nonce for payload encryption (hex, sized for `alg`) */
   payload_nonce: string;
   
   /** Encrypted payload ciphertext (hex) */
   payload_ct: string;
   
-  /** Authentication tag for payload (16 bytes hex) */
+  /**
+   * Codec the payload was compressed with before encryption; absent if it
+   * is stored uncompressed. Bound into the payload AAD.
+   */
+  compression?: CompressionAlgorithm;
+  
+  /** Authentication tag for payload (hex, sized for `alg`) */
   payload_tag: string;
   
   /** Nonce for DEK wrapping (12 bytes hex) */
@@ -30,9 +51,86 @@ export type TxSecureRecord = {
   /** Authentication tag for DEK wrapping (16 bytes hex) */
   dek_wrap_tag: string;
   
-  /** Encryption algorithm used */
-  alg: "AES-256-GCM";
+  /**
+   * Encryption mode; absent for whole-payload encryption.
+   * In `fields` mode only the listed paths are encrypted, and `payload_*`
+   * authenticates the cleartext remainder instead of holding the payload.
+   * In `stream` mode `payload_*` holds a `StreamManifest` and the content is
+   * stored separately in the chunked stream format under the same DEK.
+   */
+  mode?: 'fields' | 'stream';
+  
+  /** Cleartext payload with encrypted fields set to null (`fields` mode) */
+  payload_clear?: unknown;
+  
+  /** Encrypted fields indexed by canonical JSON path (`fields` mode) */
+  payload_fields?: Record<string, EncryptedField>;
+  
+  /** Algorithm the payload and fields are encrypted with */
+  alg: AlgorithmId;
+  
+  /** Version of the master key that wrapped the DEK */
+  mk_version: number;
+  
+  /** Key provider that wrapped the DEK (absent on legacy records: `env`) */
+  kms_provider?: string;
+  
+  /** Provider key id that wrapped the DEK (absent on legacy records: `MASTER_KEY`) */
+  kms_key_id?: string;
+  
+  /**
+   * Derivation of the passphrase key the DEK is wrapped under; absent unless
+   * a passphrase is needed to decrypt. With `kms_provider` `passphrase` it
+   * is the only wrap; otherwise the passphrase-wrapped DEK is wrapped again
+   * by the key provider, and both are needed. Bound into the DEK-wrap AAD.
+   */
+  kdf?: KdfParams;
+};
+
+/**
+ * scrypt parameters of a passphrase-derived key
+ */
+export type KdfParams = {
+  alg: 'scrypt';
+  
+  /** Random salt (hex) */
+  salt: string;
+  
+  /** CPU/memory cost, a power of two */
+  N: number;
+  
+  /** Block size */
+  r: number;
+  
+  /** Parallelization */
+  p: number;
+};
+
+/**
+ * A single field encrypted under the record's DEK
+ * All binary values are stored as hex strings
+ */
+export type EncryptedField = {
+  /** Nonce for field encryption (hex, sized for the record's `alg`) */
+  nonce: string;
+  
+  /** Encrypted JSON value (hex) */
+  ct: string;
+  
+  /** Authentication tag (hex, sized for the record's `alg`) */
+  tag: string;
+};
+
+/**
+ * Describes the content of a `stream` mode record
+ */
+export type StreamManifest = {
+  /** Plaintext size in bytes */
+  size: number;
+  
+  /** MIME type supplied at upload */
+  contentType?: string;
   
-  /** Master key version */
-  mk_version: 1;
+  /** Original file name supplied at upload */
+  filename?: string;
 };
@@ -0,0 +1,25 @@
+import { parentPort } from 'node:worker_threads';
+import { decryptMany, encryptMany } from './index.js';
+import { PoolRequest, PoolResponse } from './pool.js';
+
+/**
+ * Entry point of a crypto pool worker: runs each batch it is sent in-thread
+ */
+parentPort?.on('message', async ({ id, task }: PoolRequest) => {
+  let response: PoolResponse;
+
+  try {
+    const results =
+      task.op === 'encrypt'
+        ? await encryptMany(task.items, { concurrency: task.concurrency })
+        : await decryptMany(task.items, {
+            concurrency: task.concurrency,
+            maxInflatedBytes: task.maxInflatedBytes
+          });
+    response = { id, results };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  parentPort!.postMessage(response);
+});
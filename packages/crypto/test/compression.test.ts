@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import {
+  AuthenticationFailedError,
+  InvalidRecordError,
+  PayloadTooLargeError,
+  createEnvKeyProvider,
+  createKeyring,
+  decryptPayload,
+  encryptPayload
+} from '../dist/index.js';
+
+const MASTER_KEY = crypto.randomBytes(32).toString('hex');
+
+const provider = createEnvKeyProvider(createKeyring(1, { 1: MASTER_KEY }));
+const providers = new Map([['env', provider]]);
+
+// Repetitive, like a large transaction export
+const payload = {
+  items: Array.from({ length: 200 }, (_, i) => ({ sku: `SKU-${i % 5}`, amount: 100, note: 'paid' }))
+};
+
+const ciphertextBytes = (hex: string) => hex.length / 2;
+
+describe('payload compression', () => {
+  for (const algorithm of ['gzip', 'br'] as const) {
+    it(`round-trips a ${algorithm} compressed payload`, async () => {
+      const plain = await encryptPayload('party-a', payload, { provider });
+      const record = await encryptPayload('party-a', payload, {
+        provider,
+        compression: { algorithm }
+      });
+
+      assert.equal(record.compression, algorithm);
+      assert.ok(ciphertextBytes(record.payload_ct) < ciphertextBytes(plain.payload_ct) / 4);
+      assert.deepEqual(await decryptPayload(record, { providers }), payload);
+    });
+  }
+
+  it('leaves payloads under the threshold uncompressed', async () => {
+    const record = await encryptPayload('party-a', { amount: 100 }, {
+      provider,
+      compression: { algorithm: 'gzip' }
+    });
+
+    assert.equal(record.compression, undefined);
+    assert.deepEqual(await decryptPayload(record, { providers }), { amount: 100 });
+  });
+
+  it('rejects a stripped or swapped codec', async () => {
+    const record = await encryptPayload('party-a', payload, {
+      provider,
+      compression: { algorithm: 'gzip' }
+    });
+    const { compression: _, ...stripped } = record;
+
+    await assert.rejects(decryptPayload(stripped, { providers }), AuthenticationFailedError);
+    await assert.rejects(
+      decryptPayload({ ...record, compression: 'br' }, { providers }),
+      AuthenticationFailedError
+    );
+  });
+
+  it('refuses to inflate beyond the limit', async () => {
+    const record = await encryptPayload('party-a', payload, {
+      provider,
+      compression: { algorithm: 'br' }
+    });
+
+    await assert.rejects(
+      decryptPayload(record, { providers, maxInflatedBytes: 1024 }),
+      PayloadTooLargeError
+    );
+  });
+
+  it('refuses compression together with field selection', async () => {
+    await assert.rejects(
+      encryptPayload('party-a', payload, {
+        provider,
+        fields: ['$.items[*].amount'],
+        compression: { algorithm: 'gzip' }
+      }),
+      (error: InvalidRecordError) => {
+        assert.ok(error instanceof InvalidRecordError);
+        assert.equal(error.field, 'compression');
+        return true;
+      }
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import {
+  AuthenticationFailedError,
+  InvalidRecordError,
+  TxSecureRecord,
+  createEnvKeyProvider,
+  createKeyring,
+  decryptPayload,
+  encryptPayload,
+  parseRecord,
+  parseRecordCompact,
+  serializeRecord,
+  serializeRecordCompact
+} from '../dist/index.js';
+
+const provider = createEnvKeyProvider(
+  createKeyring(1, { 1: crypto.randomBytes(32).toString('hex') })
+);
+const providers = new Map([['env', provider]]);
+
+const payload = { card: { pan: '4111111111111111' }, note: 'x'.repeat(2000) };
+
+const variants: [string, () => Promise<TxSecureRecord>][] = [
+  ['a whole-payload record', () => encryptPayload('party-a', payload, { provider })],
+  [
+    'a ChaCha20-Poly1305 record with an expiry',
+    () =>
+      encryptPayload('party-a', payload, {
+        provider,
+        alg: 'CHACHA20-POLY1305',
+        expiresAt: new Date(Date.now() + 60_000)
+      })
+  ],
+  [
+    'a fields mode record',
+    () => encryptPayload('party-a', payload, { provider, fields: ['$.card.pan'] })
+  ],
+  [
+    'a compressed record',
+    () =>
+      encryptPayload('party-a', payload, {
+        provider,
+        compression: { algorithm: 'gzip', minBytes: 0 }
+      })
+  ],
+  [
+    'a passphrase-wrapped record',
+    () =>
+      encryptPayload('party-a', payload, {
+        passphrase: { passphrase: 'correct horse', cost: { N: 2 ** 12 } }
+      })
+  ]
+];
+
+describe('binary envelope', () => {
+  for (const [name, create] of variants) {
+    it(`round-trips ${name}`, async () => {
+      const record = await create();
+      const envelope = serializeRecord(record);
+
+      assert.deepEqual(parseRecord(envelope), record);
+      assert.deepEqual(parseRecordCompact(serializeRecordCompact(record)), record);
+      assert.ok(envelope.length < Buffer.byteLength(JSON.stringify(record)));
+      assert.deepEqual(
+        await decryptPayload(parseRecord(envelope), { providers, passphrase: 'correct horse' }),
+        payload
+      );
+    });
+  }
+
+  it('rejects a flipped ciphertext byte on decrypt', async () => {
+    const record = await encryptPayload('party-a', payload, { provider });
+    const envelope = serializeRecord(record);
+    const offset = envelope.indexOf(Buffer.from(record.payload_ct, 'hex'));
+    envelope[offset]! ^= 1;
+
+    await assert.rejects(
+      decryptPayload(parseRecord(envelope), { providers }),
+      AuthenticationFailedError
+    );
+  });
+
+  async function envelope(): Promise<Buffer> {
+    return serializeRecord(await encryptPayload('party-a', payload, { provider }));
+  }
+
+  const firstField = (bytes: Buffer) => bytes.subarray(6, 6 + 5 + bytes.readUInt32BE(7));
+
+  for (const [name, malform] of [
+    ['a wrong magic', (bytes: Buffer) => Buffer.concat([Buffer.from('XXXX'), bytes.subarray(4)])],
+    [
+      'an unknown envelope version',
+      (bytes: Buffer) => {
+        const copy = Buffer.from(bytes);
+        copy[4] = 99;
+        return copy;
+      }
+    ],
+    ['a truncated field', (bytes: Buffer) => bytes.subarray(0, bytes.length - 1)],
+    ['an unknown tag', (bytes: Buffer) => Buffer.concat([bytes, Buffer.from([99, 0, 0, 0, 0])])],
+    ['a repeated tag', (bytes: Buffer) => Buffer.concat([bytes, firstField(bytes)])],
+    [
+      'a missing required field',
+      (bytes: Buffer) =>
+        Buffer.concat([bytes.subarray(0, 6), bytes.subarray(6 + firstField(bytes).length)])
+    ]
+  ] as const) {
+    it(`refuses an envelope with ${name}`, async () => {
+      const malformed = malform(await envelope());
+
+      assert.throws(() => parseRecord(malformed), InvalidRecordError);
+    });
+  }
+});
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { setTimeout as sleep } from 'node:timers/promises';
+import {
+  AuthenticationFailedError,
+  RecordExpiredError,
+  createEnvKeyProvider,
+  createKeyring,
+  decryptPayload,
+  encryptPayload,
+  isExpired
+} from '../dist/index.js';
+
+const MASTER_KEY = crypto.randomBytes(32).toString('hex');
+
+const provider = createEnvKeyProvider(createKeyring(1, { 1: MASTER_KEY }));
+const providers = new Map([['env', provider]]);
+
+describe('record expiry', () => {
+  it('decrypts a record before it expires', async () => {
+    const expiresAt = new Date(Date.now() + 60_000);
+    const record = await encryptPayload('party-a', { amount: 100 }, { provider, expiresAt });
+
+    assert.equal(record.expiresAt, expiresAt.toISOString());
+    assert.equal(isExpired(record), false);
+    assert.deepEqual(await decryptPayload(record, { providers }), { amount: 100 });
+  });
+
+  it('refuses a record once it has expired', async () => {
+    const expiresAt = new Date(Date.now() + 50);
+    const record = await encryptPayload('party-a', { amount: 100 }, { provider, expiresAt });
+
+    await sleep(60);
+
+    assert.equal(isExpired(record), true);
+    await assert.rejects(decryptPayload(record, { providers }), RecordExpiredError);
+  });
+
+  it('rejects an expiry that was extended or removed', async () => {
+    const record = await encryptPayload('party-a', { amount: 100 }, {
+      provider,
+      expiresAt: new Date(Date.now() + 60_000)
+    });
+    const { expiresAt: _, ...withoutExpiry } = record;
+    const extended = { ...record, expiresAt: new Date(Date.now() + 3_600_000).toISOString() };
+
+    await assert.rejects(decryptPayload(extended, { providers }), AuthenticationFailedError);
+    await assert.rejects(decryptPayload(withoutExpiry, { providers }), AuthenticationFailedError);
+  });
+
+  it('rejects an expiry added to a record that had none', async () => {
+    const record = await encryptPayload('party-a', { amount: 100 }, { provider });
+    const limited = { ...record, expiresAt: new Date(Date.now() + 60_000).toISOString() };
+
+    await assert.rejects(decryptPayload(limited, { providers }), AuthenticationFailedError);
+  });
+
+  it('refuses an expiry that is not in the future', async () => {
+    await assert.rejects(
+      encryptPayload('party-a', {}, { provider, expiresAt: new Date(Date.now() - 1000) }),
+      /expiresAt must be a date in the future/
+    );
+  });
+});
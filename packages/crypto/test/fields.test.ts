@@ -0,0 +1,125 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import {
+  AuthenticationFailedError,
+  InvalidFieldSelectionError,
+  TxSecureRecord,
+  createEnvKeyProvider,
+  createKeyring,
+  decryptPayload,
+  encryptPayload
+} from '../dist/index.js';
+
+const provider = createEnvKeyProvider(
+  createKeyring(1, { 1: crypto.randomBytes(32).toString('hex') })
+);
+const providers = new Map([['env', provider]]);
+
+const payload = {
+  customer: 'Ada',
+  card: { pan: '4111111111111111', expiry: '12/30' },
+  accounts: [{ iban: 'DE89370400440532013000' }, { iban: 'GB82WEST12345698765432' }]
+};
+
+function encrypt(fields: unknown, requireFields?: boolean): Promise<TxSecureRecord> {
+  return encryptPayload('party-a', payload, {
+    provider,
+    fields: fields as string[],
+    requireFields
+  });
+}
+
+describe('field-level encryption', () => {
+  it('encrypts only the selected fields and restores them on decrypt', async () => {
+    const record = await encrypt(['$.card.pan', '$.accounts[*].iban']);
+
+    assert.equal(record.mode, 'fields');
+    assert.deepEqual(Object.keys(record.payload_fields!), [
+      '$.accounts[0].iban',
+      '$.accounts[1].iban',
+      '$.card.pan'
+    ]);
+    assert.deepEqual(record.payload_clear, {
+      customer: 'Ada',
+      card: { pan: null, expiry: '12/30' },
+      accounts: [{ iban: null }, { iban: null }]
+    });
+    assert.deepEqual(await decryptPayload(record, { providers }), payload);
+  });
+
+  it('accepts a schema marking the fields to encrypt', async () => {
+    const record = await encrypt({
+      properties: {
+        card: { properties: { pan: { 'x-encrypt': true } } },
+        accounts: { items: { properties: { iban: { 'x-encrypt': true } } } }
+      }
+    });
+
+    assert.equal(Object.keys(record.payload_fields!).length, 3);
+    assert.deepEqual(await decryptPayload(record, { providers }), payload);
+  });
+
+  it('decrypts only the requested paths, expanding wildcards', async () => {
+    const record = await encrypt(['$.card.pan', '$.accounts[*].iban']);
+
+    assert.deepEqual(await decryptPayload(record, { providers, paths: ['$.accounts[*].iban'] }), {
+      ...payload,
+      card: { pan: null, expiry: '12/30' }
+    });
+  });
+
+  it('refuses decrypt paths that match no encrypted field', async () => {
+    const record = await encrypt(['$.card.pan']);
+
+    for (const path of ['$.nope', '$.card.expiry', '$.accounts[*].iban']) {
+      await assert.rejects(
+        decryptPayload(record, { providers, paths: [path] }),
+        InvalidFieldSelectionError
+      );
+    }
+  });
+
+  it('refuses decrypt paths on a record not encrypted by field', async () => {
+    const record = await encryptPayload('party-a', payload, { provider });
+
+    await assert.rejects(
+      decryptPayload(record, { providers, paths: ['$.card.pan'] }),
+      InvalidFieldSelectionError
+    );
+  });
+
+  for (const [name, fields, requireFields] of [
+    ['matches nothing', ['$.missing'], false],
+    ['misses a required path', ['$.card.pan', '$.missing'], true],
+    ['does not start with $', ['card.pan'], false],
+    ['selects the document root', ['$'], false],
+    ['nests one field in another', ['$.card', '$.card.pan'], false],
+    ['nests fields through a wildcard', ['$.accounts', '$.accounts[*].iban'], false]
+  ] as const) {
+    it(`refuses a selection that ${name}`, async () => {
+      await assert.rejects(encrypt(fields, requireFields), InvalidFieldSelectionError);
+    });
+  }
+
+  it('rejects edited cleartext', async () => {
+    const record = await encrypt(['$.card.pan']);
+    const tampered = { ...record, payload_clear: { ...payload, customer: 'Eve', card: { pan: null } } };
+
+    await assert.rejects(decryptPayload(tampered, { providers }), AuthenticationFailedError);
+  });
+
+  it('rejects an encrypted field moved to another path', async () => {
+    const record = await encrypt(['$.accounts[*].iban']);
+    const fields = record.payload_fields!;
+    const swapped = {
+      ...record,
+      payload_fields: {
+        '$.accounts[0].iban': fields['$.accounts[1].iban']!,
+        '$.accounts[1].iban': fields['$.accounts[0].iban']!
+      }
+    };
+
+    await assert.rejects(decryptPayload(swapped, { providers }), AuthenticationFailedError);
+  });
+});
@@ -0,0 +1,106 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  AuthenticationFailedError,
+  KeyProvider,
+  KeyUnavailableError,
+  PartyKeyProvider,
+  createEnvKeyProvider,
+  createKeyring,
+  createPartyKeyProvider,
+  decryptPayload,
+  encryptPayload
+} from '../dist/index.js';
+
+const MASTER_KEY = crypto.randomBytes(32).toString('hex');
+
+describe('party KEKs', () => {
+  let dir: string;
+  let keystorePath: string;
+  let partyKeys: PartyKeyProvider;
+  let providers: Map<string, KeyProvider>;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mirfa-party-'));
+    keystorePath = path.join(dir, 'party-keys.json');
+    providers = new Map<string, KeyProvider>([
+      ['env', createEnvKeyProvider(createKeyring(1, { 1: MASTER_KEY }))]
+    ]);
+    partyKeys = createPartyKeyProvider(keystorePath, providers, 'env');
+    providers.set('party', partyKeys);
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('wraps DEKs under the party KEK and decrypts them', async () => {
+    const record = await encryptPayload('party-a', { amount: 100 }, { provider: partyKeys });
+
+    assert.equal(record.kms_provider, 'party');
+    assert.equal(record.kms_key_id, 'party-a');
+    assert.deepEqual(await decryptPayload(record, { providers }), { amount: 100 });
+  });
+
+  it('refuses a DEK claimed for another party', async () => {
+    const record = await encryptPayload('party-a', { amount: 100 }, { provider: partyKeys });
+    await partyKeys.ensureKey('party-b');
+
+    await assert.rejects(
+      decryptPayload({ ...record, kms_key_id: 'party-b' }, { providers }),
+      AuthenticationFailedError
+    );
+  });
+
+  it('refuses a KEK moved to another party in the keystore', async () => {
+    const record = await encryptPayload('party-c', { amount: 100 }, { provider: partyKeys });
+    await partyKeys.ensureKey('party-d');
+
+    const original = fs.readFileSync(keystorePath, 'utf8');
+    const keystore = JSON.parse(original);
+    keystore.parties['party-c'] = keystore.parties['party-d'];
+    fs.writeFileSync(keystorePath, JSON.stringify(keystore));
+
+    try {
+      await assert.rejects(decryptPayload(record, { providers }), AuthenticationFailedError);
+    } finally {
+      fs.writeFileSync(keystorePath, original);
+    }
+  });
+
+  it('makes every record of a shredded party undecryptable', async () => {
+    const records = await Promise.all(
+      [1, 2].map((amount) => encryptPayload('party-e', { amount }, { provider: partyKeys }))
+    );
+
+    assert.equal(await partyKeys.shred('party-e'), true);
+    assert.equal(await partyKeys.shred('party-e'), false);
+
+    for (const record of records) {
+      await assert.rejects(decryptPayload(record, { providers }), KeyUnavailableError);
+    }
+  });
+
+  it('rewraps KEKs after the master key rotates', async () => {
+    const record = await encryptPayload('party-f', { amount: 100 }, { provider: partyKeys });
+
+    const rotated = new Map<string, KeyProvider>([
+      [
+        'env',
+        createEnvKeyProvider(
+          createKeyring(2, { 1: MASTER_KEY, 2: crypto.randomBytes(32).toString('hex') })
+        )
+      ]
+    ]);
+    const rotatedKeys = createPartyKeyProvider(keystorePath, rotated, 'env');
+    rotated.set('party', rotatedKeys);
+
+    assert.ok((await rotatedKeys.rewrapKeys()) > 0);
+    assert.equal(await rotatedKeys.rewrapKeys(), 0);
+    assert.deepEqual(await decryptPayload(record, { providers: rotated }), { amount: 100 });
+  });
+});
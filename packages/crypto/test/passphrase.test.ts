@@ -0,0 +1,144 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import {
+  AuthenticationFailedError,
+  InvalidRecordError,
+  KeyUnavailableError,
+  PassphraseRequiredError,
+  TxSecureRecord,
+  createEnvKeyProvider,
+  createKeyring,
+  decryptPayload,
+  encryptPayload
+} from '../dist/index.js';
+
+const MASTER_KEY = crypto.randomBytes(32).toString('hex');
+
+const provider = createEnvKeyProvider(createKeyring(1, { 1: MASTER_KEY }));
+const providers = new Map([['env', provider]]);
+
+const PASSPHRASE = 'correct horse battery staple';
+
+// Cheap scrypt parameters keep the tests fast; the defaults are far higher
+const cost = { N: 2 ** 12 };
+
+function encrypt(doubleWrap = false): Promise<TxSecureRecord> {
+  return encryptPayload('party-a', { amount: 100 }, {
+    provider,
+    passphrase: { passphrase: PASSPHRASE, doubleWrap, cost }
+  });
+}
+
+describe('passphrase-wrapped records', () => {
+  it('decrypt with the passphrase alone', async () => {
+    const record = await encrypt();
+
+    assert.equal(record.kms_provider, 'passphrase');
+    assert.equal(record.kdf?.N, cost.N);
+    assert.deepEqual(
+      await decryptPayload(record, { providers: new Map(), passphrase: PASSPHRASE }),
+      { amount: 100 }
+    );
+  });
+
+  it('require the passphrase', async () => {
+    const record = await encrypt();
+
+    await assert.rejects(decryptPayload(record, { providers }), PassphraseRequiredError);
+    await assert.rejects(
+      decryptPayload(record, { providers, passphrase: 'wrong horse' }),
+      AuthenticationFailedError
+    );
+  });
+
+  it('reject altered key derivation parameters', async () => {
+    const record = await encrypt();
+    const salt = crypto.randomBytes(16).toString('hex');
+
+    for (const kdf of [
+      { ...record.kdf!, salt },
+      { ...record.kdf!, N: cost.N * 2 },
+      { ...record.kdf!, r: 4 }
+    ]) {
+      await assert.rejects(
+        decryptPayload({ ...record, kdf }, { providers, passphrase: PASSPHRASE }),
+        AuthenticationFailedError
+      );
+    }
+  });
+
+  it('reject key derivation parameters out of bounds', async () => {
+    const record = await encrypt();
+
+    for (const kdf of [
+      { ...record.kdf!, N: 3 },
+      { ...record.kdf!, N: 2 ** 30 },
+      { ...record.kdf!, salt: '' }
+    ]) {
+      await assert.rejects(
+        decryptPayload({ ...record, kdf }, { providers, passphrase: PASSPHRASE }),
+        InvalidRecordError
+      );
+    }
+
+    const passphrase = { passphrase: PASSPHRASE, cost: { N: 3 } };
+    await assert.rejects(
+      encryptPayload('party-a', {}, { provider, passphrase }),
+      InvalidRecordError
+    );
+  });
+
+  it('reject a record moved to another party', async () => {
+    const record = await encrypt();
+
+    await assert.rejects(
+      decryptPayload({ ...record, partyId: 'party-b' }, { providers, passphrase: PASSPHRASE }),
+      AuthenticationFailedError
+    );
+  });
+});
+
+describe('double-wrapped records', () => {
+  it('decrypt with both the passphrase and the master key', async () => {
+    const record = await encrypt(true);
+
+    assert.deepEqual(await decryptPayload(record, { providers, passphrase: PASSPHRASE }), {
+      amount: 100
+    });
+  });
+
+  it('need both the passphrase and the master key', async () => {
+    const record = await encrypt(true);
+    const otherKey = createEnvKeyProvider(
+      createKeyring(1, { 1: crypto.randomBytes(32).toString('hex') })
+    );
+
+    await assert.rejects(decryptPayload(record, { providers }), PassphraseRequiredError);
+    await assert.rejects(
+      decryptPayload(record, { providers, passphrase: 'wrong horse' }),
+      AuthenticationFailedError
+    );
+    await assert.rejects(
+      decryptPayload(record, { providers: new Map(), passphrase: PASSPHRASE }),
+      KeyUnavailableError
+    );
+    await assert.rejects(
+      decryptPayload(record, { providers: new Map([['env', otherKey]]), passphrase: PASSPHRASE }),
+      AuthenticationFailedError
+    );
+  });
+
+  it('reject the passphrase layer stripped off', async () => {
+    const single = await encrypt();
+    const double = await encrypt(true);
+
+    await assert.rejects(
+      decryptPayload({ ...double, kms_provider: single.kms_provider }, {
+        providers,
+        passphrase: PASSPHRASE
+      }),
+      AuthenticationFailedError
+    );
+  });
+});
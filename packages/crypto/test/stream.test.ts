@@ -0,0 +1,153 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { Readable, Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import {
+  AuthenticationFailedError,
+  InvalidRecordError,
+  beginStreamEncryption,
+  createDecryptStream,
+  createEncryptStream,
+  createEnvKeyProvider,
+  createKeyring,
+  encryptPayload,
+  encryptedStreamSize,
+  openStreamDecryption
+} from '../dist/index.js';
+
+const provider = createEnvKeyProvider(
+  createKeyring(1, { 1: crypto.randomBytes(32).toString('hex') })
+);
+const providers = new Map([['env', provider]]);
+
+const SEGMENT_SIZE = 16;
+const SEGMENT_BYTES = SEGMENT_SIZE + 16;
+const HEADER_BYTES = 16;
+
+async function run(transform: Transform, ...chunks: Buffer[]): Promise<Buffer> {
+  const output: Buffer[] = [];
+  await pipeline(Readable.from(chunks), transform, async (source: AsyncIterable<Buffer>) => {
+    for await (const chunk of source) {
+      output.push(chunk);
+    }
+  });
+  return Buffer.concat(output);
+}
+
+describe('chunked stream encryption', () => {
+  const key = crypto.randomBytes(32);
+  const aad = Buffer.from('record-id');
+
+  for (const alg of ['AES-256-GCM', 'CHACHA20-POLY1305'] as const) {
+    for (const size of [0, 1, SEGMENT_SIZE, 3 * SEGMENT_SIZE, 100]) {
+      it(`round-trips ${size} bytes with ${alg}`, async () => {
+        const plaintext = crypto.randomBytes(size);
+        const ciphertext = await run(
+          createEncryptStream(key, { alg, aad, segmentSize: SEGMENT_SIZE }),
+          // Uneven chunks, so segments straddle writes
+          plaintext.subarray(0, 7),
+          plaintext.subarray(7)
+        );
+
+        assert.equal(ciphertext.length, encryptedStreamSize(size, SEGMENT_SIZE));
+        assert.deepEqual(await run(createDecryptStream(key, { alg, aad }), ciphertext), plaintext);
+      });
+    }
+  }
+
+  async function encrypted(): Promise<Buffer> {
+    return run(
+      createEncryptStream(key, { aad, segmentSize: SEGMENT_SIZE }),
+      crypto.randomBytes(3 * SEGMENT_SIZE + 5)
+    );
+  }
+
+  function segment(ciphertext: Buffer, index: number): Buffer {
+    const start = HEADER_BYTES + index * SEGMENT_BYTES;
+    return ciphertext.subarray(start, start + SEGMENT_BYTES);
+  }
+
+  for (const [name, tamper] of [
+    [
+      'a flipped ciphertext byte',
+      (ciphertext: Buffer) => {
+        const copy = Buffer.from(ciphertext);
+        copy[HEADER_BYTES + 3]! ^= 1;
+        return copy;
+      }
+    ],
+    [
+      'a dropped final segment',
+      (ciphertext: Buffer) => ciphertext.subarray(0, HEADER_BYTES + 3 * SEGMENT_BYTES)
+    ],
+    [
+      'a dropped middle segment',
+      (ciphertext: Buffer) =>
+        Buffer.concat([
+          ciphertext.subarray(0, HEADER_BYTES + SEGMENT_BYTES),
+          ciphertext.subarray(HEADER_BYTES + 2 * SEGMENT_BYTES)
+        ])
+    ],
+    [
+      'reordered segments',
+      (ciphertext: Buffer) =>
+        Buffer.concat([
+          ciphertext.subarray(0, HEADER_BYTES),
+          segment(ciphertext, 1),
+          segment(ciphertext, 0),
+          ciphertext.subarray(HEADER_BYTES + 2 * SEGMENT_BYTES)
+        ])
+    ],
+    ['a missing header', (ciphertext: Buffer) => ciphertext.subarray(0, HEADER_BYTES - 1)]
+  ] as const) {
+    it(`rejects ${name}`, async () => {
+      await assert.rejects(
+        run(createDecryptStream(key, { aad }), tamper(await encrypted())),
+        AuthenticationFailedError
+      );
+    });
+  }
+
+  it('rejects a stream opened with different AAD', async () => {
+    await assert.rejects(
+      run(createDecryptStream(key, { aad: Buffer.from('other-record') }), await encrypted()),
+      AuthenticationFailedError
+    );
+  });
+});
+
+describe('stream records', () => {
+  it('binds the content to the record and decrypts it with the manifest', async () => {
+    const content = crypto.randomBytes(200_000);
+    const encryption = beginStreamEncryption('party-a', { provider });
+    const ciphertext = await run(encryption.stream, content);
+    const record = await encryption.finish({ size: content.length, contentType: 'image/png' });
+
+    assert.equal(record.id, encryption.id);
+    assert.equal(record.mode, 'stream');
+
+    const opened = await openStreamDecryption(record, { providers });
+    assert.deepEqual(opened.manifest, { size: content.length, contentType: 'image/png' });
+    assert.deepEqual(await run(opened.stream, ciphertext), content);
+  });
+
+  it('rejects content moved to another stream record', async () => {
+    const first = beginStreamEncryption('party-a', { provider });
+    const ciphertext = await run(first.stream, Buffer.from('first'));
+    await first.finish({ size: 5 });
+
+    const second = beginStreamEncryption('party-a', { provider });
+    await run(second.stream, Buffer.from('second'));
+    const record = await second.finish({ size: 6 });
+
+    const opened = await openStreamDecryption(record, { providers });
+    await assert.rejects(run(opened.stream, ciphertext), AuthenticationFailedError);
+  });
+
+  it('refuses records without streamed content', async () => {
+    const record = await encryptPayload('party-a', { amount: 1 }, { provider });
+
+    await assert.rejects(openStreamDecryption(record, { providers }), InvalidRecordError);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import {
+  AuthenticationFailedError,
+  TxSecureRecord,
+  createEnvKeyProvider,
+  createKeyring,
+  decryptPayload,
+  encryptPayload,
+  rewrapRecord
+} from '../dist/index.js';
+
+const MASTER_KEY = crypto.randomBytes(32).toString('hex');
+
+// Both versions hold the same key bytes, so only the AAD tells them apart
+const provider = createEnvKeyProvider(createKeyring(1, { 1: MASTER_KEY }));
+const rotated = createEnvKeyProvider(createKeyring(2, { 1: MASTER_KEY, 2: MASTER_KEY }));
+const providers = new Map([['env', rotated]]);
+
+const PAYLOAD_FIELDS = ['payload_nonce', 'payload_ct', 'payload_tag'] as const;
+const DEK_FIELDS = ['dek_wrap_nonce', 'dek_wrapped', 'dek_wrap_tag'] as const;
+
+function encrypt(partyId = 'party-a', payload: unknown = { amount: 100 }): Promise<TxSecureRecord> {
+  return encryptPayload(partyId, payload, { provider });
+}
+
+function pick<K extends keyof TxSecureRecord>(
+  record: TxSecureRecord,
+  keys: readonly K[]
+): Pick<TxSecureRecord, K> {
+  return Object.fromEntries(keys.map((key) => [key, record[key]])) as Pick<TxSecureRecord, K>;
+}
+
+async function assertTampered(record: TxSecureRecord, passphrase?: string): Promise<void> {
+  await assert.rejects(decryptPayload(record, { providers, passphrase }), AuthenticationFailedError);
+}
+
+describe('record AAD', () => {
+  it('decrypts an untouched record', async () => {
+    assert.deepEqual(await decryptPayload(await encrypt(), { providers }), { amount: 100 });
+  });
+
+  it('rejects payload fields swapped between records', async () => {
+    const a = await encrypt('party-a', { amount: 100 });
+    const b = await encrypt('party-a', { amount: 999 });
+
+    await assertTampered({ ...a, ...pick(b, PAYLOAD_FIELDS) });
+  });
+
+  it('rejects wrapped DEKs moved between records', async () => {
+    const a = await encrypt();
+    const b = await encrypt();
+
+    await assertTampered({ ...a, ...pick(b, DEK_FIELDS) });
+  });
+
+  it('rejects payload and wrapped DEK moved together onto another record', async () => {
+    const a = await encrypt();
+    const b = await encrypt();
+
+    await assertTampered({ ...a, ...pick(b, [...PAYLOAD_FIELDS, ...DEK_FIELDS]) });
+  });
+
+  for (const [field, value] of [
+    ['id', crypto.randomUUID()],
+    ['partyId', 'party-b'],
+    ['createdAt', new Date(Date.UTC(2020, 0, 1)).toISOString()],
+    ['alg', 'CHACHA20-POLY1305']
+  ] as const) {
+    it(`rejects an edited ${field}`, async () => {
+      await assertTampered({ ...(await encrypt()), [field]: value });
+    });
+  }
+
+  it('binds the master key version into the DEK-wrap AAD', async () => {
+    const record = await rewrapRecord(await encrypt(), providers, rotated);
+
+    assert.equal(record.mk_version, 2);
+    assert.deepEqual(await decryptPayload(record, { providers }), { amount: 100 });
+    await assertTampered({ ...record, mk_version: 1 });
+  });
+
+  it('keeps double-wrapped records decryptable after a rewrap', async () => {
+    const record = await encryptPayload('party-a', { amount: 100 }, {
+      provider,
+      passphrase: { passphrase: 'correct horse', doubleWrap: true, cost: { N: 2 ** 12 } }
+    });
+    const rewrapped = await rewrapRecord(record, providers, rotated);
+
+    assert.equal(rewrapped.mk_version, 2);
+    assert.deepEqual(
+      await decryptPayload(rewrapped, { providers, passphrase: 'correct horse' }),
+      { amount: 100 }
+    );
+    await assertTampered({ ...rewrapped, mk_version: 1 }, 'correct horse');
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AlgorithmId,
+  AuthenticationFailedError,
+  getAlgorithm,
+  supportedAlgorithms
+} from '../dist/index.js';
+import { aeadOpen, aeadSeal } from '../dist/algorithms.js';
+
+/**
+ * Published known-answer vectors; binary values are hex
+ */
+const VECTORS: {
+  alg: AlgorithmId;
+  source: string;
+  key: string;
+  nonce: string;
+  aad: string;
+  plaintext: string;
+  ciphertext: string;
+  tag: string;
+}[] = [
+  {
+    alg: 'AES-256-GCM',
+    source: 'McGrew & Viega, The GCM Mode of Operation, test case 16',
+    key: 'feffe9928665731c6d6a8f9467308308feffe9928665731c6d6a8f9467308308',
+    nonce: 'cafebabefacedbaddecaf888',
+    aad: 'feedfacedeadbeeffeedfacedeadbeefabaddad2',
+    plaintext:
+      'd9313225f88406e5a55909c5aff5269a86a7a9531534f7da2e4c303d8a318a72' +
+      '1c3c0c95956809532fcf0e2449a6b525b16aedf5aa0de657ba637b39',
+    ciphertext:
+      '522dc1f099567d07f47f37a32a84427d643a8cdcbfe5c0c97598a2bd2555d1aa' +
+      '8cb08e48590dbb3da7b08b1056828838c5f61e6393ba7a0abcc9f662',
+    tag: '76fc6ece0f4e1768cddf8853bb2d551b'
+  },
+  {
+    alg: 'CHACHA20-POLY1305',
+    source: 'RFC 8439, section 2.8.2',
+    key: '808182838485868788898a8b8c8d8e8f909192939495969798999a9b9c9d9e9f',
+    nonce: '070000004041424344454647',
+    aad: '50515253c0c1c2c3c4c5c6c7',
+    plaintext: Buffer.from(
+      "Ladies and Gentlemen of the class of '99: If I could offer you only one tip " +
+        'for the future, sunscreen would be it.',
+      'utf8'
+    ).toString('hex'),
+    ciphertext:
+      'd31a8d34648e60db7b86afbc53ef7ec2a4aded51296e08fea9e2b5a736ee62d6' +
+      '3dbea45e8ca9671282fafb69da92728b1a71de0a9e060b2905d6a5b67ecd3b36' +
+      '92ddbd7f2d778b8c9803aee328091b58fab324e4fad675945585808b4831d7bc' +
+      '3ff4def08e4b7a9de576d26586cec64b6116',
+    tag: '1ae10b594f09e26a7e902ecbd0600691'
+  }
+];
+
+describe('known-answer vectors', () => {
+  it('cover every registered algorithm', () => {
+    assert.deepEqual(
+      [...supportedAlgorithms()].sort(),
+      [...new Set(VECTORS.map((vector) => vector.alg))].sort()
+    );
+  });
+
+  for (const vector of VECTORS) {
+    const algorithm = getAlgorithm(vector.alg);
+    const key = Buffer.from(vector.key, 'hex');
+    const aad = Buffer.from(vector.aad, 'hex');
+    const plaintext = Buffer.from(vector.plaintext, 'hex');
+    const expected = {
+      nonce: Buffer.from(vector.nonce, 'hex'),
+      ciphertext: Buffer.from(vector.ciphertext, 'hex'),
+      tag: Buffer.from(vector.tag, 'hex')
+    };
+
+    describe(`${vector.alg} (${vector.source})`, () => {
+      it('encrypts to the published ciphertext and tag', () => {
+        const sealed = aeadSeal(algorithm, key, plaintext, aad, expected.nonce);
+
+        assert.equal(sealed.ciphertext.toString('hex'), vector.ciphertext);
+        assert.equal(sealed.tag.toString('hex'), vector.tag);
+      });
+
+      it('decrypts to the published plaintext', () => {
+        assert.equal(aeadOpen(algorithm, key, expected, aad).toString('hex'), vector.plaintext);
+      });
+
+      it('rejects an altered tag, ciphertext or AAD', () => {
+        const tag = Buffer.from(expected.tag);
+        tag[0]! ^= 1;
+        const ciphertext = Buffer.from(expected.ciphertext);
+        ciphertext[0]! ^= 1;
+
+        assert.throws(
+          () => aeadOpen(algorithm, key, { ...expected, tag }, aad),
+          AuthenticationFailedError
+        );
+        assert.throws(
+          () => aeadOpen(algorithm, key, { ...expected, ciphertext }, aad),
+          AuthenticationFailedError
+        );
+        assert.throws(
+          () => aeadOpen(algorithm, key, expected, Buffer.from('other')),
+          AuthenticationFailedError
+        );
+      });
+    });
+  }
+});